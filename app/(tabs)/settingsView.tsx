@@ -16,7 +16,7 @@
  * 2. Support - Contact founder and rate app
  * 3. Legal - Terms and privacy policy
  * 4. About - App version information
- * 5. Developer (DEBUG only) - Development and testing tools
+ * 5. Developer (DEBUG only) - Environment switching, network inspector, HAR recording, development and testing tools
  * 
  * To Customize:
  * 1. Add new sections by creating new SettingRow components
@@ -34,7 +34,8 @@ import {
   TouchableOpacity, 
   Alert, 
   Linking,
-  Platform 
+  Platform,
+  Share
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -43,6 +44,9 @@ import Constants from 'expo-constants';
 import * as Haptics from 'expo-haptics';
 import { UserManager } from '../../utils/userManager';
 import { SuperwallService } from '../../utils/superwallService';
+import { EnvironmentManager, EnvironmentProfile } from '../../utils/environmentManager';
+import { APIService } from '../../utils/apiService';
+import { HarRecorder } from '../../utils/har';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
@@ -100,6 +104,66 @@ const SectionHeader: React.FC<{ title: string; colors: any }> = ({ title, colors
 
 // Developer section component (only in development)
 const DeveloperSection: React.FC<{ colors?: any }> = ({ colors }) => {
+  const [environment, setEnvironment] = useState<EnvironmentProfile>(EnvironmentManager.shared.current);
+
+  useEffect(() => {
+    const handleEnvironmentChanged = (profile: EnvironmentProfile) => setEnvironment(profile);
+    EnvironmentManager.shared.on('environmentChanged', handleEnvironmentChanged);
+    return () => EnvironmentManager.shared.off('environmentChanged', handleEnvironmentChanged);
+  }, []);
+
+  const handleSwitchEnvironment = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      'Switch Environment',
+      'Switching signs you out and clears cached responses. The choice is kept after relaunching.',
+      [
+        ...EnvironmentManager.shared.profiles
+          .filter(profile => profile.name !== environment.name)
+          .map(profile => ({
+            text: profile.label,
+            onPress: async () => {
+              try {
+                await EnvironmentManager.shared.switchTo(profile.name);
+              } catch (error) {
+                console.error('Error switching environment:', error);
+                Alert.alert('Error', 'Failed to switch environment.');
+              }
+            },
+          })),
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const handleOpenNetworkInspector = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push('/networkInspectorView');
+  };
+
+  const [isRecordingHAR, setIsRecordingHAR] = useState(APIService.shared.getHarRecorder() !== undefined);
+
+  const handleToggleHARRecording = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const recorder = APIService.shared.getHarRecorder();
+    if (!recorder) {
+      APIService.shared.setHarRecorder(new HarRecorder());
+      setIsRecordingHAR(true);
+      return;
+    }
+
+    // Stop recording and share the archive (e.g. to attach it to a bug report)
+    APIService.shared.setHarRecorder(undefined);
+    setIsRecordingHAR(false);
+    try {
+      await Share.share({ message: JSON.stringify(recorder.toHAR(), null, 2) });
+    } catch (error) {
+      console.error('Error sharing HAR:', error);
+      Alert.alert('Error', 'Failed to share the recording.');
+    }
+  };
+
   const handleStartOnboarding = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     // Navigate to onboarding flow
@@ -146,6 +210,36 @@ const DeveloperSection: React.FC<{ colors?: any }> = ({ colors }) => {
 
   return (
     <View style={styles.developerSection}>
+      <SettingRow
+        icon="server"
+        title="Environment"
+        subtitle={`${environment.label} · ${environment.apiBaseURL}`}
+        onPress={handleSwitchEnvironment}
+        colors={colors}
+      />
+      
+      <View style={[styles.divider, { backgroundColor: colors?.divider || '#C6C6C8' }]} />
+      
+      <SettingRow
+        icon="pulse"
+        title="Network Inspector"
+        subtitle="Recent API requests, responses and cURL export"
+        onPress={handleOpenNetworkInspector}
+        colors={colors}
+      />
+      
+      <View style={[styles.divider, { backgroundColor: colors?.divider || '#C6C6C8' }]} />
+      
+      <SettingRow
+        icon={isRecordingHAR ? 'stop-circle' : 'radio-button-on'}
+        title={isRecordingHAR ? 'Stop HAR Recording' : 'Record HAR'}
+        subtitle={isRecordingHAR ? 'Stop and share the recorded API traffic' : 'Record API traffic to attach to a bug report'}
+        onPress={handleToggleHARRecording}
+        colors={colors}
+      />
+      
+      <View style={[styles.divider, { backgroundColor: colors?.divider || '#C6C6C8' }]} />
+      
       <SettingRow
         icon="refresh-circle"
         title="Start Onboarding"
@@ -174,6 +268,7 @@ const DeveloperSection: React.FC<{ colors?: any }> = ({ colors }) => {
         <AboutRow title="User Manager" value={UserManager.shared.isSignedIn ? 'Signed In' : 'Not Signed In'} colors={colors} />
         <AboutRow title="Onboarding" value={UserManager.shared.isOnboardingCompleted ? 'Completed' : 'Not Completed'} colors={colors} />
         <AboutRow title="Build Config" value={__DEV__ ? 'DEBUG' : 'RELEASE'} colors={colors} />
+        <AboutRow title="Environment" value={environment.label} colors={colors} />
         <AboutRow title="Simulator" value={isSimulator() ? 'Yes' : 'No'} colors={colors} />
       </View>
     </View>
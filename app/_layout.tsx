@@ -6,7 +6,7 @@ import { useEffect, useState } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { SuperwallService } from '@/utils/superwallService';
+import { EnvironmentManager } from '@/utils/environmentManager';
 import { UserManager } from '@/utils/userManager';
 import SplashView from './splashView';
 
@@ -20,14 +20,8 @@ export default function RootLayout() {
 
   const handleSplashComplete = async () => {
     try {
-      // Configure Superwall with API key from environment variables
-      const superwallApiKey = process.env.EXPO_PUBLIC_SUPERWALL_API_KEY;
-      if (superwallApiKey) {
-        SuperwallService.shared.configure(superwallApiKey, __DEV__);
-        console.log('✅ Superwall configured successfully');
-      } else {
-        console.warn('⚠️ Superwall API key not found in environment variables');
-      }
+      // Configure APIService, Superwall and debug flags for the active environment
+      await EnvironmentManager.shared.initialize();
 
       // Load user state while splash is completing
       await UserManager.shared.checkAuthenticationStatus();
@@ -72,6 +66,8 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="(onboarding)" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="networkInspectorView" options={{ title: 'Network Inspector' }} />
+        <Stack.Screen name="networkRequestView" options={{ title: 'Request' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
       <StatusBar style="auto" />
@@ -0,0 +1,141 @@
+/*
+ * NETWORK INSPECTOR VIEW - RECENT API REQUESTS (DEBUG)
+ *
+ * Lists the requests recorded by APIService's request history, newest first.
+ * Opened from the Developer Tools section in settings.
+ *
+ * Features:
+ * - Method, status, path, duration and response size per request
+ * - Pending and failed requests highlighted
+ * - Live updates while the screen is open
+ * - Clear button in the header
+ * - Tap a request for headers, bodies and cURL export (networkRequestView)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import { Stack, router } from 'expo-router';
+import { RequestStatusText, formatBytes } from '@/components/RequestStatusText';
+import { APIService } from '@/utils/apiService';
+import { RequestHistoryEntry } from '@/utils/requestHistory';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+// Request row component
+const RequestRow: React.FC<{ entry: RequestHistoryEntry; colors: typeof Colors.light }> = ({ entry, colors }) => {
+  // Split "https://host/path?query" without URL, whose getters aren't implemented in React Native
+  const [, host = '', path = '/'] = /^[a-z]+:\/\/([^/?#]*)(.*)$/i.exec(entry.url) ?? [];
+
+  return (
+    <TouchableOpacity
+      style={styles.row}
+      onPress={() => router.push({ pathname: '/networkRequestView', params: { id: entry.id } })}
+    >
+      <View style={styles.rowHeader}>
+        <Text style={[styles.method, { color: colors.textPrimary }]}>{entry.method}</Text>
+        <RequestStatusText entry={entry} style={styles.status} />
+        <Text style={[styles.meta, { color: colors.textSecondary }]}>
+          {entry.duration !== undefined ? `${entry.duration} ms` : ''} · {formatBytes(entry.responseSize)}
+        </Text>
+      </View>
+      <Text style={[styles.path, { color: colors.textPrimary }]} numberOfLines={2}>
+        {path || '/'}
+      </Text>
+      <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+        {host} · {new Date(entry.startedAt).toLocaleTimeString()}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+export default function NetworkInspectorView() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const history = APIService.shared.getRequestHistory();
+
+  const [entries, setEntries] = useState<RequestHistoryEntry[]>(history?.entries ?? []);
+
+  useEffect(() => {
+    if (!history) return;
+
+    // Listen for new and updated requests
+    const handleChanged = (updated: RequestHistoryEntry[]) => setEntries(updated);
+    history.on('changed', handleChanged);
+    setEntries(history.entries);
+
+    return () => history.off('changed', handleChanged);
+  }, [history]);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.backgroundSecondary }]}>
+      <Stack.Screen
+        options={{
+          title: 'Network Inspector',
+          headerRight: () =>
+            history ? (
+              <TouchableOpacity onPress={() => history.clear()}>
+                <Text style={[styles.headerButton, { color: colors.accentColor }]}>Clear</Text>
+              </TouchableOpacity>
+            ) : null,
+        }}
+      />
+
+      <FlatList
+        data={entries}
+        keyExtractor={entry => entry.id}
+        renderItem={({ item }) => <RequestRow entry={item} colors={colors} />}
+        ItemSeparatorComponent={() => <View style={[styles.divider, { backgroundColor: colors.divider }]} />}
+        style={{ backgroundColor: colors.backgroundPrimary }}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+            {history ? 'No requests yet.' : 'Request history is off. Enable it with APIService.shared.setRequestHistory().'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  method: {
+    fontSize: 13,
+    fontWeight: '700',
+    marginRight: 8,
+  },
+  status: {
+    marginRight: 8,
+  },
+  meta: {
+    fontSize: 12,
+  },
+  path: {
+    fontSize: 14,
+    fontFamily: 'SpaceMono',
+    marginBottom: 2,
+  },
+  divider: {
+    height: StyleSheet.hairlineWidth,
+    marginLeft: 16,
+  },
+  headerButton: {
+    fontSize: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    margin: 32,
+    lineHeight: 20,
+  },
+});
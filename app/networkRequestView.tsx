@@ -0,0 +1,205 @@
+/*
+ * NETWORK REQUEST VIEW - DETAILS OF ONE RECORDED REQUEST (DEBUG)
+ *
+ * Shows a request from APIService's request history, opened from the
+ * Network Inspector with the entry id as a route parameter.
+ *
+ * Features:
+ * - Overview: method, URL, status, timing and sizes
+ * - Request and response headers and bodies (redacted, pretty-printed JSON)
+ * - Copy as cURL through the share sheet
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Share } from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { RequestStatusText, formatBytes } from '@/components/RequestStatusText';
+import { APIService } from '@/utils/apiService';
+import { RequestHistoryEntry, toCurlCommand } from '@/utils/requestHistory';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+/**
+ * Indents JSON bodies for reading; other text is returned unchanged
+ */
+function prettyBody(body: string): string {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+// Section header component
+const SectionHeader: React.FC<{ title: string; colors: typeof Colors.light }> = ({ title, colors }) => (
+  <Text style={[styles.sectionHeader, { color: colors.textSecondary }]}>{title}</Text>
+);
+
+// Label/value row component
+const DetailRow: React.FC<{ title: string; value: string; colors: typeof Colors.light }> = ({ title, value, colors }) => (
+  <View style={styles.detailRow}>
+    <Text style={[styles.detailTitle, { color: colors.textSecondary }]}>{title}</Text>
+    <Text style={[styles.detailValue, { color: colors.textPrimary }]} selectable>
+      {value}
+    </Text>
+  </View>
+);
+
+// Monospaced block for headers and bodies
+const CodeBlock: React.FC<{ text: string; colors: typeof Colors.light }> = ({ text, colors }) => (
+  <Text style={[styles.code, { color: colors.textPrimary }]} selectable>
+    {text}
+  </Text>
+);
+
+const formatHeaders = (headers?: Record<string, string>): string =>
+  headers && Object.keys(headers).length > 0
+    ? Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n')
+    : 'None';
+
+export default function NetworkRequestView() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const history = APIService.shared.getRequestHistory();
+
+  const [entry, setEntry] = useState<RequestHistoryEntry | undefined>(history?.entry(id));
+
+  useEffect(() => {
+    if (!history) return;
+
+    // Follow the entry while it is pending
+    const handleChanged = () => setEntry(history.entry(id));
+    history.on('changed', handleChanged);
+    return () => history.off('changed', handleChanged);
+  }, [history, id]);
+
+  const handleCopyCurl = async () => {
+    if (!entry) return;
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await Share.share({ message: toCurlCommand(entry) });
+  };
+
+  if (!entry) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.backgroundSecondary }]}>
+        <Stack.Screen options={{ title: 'Request' }} />
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+          This request is no longer in the history.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.backgroundSecondary }]}>
+      <Stack.Screen
+        options={{
+          title: `${entry.method} Request`,
+          headerRight: () => (
+            <TouchableOpacity onPress={handleCopyCurl}>
+              <Text style={[styles.headerButton, { color: colors.accentColor }]}>Copy cURL</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Overview Section */}
+        <SectionHeader title="Overview" colors={colors} />
+        <View style={[styles.section, { backgroundColor: colors.backgroundPrimary }]}>
+          <DetailRow title="URL" value={entry.url} colors={colors} />
+          <View style={styles.detailRow}>
+            <Text style={[styles.detailTitle, { color: colors.textSecondary }]}>Status</Text>
+            <RequestStatusText entry={entry} style={styles.statusValue} />
+          </View>
+          {entry.error && <DetailRow title="Error" value={entry.error} colors={colors} />}
+          <DetailRow title="Started" value={new Date(entry.startedAt).toLocaleString()} colors={colors} />
+          <DetailRow title="Duration" value={entry.duration !== undefined ? `${entry.duration} ms` : '—'} colors={colors} />
+          <DetailRow title="Request Size" value={formatBytes(entry.requestSize)} colors={colors} />
+          <DetailRow title="Response Size" value={formatBytes(entry.responseSize)} colors={colors} />
+        </View>
+
+        {/* Request Section */}
+        <SectionHeader title="Request Headers" colors={colors} />
+        <View style={[styles.section, { backgroundColor: colors.backgroundPrimary }]}>
+          <CodeBlock text={formatHeaders(entry.requestHeaders)} colors={colors} />
+        </View>
+        {entry.requestBody !== undefined && (
+          <>
+            <SectionHeader title="Request Body" colors={colors} />
+            <View style={[styles.section, { backgroundColor: colors.backgroundPrimary }]}>
+              <CodeBlock text={prettyBody(entry.requestBody)} colors={colors} />
+            </View>
+          </>
+        )}
+
+        {/* Response Section */}
+        {entry.state === 'completed' && (
+          <>
+            <SectionHeader title="Response Headers" colors={colors} />
+            <View style={[styles.section, { backgroundColor: colors.backgroundPrimary }]}>
+              <CodeBlock text={formatHeaders(entry.responseHeaders)} colors={colors} />
+            </View>
+            <SectionHeader title="Response Body" colors={colors} />
+            <View style={[styles.section, { backgroundColor: colors.backgroundPrimary }]}>
+              <CodeBlock text={entry.responseBody ? prettyBody(entry.responseBody) : 'Empty'} colors={colors} />
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  sectionHeader: {
+    fontSize: 13,
+    fontWeight: '400',
+    textTransform: 'uppercase',
+    marginTop: 24,
+    marginBottom: 8,
+    marginLeft: 16,
+    letterSpacing: 0.5,
+  },
+  section: {
+    marginHorizontal: 16,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  detailRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  detailTitle: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  detailValue: {
+    fontSize: 15,
+  },
+  statusValue: {
+    fontSize: 15,
+  },
+  code: {
+    fontSize: 12,
+    fontFamily: 'SpaceMono',
+    padding: 16,
+    lineHeight: 18,
+  },
+  headerButton: {
+    fontSize: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    margin: 32,
+  },
+});
@@ -0,0 +1,53 @@
+import { StyleSheet, Text, type TextProps } from 'react-native';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { RequestHistoryEntry } from '@/utils/requestHistory';
+
+export type RequestStatusTextProps = TextProps & {
+  entry: RequestHistoryEntry;
+};
+
+/**
+ * HTTP status of a recorded request, colored by outcome ("…" while pending, "ERR" without a response)
+ */
+export function RequestStatusText({ entry, style, ...rest }: RequestStatusTextProps) {
+  const colors = Colors[useColorScheme() ?? 'light'];
+
+  let color = colors.success;
+  let label = String(entry.status);
+  if (entry.state === 'pending') {
+    color = colors.textSecondary;
+    label = '…';
+  } else if (entry.state === 'failed') {
+    color = colors.error;
+    label = 'ERR';
+  } else if ((entry.status ?? 0) >= 400) {
+    color = colors.error;
+  } else if ((entry.status ?? 0) >= 300) {
+    color = colors.warning;
+  }
+
+  return (
+    <Text style={[styles.status, { color }, style]} {...rest}>
+      {label}
+    </Text>
+  );
+}
+
+/**
+ * Human-readable byte count (e.g. "1.2 KB")
+ */
+export function formatBytes(bytes?: number): string {
+  if (bytes === undefined) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const styles = StyleSheet.create({
+  status: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
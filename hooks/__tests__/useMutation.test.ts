@@ -0,0 +1,111 @@
+import { act, renderHook } from '@testing-library/react-native';
+
+import { optimisticUpdate, useMutation, UseMutationOptions } from '../useMutation';
+import { QueryClient } from '@/utils/queryClient';
+
+interface Post {
+  id: string;
+  liked: boolean;
+}
+
+const client = QueryClient.shared;
+const likeUpdate = optimisticUpdate(['posts'], (posts: Post[] = [], postId: string) =>
+  posts.map(post => (post.id === postId ? { ...post, liked: true } : post))
+);
+
+function renderMutation(
+  mutationFn: (postId: string) => Promise<Post>,
+  options: UseMutationOptions<Post, string, unknown> = {}
+) {
+  return renderHook(() => useMutation(mutationFn, { optimisticUpdates: [likeUpdate], ...options }));
+}
+
+beforeEach(() => {
+  client.clear();
+  client.setQueryData<Post[]>(['posts'], [{ id: 'p1', liked: false }]);
+});
+
+afterEach(() => {
+  // Also stops the queries' cache timers
+  client.clear();
+});
+
+describe('useMutation', () => {
+  test('shows the optimistic update while pending and keeps it on success', async () => {
+    let resolve: (post: Post) => void = () => {};
+    const response = new Promise<Post>(res => { resolve = res; });
+    const { result } = renderMutation(() => response);
+
+    let mutation: Promise<Post> = Promise.resolve({ id: '', liked: false });
+    act(() => {
+      mutation = result.current.mutateAsync('p1');
+    });
+    expect(client.getQueryData<Post[]>(['posts'])).toEqual([{ id: 'p1', liked: true }]);
+    expect(result.current.isPending).toBe(true);
+
+    await act(async () => {
+      resolve({ id: 'p1', liked: true });
+      await mutation;
+    });
+
+    expect(result.current.status).toBe('success');
+    expect(result.current.data).toEqual({ id: 'p1', liked: true });
+    expect(client.getQueryData<Post[]>(['posts'])).toEqual([{ id: 'p1', liked: true }]);
+  });
+
+  test('rolls back optimistic updates and reports the error when the request fails', async () => {
+    const onError = jest.fn();
+    const { result } = renderMutation(() => Promise.reject(new Error('Offline')), { onError });
+
+    await act(async () => {
+      await result.current.mutateAsync('p1').catch(() => undefined);
+    });
+
+    expect(client.getQueryData<Post[]>(['posts'])).toEqual([{ id: 'p1', liked: false }]);
+    expect(result.current.status).toBe('error');
+    expect(result.current.error?.message).toBe('Offline');
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), 'p1', undefined);
+  });
+
+  test('removes optimistic data from a query that had none', async () => {
+    client.clear();
+    const { result } = renderMutation(() => Promise.reject(new Error('Offline')));
+
+    await act(async () => {
+      await result.current.mutateAsync('p1').catch(() => undefined);
+    });
+
+    expect(client.getQueryState(['posts']).status).toBe('idle');
+    expect(client.getQueryData(['posts'])).toBeUndefined();
+  });
+
+  test('a throwing onSuccess does not roll back the committed write', async () => {
+    const { result } = renderMutation(async () => ({ id: 'p1', liked: true }), {
+      onSuccess: () => {
+        throw new Error('Analytics failed');
+      },
+    });
+
+    await act(async () => {
+      await expect(result.current.mutateAsync('p1')).rejects.toThrow('Analytics failed');
+    });
+
+    expect(result.current.status).toBe('success');
+    expect(client.getQueryData<Post[]>(['posts'])).toEqual([{ id: 'p1', liked: true }]);
+  });
+
+  test('invalidates queries even when onSettled throws', async () => {
+    const { result } = renderMutation(async () => ({ id: 'p1', liked: true }), {
+      invalidates: [['posts']],
+      onSettled: () => {
+        throw new Error('Settled failed');
+      },
+    });
+
+    await act(async () => {
+      await result.current.mutateAsync('p1').catch(() => undefined);
+    });
+
+    expect(client.getQueryState(['posts']).isInvalidated).toBe(true);
+  });
+});
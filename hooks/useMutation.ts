@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { QueryClient, QueryKey } from '@/utils/queryClient';
+
+export type MutationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+export interface OptimisticUpdate<TVariables, TQueryData = unknown> {
+  /** Query whose cached data is updated before the request is sent */
+  key: QueryKey;
+  /** Returns the data the query should show while the request is in flight */
+  update: (current: TQueryData | undefined, variables: TVariables) => TQueryData;
+}
+
+/**
+ * Builds a typed optimistic update. Queries hold different data types, so this checks
+ * the update against its own query's data type before it joins the others in optimisticUpdates.
+ * @param key Query to update
+ * @param update Returns the data the query should show while the request is in flight
+ * @returns Update for UseMutationOptions.optimisticUpdates
+ */
+export function optimisticUpdate<TVariables, TQueryData>(
+  key: QueryKey,
+  update: (current: TQueryData | undefined, variables: TVariables) => TQueryData
+): OptimisticUpdate<TVariables> {
+  return { key, update: (current, variables) => update(current as TQueryData | undefined, variables) };
+}
+
+export interface UseMutationOptions<TData, TVariables, TContext> {
+  /** Runs before the request; the returned context is passed to the other callbacks */
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  onSuccess?: (data: TData, variables: TVariables, context: TContext | undefined) => void | Promise<void>;
+  onError?: (error: Error, variables: TVariables, context: TContext | undefined) => void | Promise<void>;
+  onSettled?: (data: TData | undefined, error: Error | undefined, variables: TVariables) => void | Promise<void>;
+  /** Cache updates applied immediately and rolled back if the request fails (build each with optimisticUpdate) */
+  optimisticUpdates?: OptimisticUpdate<TVariables>[];
+  /** Query key prefixes to invalidate once the request settles (before onSettled runs) */
+  invalidates?: QueryKey[] | ((data: TData | undefined, variables: TVariables) => QueryKey[]);
+  client?: QueryClient;
+}
+
+export interface UseMutationResult<TData, TVariables> {
+  data?: TData;
+  error?: Error;
+  status: MutationStatus;
+  isPending: boolean;
+  /** Run the mutation; errors are reported through `error` and onError */
+  mutate: (variables: TVariables) => void;
+  /** Run the mutation and get the result; rejects if the request or a callback fails */
+  mutateAsync: (variables: TVariables) => Promise<TData>;
+  /** Return to the idle state */
+  reset: () => void;
+}
+
+interface MutationState<TData> {
+  data?: TData;
+  error?: Error;
+  status: MutationStatus;
+}
+
+/**
+ * State for a create/update/delete request, with optimistic updates and query invalidation.
+ *
+ * const likePost = useMutation(
+ *   (postId: string) => APIService.shared.post<Post>(`/posts/${postId}/like`, {}),
+ *   {
+ *     optimisticUpdates: [
+ *       optimisticUpdate(['posts'], (posts: Post[] = [], postId: string) =>
+ *         posts.map(post => post.id === postId ? { ...post, liked: true } : post)),
+ *     ],
+ *     invalidates: [['posts']],
+ *     onError: () => Alert.alert('Could not like the post'),
+ *   }
+ * );
+ * <Button title="Like" onPress={() => likePost.mutate(post.id)} disabled={likePost.isPending} />
+ */
+export function useMutation<TData, TVariables = void, TContext = unknown>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables, TContext> = {}
+): UseMutationResult<TData, TVariables> {
+  const [state, setState] = useState<MutationState<TData>>({ status: 'idle' });
+
+  const mutationFnRef = useRef(mutationFn);
+  mutationFnRef.current = mutationFn;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Only the latest call updates state, and never after unmount
+  const callIdRef = useRef(0);
+  const isMountedRef = useRef(true);
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const setLatestState = useCallback((callId: number, nextState: MutationState<TData>) => {
+    if (isMountedRef.current && callId === callIdRef.current) {
+      setState(nextState);
+    }
+  }, []);
+
+  const mutateAsync = useCallback(
+    async (variables: TVariables): Promise<TData> => {
+      const currentOptions = optionsRef.current;
+      const client = currentOptions.client ?? QueryClient.shared;
+      const callId = ++callIdRef.current;
+      setLatestState(callId, { status: 'pending' });
+
+      // Apply optimistic updates, keeping the previous data for rollback
+      const snapshots = (currentOptions.optimisticUpdates ?? []).map(({ key, update }) => {
+        // A refetch finishing now would overwrite the optimistic data
+        client.cancelQueries(key);
+        const previous = client.getQueryData<unknown>(key);
+        client.setQueryData(key, update(previous, variables));
+        return { key, previous };
+      });
+
+      let context: TContext | undefined;
+      let data: TData | undefined;
+      let error: Error | undefined;
+      try {
+        try {
+          context = await currentOptions.onMutate?.(variables);
+          data = await mutationFnRef.current(variables);
+        } catch (caught) {
+          error = caught as Error;
+          for (const { key, previous } of snapshots.reverse()) {
+            if (previous === undefined) {
+              client.resetQuery(key);
+            } else {
+              client.setQueryData(key, previous);
+            }
+          }
+          setLatestState(callId, { error, status: 'error' });
+          await currentOptions.onError?.(error, variables, context);
+          throw error;
+        }
+
+        // The server accepted the write: commit it first, so a throwing onSuccess can't roll it back
+        setLatestState(callId, { data, status: 'success' });
+        await currentOptions.onSuccess?.(data, variables, context);
+        return data;
+      } finally {
+        const invalidates = typeof currentOptions.invalidates === 'function'
+          ? currentOptions.invalidates(data, variables)
+          : currentOptions.invalidates ?? [];
+        // Invalidate first, so a throwing onSettled can't leave stale queries.
+        // Don't hold up the caller while the invalidated queries refetch.
+        invalidates.forEach(key => client.invalidateQueries(key));
+        await currentOptions.onSettled?.(data, error, variables);
+      }
+    },
+    [setLatestState]
+  );
+
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      // Errors are surfaced through state.error and onError
+      mutateAsync(variables).catch(() => {});
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => {
+    callIdRef.current++;
+    setState({ status: 'idle' });
+  }, []);
+
+  return {
+    ...state,
+    isPending: state.status === 'pending',
+    mutate,
+    mutateAsync,
+    reset,
+  };
+}
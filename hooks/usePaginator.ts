@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+
+import { Paginator, PaginatorOptions, PaginatorState } from '@/utils/paginator';
+
+export interface UsePaginatorResult<T> extends PaginatorState<T> {
+  /** Load the next page; safe to call from FlatList's onEndReached (skipped after an error until refresh) */
+  loadNext: () => void;
+  /** Reload from the first page; pass to FlatList's onRefresh */
+  refresh: () => void;
+  paginator: Paginator<T>;
+}
+
+/**
+ * Infinite-scroll state for a paginated endpoint. The first page loads on mount,
+ * and the list starts over when the endpoint, params or page size change.
+ *
+ * const { items, loadNext, refresh, isRefreshing } = usePaginator<Post>({ endpoint: '/posts', strategy: { type: 'cursor' } });
+ * <FlatList data={items} onEndReached={loadNext} onRefresh={refresh} refreshing={isRefreshing} … />
+ */
+export function usePaginator<T>(options: PaginatorOptions<T>): UsePaginatorResult<T> {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const key = JSON.stringify([options.client?.name, options.endpoint, options.params, options.pageSize, options.strategy.type]);
+  const [paginator, setPaginator] = useState(() => new Paginator<T>(options));
+  const keyRef = useRef(key);
+
+  useEffect(() => {
+    if (keyRef.current !== key) {
+      keyRef.current = key;
+      setPaginator(new Paginator<T>(optionsRef.current));
+    }
+  }, [key]);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      paginator.on('change', onChange);
+      return () => paginator.off('change', onChange);
+    },
+    [paginator]
+  );
+  const state = useSyncExternalStore(subscribe, () => paginator.state);
+
+  useEffect(() => {
+    // Errors are surfaced through state.error
+    paginator.loadNext().catch(() => {});
+    return () => paginator.cancel();
+  }, [paginator]);
+
+  const loadNext = useCallback(() => {
+    if (paginator.state.error || paginator.isLoading) return;
+    paginator.loadNext().catch(() => {});
+  }, [paginator]);
+
+  const refresh = useCallback(() => {
+    paginator.refresh().catch(() => {});
+  }, [paginator]);
+
+  return { ...state, loadNext, refresh, paginator };
+}
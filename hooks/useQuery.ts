@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { AppState } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+
+import { QueryClient, QueryFetcher, QueryKey, QueryState, hashQueryKey } from '@/utils/queryClient';
+
+export interface UseQueryOptions {
+  /** Set to false to wait, e.g. until a dependency is loaded (default: true) */
+  enabled?: boolean;
+  /** Milliseconds data stays fresh; fresh data isn't refetched on mount, focus or foreground (default: 0) */
+  staleTime?: number;
+  /** Refetch stale data when the screen regains focus (default: true) */
+  refetchOnFocus?: boolean;
+  /** Refetch stale data when the app returns to the foreground (default: true) */
+  refetchOnForeground?: boolean;
+  /** Poll every this many milliseconds while the app is in the foreground */
+  refetchInterval?: number;
+  client?: QueryClient;
+}
+
+export interface UseQueryResult<T> extends QueryState<T> {
+  /** First load without data yet */
+  isLoading: boolean;
+  /** Fetch now, even if the data is fresh */
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Data, loading and error state for a query. Components using the same key share
+ * one request and one copy of the data (see utils/queryClient.ts).
+ *
+ * const { data: feed, error, isLoading, refetch, isFetching } = useQuery(
+ *   ['feed', { tab }],
+ *   ({ signal }) => APIService.shared.get<Feed>('/feed', undefined, { signal, params: { tab } }),
+ *   { staleTime: 30000, refetchInterval: 60000 }
+ * );
+ * <FlatList data={feed?.items} onRefresh={refetch} refreshing={isFetching && !isLoading} … />
+ */
+export function useQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: UseQueryOptions = {}): UseQueryResult<T> {
+  const client = options.client ?? QueryClient.shared;
+  const {
+    enabled = true,
+    staleTime = 0,
+    refetchOnFocus = true,
+    refetchOnForeground = true,
+    refetchInterval,
+  } = options;
+
+  // The key is compared by value, so an inline array doesn't refetch on every render
+  const hash = hashQueryKey(key);
+  const keyRef = useRef(key);
+  if (hashQueryKey(keyRef.current) !== hash) {
+    keyRef.current = key;
+  }
+  const stableKey = keyRef.current;
+
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const stableFetcher = useCallback<QueryFetcher<T>>(context => fetcherRef.current(context), []);
+
+  const subscribe = useCallback((onChange: () => void) => client.subscribe(stableKey, onChange), [client, stableKey]);
+  const state = useSyncExternalStore(subscribe, () => client.getQueryState<T>(stableKey));
+
+  const fetchIfStale = useCallback(
+    (force: boolean) => {
+      if (!enabled) return;
+      // Errors are surfaced through state.error
+      client.fetchQuery(stableKey, stableFetcher, { staleTime, force }).catch(() => {});
+    },
+    [client, stableKey, stableFetcher, enabled, staleTime]
+  );
+
+  // Initial load, and whenever the key changes or the query becomes enabled
+  useEffect(() => {
+    fetchIfStale(false);
+  }, [fetchIfStale]);
+
+  // Refetch on focus (the first focus is the initial load)
+  const hasFocusedRef = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (hasFocusedRef.current && refetchOnFocus) {
+        fetchIfStale(false);
+      }
+      hasFocusedRef.current = true;
+    }, [fetchIfStale, refetchOnFocus])
+  );
+
+  // Refetch when the app returns to the foreground
+  useEffect(() => {
+    if (!refetchOnForeground) return;
+
+    let previousState = AppState.currentState;
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (previousState.match(/inactive|background/) && nextState === 'active') {
+        fetchIfStale(false);
+      }
+      previousState = nextState;
+    });
+    return () => subscription.remove();
+  }, [fetchIfStale, refetchOnForeground]);
+
+  // Poll while the app is in the foreground
+  useEffect(() => {
+    if (!refetchInterval || refetchInterval <= 0) return;
+
+    const timer = setInterval(() => {
+      if (AppState.currentState === 'active') {
+        fetchIfStale(true);
+      }
+    }, refetchInterval);
+    return () => clearInterval(timer);
+  }, [fetchIfStale, refetchInterval]);
+
+  const refetch = useCallback(
+    () => client.fetchQuery(stableKey, stableFetcher, { force: true }).catch(() => undefined),
+    [client, stableKey, stableFetcher]
+  );
+
+  return {
+    ...state,
+    isLoading: state.status === 'loading' && state.data === undefined,
+    refetch,
+  };
+}
@@ -0,0 +1,131 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const script = path.resolve(__dirname, '../generate-api-client.js');
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets/{pet-id}:
+    parameters:
+      - name: pet-id
+        in: path
+        required: true
+        schema: { type: string }
+    get:
+      operationId: getPet
+      summary: Find a pet
+      responses:
+        '200':
+          description: The pet
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+    delete:
+      responses:
+        '204': { description: Deleted }
+  /pets:
+    get:
+      operationId: listPets
+      parameters:
+        - name: tags
+          in: query
+          schema: { type: array, items: { type: string } }
+        - name: X-Trace
+          in: header
+          schema: { type: string }
+      responses:
+        '200':
+          description: Pets
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: '#/components/schemas/Pet' } }
+    post:
+      operationId: createPet
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/NewPet' }
+      responses:
+        '201':
+          description: Created
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+components:
+  schemas:
+    Pet:
+      type: object
+      description: A pet in the store
+      required: [id, name]
+      properties:
+        id: { type: string }
+        name: { type: string }
+        status: { type: string, enum: [available, sold], nullable: true }
+        tag-line: { type: string, deprecated: true }
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name: { type: string }
+`;
+
+let workDir: string;
+
+function generate(...args: string[]): string {
+  return execFileSync(process.execPath, [script, 'pets.yaml', '--out', 'api', ...args], {
+    cwd: workDir,
+    encoding: 'utf8',
+    stdio: 'pipe',
+  });
+}
+
+function readOutput(): Record<string, string> {
+  return Object.fromEntries(
+    ['types.ts', 'endpoints.ts'].map(file => [file, fs.readFileSync(path.join(workDir, 'api', file), 'utf8')])
+  );
+}
+
+beforeEach(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generate-api-'));
+  fs.writeFileSync(path.join(workDir, 'pets.yaml'), spec);
+});
+
+afterEach(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe('generate-api-client', () => {
+  test('generates types and typed endpoint functions', () => {
+    generate();
+
+    expect(readOutput()).toMatchSnapshot();
+  });
+
+  test('is stable across reruns and reports stale output with --check', () => {
+    expect(generate()).toContain('Updated api/types.ts, api/endpoints.ts');
+    expect(generate()).toContain('already up to date');
+    expect(generate('--check')).toContain('up to date');
+
+    fs.appendFileSync(path.join(workDir, 'api', 'types.ts'), '// edited\n');
+    expect(() => generate('--check')).toThrow(/out of date: api\/types\.ts/);
+  });
+
+  test('calls a named client when given', () => {
+    generate('--client', 'payments');
+
+    expect(readOutput()['endpoints.ts']).toContain("APIService.client('payments')");
+  });
+
+  test('rejects documents that are not OpenAPI 3', () => {
+    fs.writeFileSync(path.join(workDir, 'pets.yaml'), 'swagger: "2.0"\n');
+
+    expect(() => generate()).toThrow(/is not an OpenAPI 3 document/);
+  });
+});
@@ -0,0 +1,476 @@
+#!/usr/bin/env node
+
+/**
+ * Generates TypeScript types and typed endpoint functions from an OpenAPI 3 spec (JSON or YAML).
+ * The generated functions call APIService through typed endpoints (see defineEndpoint in utils/apiService.ts).
+ *
+ * Usage:
+ *   npm run generate-api -- <spec.yaml|spec.json> [--out api] [--client <name>] [--check]
+ *
+ *   --out     Output directory (default: api). Writes types.ts and endpoints.ts.
+ *   --client  Name of an APIService client created with APIService.create (default: APIService.shared)
+ *   --check   Don't write anything; exit with code 1 if the generated files are out of date (for CI)
+ *
+ * Output is deterministic: schemas are sorted by name, operations by path and method,
+ * and files are only rewritten when their content changes, so reruns produce minimal diffs.
+ *
+ * Notes:
+ * - Path parameters become :params in camelCase ('/users/{user-id}' → '/users/:userId')
+ * - Header and cookie parameters are not generated; add them with APIService headers or interceptors
+ * - Operations without an operationId are named from the method and path (GET /users/{id} → getUsersById)
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const httpMethods = ["get", "post", "put", "patch", "delete"];
+const generatedHeader = (specName) =>
+  `// Generated by scripts/generate-api-client.js from ${specName}. Do not edit by hand; rerun the script instead.\n`;
+
+// MARK: - Arguments
+
+const parseArguments = (argv) => {
+  const options = { out: "api", client: undefined, check: false, spec: undefined };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--out") {
+      options.out = argv[++i];
+    } else if (arg === "--client") {
+      options.client = argv[++i];
+    } else if (arg === "--check") {
+      options.check = true;
+    } else if (!options.spec) {
+      options.spec = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+  if (!options.spec || !options.out) {
+    throw new Error("Usage: generate-api-client.js <spec.yaml|spec.json> [--out api] [--client <name>] [--check]");
+  }
+  if (options.client && !/^[\w.-]+$/.test(options.client)) {
+    throw new Error(`Invalid client name: ${options.client}`);
+  }
+  return options;
+};
+
+const loadSpec = (specPath) => {
+  const text = fs.readFileSync(specPath, "utf8");
+  const spec = /\.ya?ml$/i.test(specPath) ? require("js-yaml").load(text) : JSON.parse(text);
+  if (!spec || typeof spec.openapi !== "string" || !spec.openapi.startsWith("3.")) {
+    throw new Error(`${specPath} is not an OpenAPI 3 document`);
+  }
+  return spec;
+};
+
+// MARK: - Naming
+
+const words = (text) =>
+  String(text)
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const pascalCase = (text) => {
+  const name = words(text)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+};
+
+const camelCase = (text) => {
+  const name = pascalCase(text);
+  return name[0] === "_" ? name : name[0].toLowerCase() + name.slice(1);
+};
+
+const propertyName = (name) => (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name));
+
+/**
+ * Hands out unique names, suffixing duplicates with 2, 3, … in first-come order
+ */
+const createNamer = () => {
+  const used = new Set();
+  return (name) => {
+    let unique = name;
+    for (let index = 2; used.has(unique); index++) {
+      unique = `${name}${index}`;
+    }
+    used.add(unique);
+    return unique;
+  };
+};
+
+const docComment = (lines, indent = "") => {
+  const text = lines.filter(Boolean).join("\n").trim();
+  if (!text) return "";
+  const body = text.split("\n").map((line) => `${indent} * ${line.replace(/\*\//g, "*\\/")}`.trimEnd());
+  return `${indent}/**\n${body.join("\n")}\n${indent} */\n`;
+};
+
+// MARK: - Schemas
+
+const createTypeWriter = (spec, schemaNames) => {
+  const resolveRef = (ref) => {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+    if (!match || !schemaNames.has(match[1])) {
+      throw new Error(`Unsupported $ref: ${ref}`);
+    }
+    return schemaNames.get(match[1]);
+  };
+
+  const literal = (value) => (value === null ? "null" : JSON.stringify(value));
+
+  const toType = (schema, indent = "") => {
+    if (!schema || typeof schema !== "object" || Object.keys(schema).length === 0) return "unknown";
+    if (schema.$ref) return resolveRef(schema.$ref);
+
+    let type = baseType(schema, indent);
+    const types = Array.isArray(schema.type) ? schema.type : [];
+    if ((schema.nullable || types.includes("null")) && type !== "null" && type !== "unknown") {
+      type = `${type} | null`;
+    }
+    return type;
+  };
+
+  const union = (schemas, separator, indent) => {
+    const members = schemas.map((member) => toType(member, indent));
+    return members.map((member) => (/[|&]/.test(member) && members.length > 1 ? `(${member})` : member)).join(separator);
+  };
+
+  const baseType = (schema, indent) => {
+    if (schema.enum) return schema.enum.map(literal).join(" | ");
+    if (schema.const !== undefined) return literal(schema.const);
+    if (schema.oneOf) return union(schema.oneOf, " | ", indent);
+    if (schema.anyOf) return union(schema.anyOf, " | ", indent);
+    if (schema.allOf) return union(schema.allOf, " & ", indent);
+
+    const types = Array.isArray(schema.type) ? schema.type.filter((type) => type !== "null") : [schema.type];
+    if (types.length > 1) {
+      return types.map((type) => baseType({ ...schema, type }, indent)).join(" | ");
+    }
+
+    switch (types[0]) {
+      case "string":
+        return schema.format === "binary" ? "Blob" : "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array": {
+        const item = toType(schema.items, indent);
+        return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+      }
+      case "object":
+      case undefined:
+        if (schema.properties || schema.additionalProperties !== undefined) {
+          return objectType(schema, indent);
+        }
+        return types[0] === "object" ? "Record<string, unknown>" : "unknown";
+      default:
+        return "unknown";
+    }
+  };
+
+  const objectType = (schema, indent) => {
+    const required = new Set(schema.required || []);
+    const inner = `${indent}  `;
+    const lines = Object.entries(schema.properties || {}).map(([name, property]) => {
+      const optional = required.has(name) ? "" : "?";
+      const comment = docComment([property.description, property.deprecated ? "@deprecated" : ""], inner);
+      return `${comment}${inner}${propertyName(name)}${optional}: ${toType(property, inner)};`;
+    });
+
+    if (schema.additionalProperties) {
+      const valueType = schema.additionalProperties === true ? "unknown" : toType(schema.additionalProperties, inner);
+      if (lines.length === 0) return `Record<string, ${valueType}>`;
+      // Declared properties must be assignable to the index signature, so it can't be narrower
+      lines.push(`${inner}[key: string]: unknown;`);
+    }
+
+    return lines.length === 0 ? "Record<string, never>" : `{\n${lines.join("\n")}\n${indent}}`;
+  };
+
+  /**
+   * Named declaration: an interface for plain objects, a type alias for everything else
+   */
+  const declaration = (name, schema, description) => {
+    const comment = docComment([description ?? schema.description, schema.deprecated ? "@deprecated" : ""]);
+    const isPlainObject =
+      !schema.$ref && !schema.allOf && !schema.oneOf && !schema.anyOf && !schema.enum &&
+      (schema.type === "object" || (!schema.type && schema.properties)) && schema.properties && !schema.nullable;
+    if (isPlainObject) {
+      return `${comment}export interface ${name} ${objectType(schema, "")}\n`;
+    }
+    return `${comment}export type ${name} = ${toType(schema, "")};\n`;
+  };
+
+  return { toType, declaration };
+};
+
+// MARK: - Operations
+
+const collectOperations = (spec) => {
+  const operations = [];
+  for (const specPath of Object.keys(spec.paths || {}).sort()) {
+    const pathItem = spec.paths[specPath];
+    for (const method of httpMethods) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      // Path-level parameters apply to every operation; operation parameters override them
+      const parameters = new Map();
+      for (const parameter of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+        const resolved = resolveParameter(spec, parameter);
+        parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+      }
+      operations.push({ specPath, method, operation, parameters: [...parameters.values()] });
+    }
+  }
+  return operations;
+};
+
+const resolveComponent = (spec, object, section) => {
+  if (!object || !object.$ref) return object;
+  const match = new RegExp(`^#/components/${section}/(.+)$`).exec(object.$ref);
+  const resolved = match && spec.components && spec.components[section] && spec.components[section][match[1]];
+  if (!resolved) {
+    throw new Error(`Unsupported $ref: ${object.$ref}`);
+  }
+  return resolved;
+};
+
+const resolveParameter = (spec, parameter) => resolveComponent(spec, parameter, "parameters");
+
+const jsonMediaType = (content) => {
+  const types = Object.keys(content || {});
+  const json = types.find((type) => /^application\/(.+\+)?json/.test(type));
+  return json ? { kind: "json", media: content[json] } : undefined;
+};
+
+const requestBodyInfo = (spec, operation) => {
+  const body = resolveComponent(spec, operation.requestBody, "requestBodies");
+  if (!body) return undefined;
+  const content = body.content || {};
+  const json = jsonMediaType(content);
+  if (json) return { kind: "json", schema: json.media.schema, required: body.required !== false };
+  if (content["multipart/form-data"]) return { kind: "form", required: true };
+  if (Object.keys(content).length > 0) return { kind: "binary", required: true };
+  return undefined;
+};
+
+const responseInfo = (spec, operation) => {
+  const codes = Object.keys(operation.responses || {})
+    .filter((code) => /^2(\d\d|XX)$/i.test(code))
+    .sort();
+  for (const code of codes) {
+    const response = resolveComponent(spec, operation.responses[code], "responses");
+    const content = response.content || {};
+    const json = jsonMediaType(content);
+    if (json) return { kind: "json", schema: json.media.schema };
+    const types = Object.keys(content);
+    if (types.some((type) => type.startsWith("text/"))) return { kind: "text" };
+    if (types.length > 0) return { kind: "binary" };
+  }
+  return { kind: "empty" };
+};
+
+// MARK: - Generation
+
+const generate = (spec, specName, clientName) => {
+  // Schema names first, so references resolve no matter where they appear
+  const typeNamer = createNamer();
+  const schemaNames = new Map();
+  const schemas = (spec.components && spec.components.schemas) || {};
+  for (const name of Object.keys(schemas).sort()) {
+    schemaNames.set(name, typeNamer(pascalCase(name)));
+  }
+  const { toType, declaration } = createTypeWriter(spec, schemaNames);
+
+  const typeBlocks = [...schemaNames.entries()].map(([name, typeName]) => declaration(typeName, schemas[name]));
+  const functionNamer = createNamer();
+  const endpointBlocks = [];
+  const functionBlocks = [];
+  const usedTypes = new Set();
+
+  for (const { specPath, method, operation, parameters } of collectOperations(spec)) {
+    const name = functionNamer(camelCase(operation.operationId || `${method} ${specPath.replace(/\{([^}]+)\}/g, " by $1 ")}`));
+    const typePrefix = pascalCase(name);
+
+    // Path template in APIService's :param form
+    const pathParams = parameters.filter((parameter) => parameter.in === "path");
+    const endpointPath = specPath.replace(/\{([^}]+)\}/g, (_, param) => `:${camelCase(param)}`);
+
+    // Query parameters
+    const queryParams = parameters.filter((parameter) => parameter.in === "query");
+    let queryType = "QueryParams";
+    if (queryParams.length > 0) {
+      queryType = typeNamer(`${typePrefix}Query`);
+      const required = queryParams.filter((parameter) => parameter.required).map((parameter) => parameter.name);
+      const properties = Object.fromEntries(
+        queryParams.map((parameter) => [parameter.name, { ...(parameter.schema || {}), description: parameter.description }])
+      );
+      // A type alias (not an interface) so it is assignable to QueryParams
+      typeBlocks.push(
+        `${docComment([`Query parameters of ${name}`])}export type ${queryType} = ${toType({ type: "object", properties, required })};\n`
+      );
+    }
+
+    // Request body
+    const body = requestBodyInfo(spec, operation);
+    let bodyType = "void";
+    if (body && body.kind === "json") {
+      if (body.schema && body.schema.$ref) {
+        bodyType = toType(body.schema);
+      } else {
+        bodyType = typeNamer(`${typePrefix}Body`);
+        typeBlocks.push(declaration(bodyType, body.schema || {}, `Request body of ${name}`));
+      }
+    } else if (body && body.kind === "form") {
+      bodyType = "FormData";
+    } else if (body && body.kind === "binary") {
+      bodyType = "Blob";
+    }
+
+    // Response
+    const response = responseInfo(spec, operation);
+    let responseType = "EmptyResponse";
+    let responseOption = "";
+    if (response.kind === "json") {
+      if (response.schema && response.schema.$ref) {
+        responseType = toType(response.schema);
+      } else {
+        responseType = typeNamer(`${typePrefix}Response`);
+        typeBlocks.push(declaration(responseType, response.schema || {}, `Response of ${name}`));
+      }
+    } else if (response.kind === "text") {
+      responseType = "string";
+      responseOption = "text";
+    } else if (response.kind === "binary") {
+      responseType = "Blob";
+      responseOption = "blob";
+    }
+
+    for (const type of [queryType, bodyType, responseType]) usedTypes.add(type);
+
+    const typeArguments = [responseType, bodyType, queryType];
+    while (typeArguments.length > 1 && typeArguments[typeArguments.length - 1] === (typeArguments.length === 3 ? "QueryParams" : "void")) {
+      typeArguments.pop();
+    }
+    endpointBlocks.push(
+      `  ${name}: defineEndpoint<${typeArguments.join(", ")}>()(HTTPMethod.${method.toUpperCase()}, '${endpointPath}'),`
+    );
+
+    // Args are optional only when nothing in them is required
+    const argsRequired =
+      pathParams.length > 0 || bodyType !== "void" || queryParams.some((parameter) => parameter.required);
+    const queryArgsType = queryParams.some((parameter) => parameter.required)
+      ? `EndpointArgs<'${endpointPath}', ${bodyType}, ${queryType}> & { query: ${queryType} }`
+      : `EndpointArgs<'${endpointPath}', ${bodyType}, ${queryType}>`;
+    const optionsExpression = responseOption ? `{ responseType: '${responseOption}', ...options }` : "options";
+    const comment = docComment([
+      operation.summary,
+      operation.description && operation.description !== operation.summary ? operation.description : "",
+      `${method.toUpperCase()} ${specPath}`,
+      operation.deprecated ? "@deprecated" : "",
+    ]);
+    functionBlocks.push(
+      `${comment}export function ${name}(\n` +
+        `  args${argsRequired ? "" : "?"}: ${queryArgsType},\n` +
+        `  options?: RequestOptions<${responseType}>\n` +
+        `): Promise<${responseType}> {\n` +
+        `  return apiClient().call(Endpoints.${name}, args, ${optionsExpression});\n` +
+        `}\n`
+    );
+  }
+
+  const types = `${generatedHeader(specName)}/* eslint-disable */\n\n${typeBlocks.join("\n")}`;
+
+  const apiImports = ["APIService", "EndpointArgs", "HTTPMethod", "RequestOptions", "defineEndpoint"];
+  if (usedTypes.has("EmptyResponse")) apiImports.push("EmptyResponse");
+  if (usedTypes.has("QueryParams")) apiImports.push("QueryParams");
+  // Generated types used by the endpoints, including inside expressions such as Pet[] or Pet | null
+  const declaredTypes = new Set(
+    typeBlocks.map((block) => /export (?:interface|type) ([A-Za-z0-9_]+)/.exec(block)[1])
+  );
+  const referenced = new Set();
+  for (const type of usedTypes) {
+    for (const identifier of type.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+      if (declaredTypes.has(identifier)) referenced.add(identifier);
+    }
+  }
+
+  const clientExpression = clientName
+    ? [
+        "const apiClient = (): APIService => {",
+        `  const client = APIService.client('${clientName}');`,
+        "  if (!client) {",
+        `    throw new Error("APIService client '${clientName}' has not been created");`,
+        "  }",
+        "  return client;",
+        "};",
+      ].join("\n")
+    : "const apiClient = (): APIService => APIService.shared;";
+
+  const endpoints = [
+    generatedHeader(specName).trimEnd(),
+    "/* eslint-disable */",
+    "",
+    `import { ${apiImports.sort((a, b) => a.localeCompare(b, "en", { sensitivity: "base" })).join(", ")} } from '@/utils/apiService';`,
+    referenced.size > 0 ? `import type { ${[...referenced].sort().join(", ")} } from './types';` : "",
+    "",
+    clientExpression,
+    "",
+    "export const Endpoints = {",
+    ...endpointBlocks,
+    "};",
+    "",
+    functionBlocks.join("\n"),
+  ]
+    .filter((line, index, lines) => !(line === "" && lines[index - 1] === ""))
+    .join("\n");
+
+  return { "types.ts": types, "endpoints.ts": endpoints };
+};
+
+// MARK: - Main
+
+const main = () => {
+  const options = parseArguments(process.argv.slice(2));
+  const spec = loadSpec(options.spec);
+  const files = generate(spec, path.basename(options.spec), options.client);
+  const outDir = path.resolve(process.cwd(), options.out);
+
+  const outdated = [];
+  for (const [fileName, content] of Object.entries(files)) {
+    const filePath = path.join(outDir, fileName);
+    const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : undefined;
+    if (current === content) continue;
+
+    outdated.push(path.relative(process.cwd(), filePath));
+    if (!options.check) {
+      fs.mkdirSync(outDir, { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  }
+
+  if (options.check) {
+    if (outdated.length > 0) {
+      console.error(`❌ Generated API client is out of date: ${outdated.join(", ")}`);
+      process.exit(1);
+    }
+    console.log("✅ Generated API client is up to date.");
+  } else if (outdated.length > 0) {
+    console.log(`✅ Updated ${outdated.join(", ")}`);
+  } else {
+    console.log("✅ Generated API client is already up to date.");
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
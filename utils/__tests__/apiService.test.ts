@@ -0,0 +1,726 @@
+import {
+  AbortController as PolyfillAbortController,
+  AbortSignal as PolyfillAbortSignal,
+} from 'abort-controller/dist/abort-controller';
+import {
+  APIError,
+  APIErrorType,
+  APIRequest,
+  APIService,
+  APIServiceConfig,
+  buildPath,
+  buildQueryString,
+  defineEndpoint,
+  HTTPMethod,
+} from '../apiService';
+import { CircuitBreaker, CircuitState } from '../circuitBreaker';
+import { Decoders } from '../decoders';
+import { MockResponse, MockTransport } from '../mockTransport';
+import { RateLimiter } from '../rateLimiter';
+import { ResponseCache } from '../responseCache';
+
+let clientCount = 0;
+let mock: MockTransport;
+
+function createClient(config: APIServiceConfig = {}): APIService {
+  mock = new MockTransport();
+  return APIService.create(`test-${++clientCount}`, { baseURL: 'https://api.test', transport: mock, ...config });
+}
+
+afterEach(() => {
+  APIService.clientNames.forEach(name => APIService.removeClient(name));
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('retry', () => {
+  test('retries transient server errors until a request succeeds', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/feed', { body: { items: [1] } });
+    mock.failNextRequest({ status: 503 });
+    mock.failNextRequest();
+
+    await expect(api.get('/feed')).resolves.toEqual({ items: [1] });
+    expect(mock.recordedRequests).toHaveLength(3);
+  });
+
+  test('backs off exponentially between attempts', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const api = createClient({ retryPolicy: { baseDelay: 500, maxAttempts: 3 } });
+    mock.route(HTTPMethod.GET, '/feed', { status: 500 });
+
+    const result = api.get('/feed').catch((error: APIError) => error);
+    await jest.advanceTimersByTimeAsync(499);
+    expect(mock.recordedRequests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mock.recordedRequests).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(mock.recordedRequests).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mock.recordedRequests).toHaveLength(3);
+
+    const error = await result;
+    expect(error).toBeInstanceOf(APIError);
+    expect((error as APIError).statusCode).toBe(500);
+  });
+
+  test('waits for Retry-After instead of the computed backoff', async () => {
+    jest.useFakeTimers();
+    const api = createClient({ retryPolicy: { baseDelay: 10 } });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+    mock.failNextRequest({ status: 429, headers: { 'Retry-After': '2' } });
+
+    const result = api.get('/feed');
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(mock.recordedRequests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual([]);
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+
+  test('gives up when Retry-After is longer than the maximum delay', async () => {
+    const api = createClient({ retryPolicy: { maxDelay: 1000 } });
+    mock.route(HTTPMethod.GET, '/feed', { status: 503, headers: { 'Retry-After': '60' } });
+
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.SERVER_ERROR, retryAfter: 60000 });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('does not retry non-idempotent requests by default', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.POST, '/orders', { status: 503 });
+
+    await expect(api.post('/orders', { item: 1 })).rejects.toMatchObject({ type: APIErrorType.SERVER_ERROR });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('does not retry client errors', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/users/1', { status: 404 });
+
+    await expect(api.get('/users/1')).rejects.toMatchObject({ type: APIErrorType.NOT_FOUND });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+});
+
+describe('interceptors', () => {
+  test('runs request interceptors in order before each attempt', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/v2/feed', { body: [] });
+    mock.failNextRequest({ status: 503 });
+    let attempt = 0;
+    api.addRequestInterceptor(request => ({ ...request, url: request.url.replace('/feed', '/v2/feed') }));
+    api.addRequestInterceptor(request => ({ ...request, headers: { ...request.headers, 'X-Attempt': String(++attempt) } }));
+
+    await expect(api.get('/feed')).resolves.toEqual([]);
+    expect(mock.recordedRequests.map(request => [request.url, request.headers['X-Attempt']])).toEqual([
+      ['https://api.test/v2/feed', '1'],
+      ['https://api.test/v2/feed', '2'],
+    ]);
+  });
+
+  test('short-circuits the network when a request interceptor returns a response', async () => {
+    const api = createClient();
+    api.addRequestInterceptor(() => new Response(JSON.stringify({ cached: true }), { status: 200 }));
+
+    await expect(api.get('/feed')).resolves.toEqual({ cached: true });
+    expect(mock.recordedRequests).toHaveLength(0);
+  });
+
+  test('lets response interceptors rewrite responses before status handling', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { status: 404 });
+    api.addResponseInterceptor(response =>
+      response.status === 404 ? new Response(JSON.stringify([]), { status: 200 }) : response
+    );
+
+    await expect(api.get('/feed')).resolves.toEqual([]);
+  });
+
+  test('lets error interceptors replace an error or recover from it', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { status: 403 });
+    mock.route(HTTPMethod.GET, '/settings', { status: 404 });
+    api.addErrorInterceptor(error =>
+      error.type === APIErrorType.FORBIDDEN ? new APIError(APIErrorType.UNAUTHORIZED, 'Session ended', 401) : error
+    );
+    api.addErrorInterceptor((error, request) =>
+      request.url.endsWith('/settings') ? new Response(JSON.stringify({ theme: 'light' })) : error
+    );
+
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.UNAUTHORIZED, message: 'Session ended' });
+    await expect(api.get('/settings')).resolves.toEqual({ theme: 'light' });
+  });
+
+  test('removes interceptors', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+    const addHeader = (request: APIRequest) => ({ ...request, headers: { ...request.headers, 'X-Trace': '1' } });
+    api.addRequestInterceptor(addHeader);
+    api.removeRequestInterceptor(addHeader);
+
+    await api.get('/feed');
+
+    expect(mock.recordedRequests[0].headers['X-Trace']).toBeUndefined();
+  });
+});
+
+describe('token refresh', () => {
+  function routeWithToken(validToken: string) {
+    mock.route(HTTPMethod.GET, '/me', ({ request }) =>
+      request.headers['Authorization'] === `Bearer ${validToken}`
+        ? { body: { id: 'u1' } }
+        : { status: 401, body: { message: 'Token expired' } }
+    );
+  }
+
+  test('refreshes the token on 401 and replays the request', async () => {
+    const refresh = jest.fn().mockResolvedValue('fresh');
+    const api = createClient({ bearerToken: 'expired', tokenRefreshHandler: refresh });
+    routeWithToken('fresh');
+
+    await expect(api.get('/me')).resolves.toEqual({ id: 'u1' });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(mock.recordedRequests.map(request => request.headers['Authorization'])).toEqual([
+      'Bearer expired',
+      'Bearer fresh',
+    ]);
+  });
+
+  test('shares one refresh between concurrent requests', async () => {
+    let resolveRefresh!: (token: string) => void;
+    const refresh = jest.fn(() => new Promise<string>(resolve => (resolveRefresh = resolve)));
+    const api = createClient({ bearerToken: 'expired', tokenRefreshHandler: refresh });
+    routeWithToken('fresh');
+
+    const results = Promise.all([
+      api.get('/me', undefined, { params: { n: 1 } }),
+      api.get('/me', undefined, { params: { n: 2 } }),
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    resolveRefresh('fresh');
+
+    await expect(results).resolves.toEqual([{ id: 'u1' }, { id: 'u1' }]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  test('fails with the original 401 when the refresh fails', async () => {
+    const refresh = jest.fn().mockRejectedValue(new Error('Refresh token revoked'));
+    const api = createClient({ bearerToken: 'expired', tokenRefreshHandler: refresh });
+    routeWithToken('fresh');
+
+    await expect(api.get('/me')).rejects.toMatchObject({ type: APIErrorType.UNAUTHORIZED, statusCode: 401 });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('refreshes at most once per request', async () => {
+    const refresh = jest.fn().mockResolvedValue('also-expired');
+    const api = createClient({ bearerToken: 'expired', tokenRefreshHandler: refresh });
+    routeWithToken('fresh');
+
+    await expect(api.get('/me')).rejects.toMatchObject({ type: APIErrorType.UNAUTHORIZED });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+
+  test('skips the refresh when asked to', async () => {
+    const refresh = jest.fn().mockResolvedValue('fresh');
+    const api = createClient({ bearerToken: 'expired', tokenRefreshHandler: refresh });
+    routeWithToken('fresh');
+
+    await expect(api.get('/me', undefined, { skipAuthRefresh: true })).rejects.toMatchObject({
+      type: APIErrorType.UNAUTHORIZED,
+    });
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
+
+describe('error responses', () => {
+  test.each([
+    [400, APIErrorType.BAD_REQUEST],
+    [403, APIErrorType.FORBIDDEN],
+    [409, APIErrorType.CONFLICT],
+    [422, APIErrorType.VALIDATION_FAILED],
+    [429, APIErrorType.RATE_LIMITED],
+    [500, APIErrorType.SERVER_ERROR],
+  ])('maps status %i to %s', async (status, type) => {
+    const api = createClient({ retryPolicy: { maxAttempts: 1 } });
+    mock.route(HTTPMethod.GET, '/feed', { status });
+
+    await expect(api.get('/feed')).rejects.toMatchObject({ type, statusCode: status });
+  });
+
+  test('keeps the parsed error body, headers and request id', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.POST, '/signup', {
+      status: 422,
+      body: { errors: { email: ['is taken'], password: 'is too short' } },
+      headers: { 'X-Request-Id': 'req-42' },
+    });
+
+    const error = (await api.post('/signup', {}).catch((e: APIError) => e)) as APIError;
+
+    expect(error.requestId).toBe('req-42');
+    expect(error.responseHeaders).toMatchObject({ 'x-request-id': 'req-42' });
+    expect(error.fieldErrors).toEqual({ email: ['is taken'], password: ['is too short'] });
+  });
+
+  test('reads field errors from a list and keeps text bodies as-is', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.POST, '/signup', {
+      status: 400,
+      body: { errors: [{ field: 'email', message: 'is invalid' }, { field: 'email', message: 'is required' }] },
+    });
+    mock.route(HTTPMethod.GET, '/feed', { status: 409, body: 'Version mismatch' });
+
+    const error = (await api.post('/signup', {}).catch((e: APIError) => e)) as APIError;
+    expect(error.fieldErrors).toEqual({ email: ['is invalid', 'is required'] });
+    await expect(api.get('/feed')).rejects.toMatchObject({ responseBody: 'Version mismatch' });
+  });
+});
+
+describe('response cache', () => {
+  // Let revalidations started in the background finish
+  const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  function createCachedClient(): APIService {
+    return createClient({ responseCache: new ResponseCache({ persist: false }) });
+  }
+
+  test('serves fresh responses without a request', async () => {
+    const api = createCachedClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: { version: 1 }, headers: { 'Cache-Control': 'max-age=60' } });
+
+    await api.get('/feed');
+    await expect(api.get('/feed')).resolves.toEqual({ version: 1 });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('revalidates stale responses with the ETag and serves a 304 from the cache', async () => {
+    const api = createCachedClient();
+    mock.route(HTTPMethod.GET, '/feed', ({ request }): MockResponse =>
+      request.headers['If-None-Match'] === '"v1"'
+        ? { status: 304, headers: { ETag: '"v1"' } }
+        : { body: { version: 1 }, headers: { ETag: '"v1"', 'Cache-Control': 'no-cache' } }
+    );
+
+    await api.get('/feed');
+    await expect(api.get('/feed')).resolves.toEqual({ version: 1 });
+    expect(mock.recordedRequests).toHaveLength(2);
+    expect(mock.recordedRequests[1].headers['If-None-Match']).toBe('"v1"');
+  });
+
+  test('replaces the cached response when the server sends a new version', async () => {
+    const api = createCachedClient();
+    let version = 1;
+    mock.route(HTTPMethod.GET, '/feed', () => ({
+      body: { version },
+      headers: { ETag: `"v${version}"`, 'Cache-Control': 'no-cache' },
+    }));
+
+    await api.get('/feed');
+    version = 2;
+    await expect(api.get('/feed')).resolves.toEqual({ version: 2 });
+    mock.route(HTTPMethod.GET, '/feed', { status: 304 });
+    await expect(api.get('/feed')).resolves.toEqual({ version: 2 });
+    expect(mock.recordedRequests[2].headers['If-None-Match']).toBe('"v2"');
+  });
+
+  test('serves stale responses within stale-while-revalidate and refreshes them in the background', async () => {
+    const api = createCachedClient();
+    let version = 1;
+    mock.route(HTTPMethod.GET, '/feed', () => ({
+      body: { version },
+      headers: { 'Cache-Control': 'max-age=0, stale-while-revalidate=60' },
+    }));
+
+    await api.get('/feed');
+    version = 2;
+    await expect(api.get('/feed')).resolves.toEqual({ version: 1 });
+    await settle();
+
+    expect(mock.recordedRequests).toHaveLength(2);
+    await expect(api.get('/feed', undefined, { cachePolicy: 'cache-first' })).resolves.toEqual({ version: 2 });
+  });
+
+  test('cache-and-network returns cached data and reports the fresh response', async () => {
+    const api = createCachedClient();
+    let version = 1;
+    mock.route(HTTPMethod.GET, '/feed', () => ({ body: { version }, headers: { 'Cache-Control': 'max-age=60' } }));
+    await api.get('/feed');
+    version = 2;
+    const onCacheUpdate = jest.fn();
+
+    await expect(api.get('/feed', undefined, { cachePolicy: 'cache-and-network', onCacheUpdate })).resolves.toEqual({
+      version: 1,
+    });
+    await settle();
+
+    expect(onCacheUpdate).toHaveBeenCalledWith({ version: 2 });
+  });
+});
+
+describe.each([
+  ['native', { AbortController, AbortSignal }],
+  // React Native installs this polyfill, which ignores abort reasons and has no AbortSignal.timeout
+  ['React Native polyfill', { AbortController: PolyfillAbortController, AbortSignal: PolyfillAbortSignal }],
+])('cancellation (%s AbortController)', (_, implementation) => {
+  const native = { AbortController, AbortSignal };
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    Object.assign(globalThis, implementation);
+  });
+
+  afterEach(() => {
+    Object.assign(globalThis, native);
+  });
+
+  test('fails with CANCELLED when the caller aborts', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] }, { delay: 1000 });
+    const controller = new AbortController();
+
+    const result = api.get('/feed', undefined, { signal: controller.signal });
+    await wait(10);
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ type: APIErrorType.CANCELLED });
+  });
+
+  test('stops retrying when the caller cancels', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 10000 } });
+    mock.route(HTTPMethod.GET, '/feed', { status: 503 });
+    const controller = new AbortController();
+
+    const result = api.get('/feed', undefined, { signal: controller.signal });
+    await wait(10);
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ type: APIErrorType.CANCELLED });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('fails with NETWORK_ERROR when the request times out', async () => {
+    const api = createClient({ timeout: 20, retryPolicy: { maxAttempts: 1 } });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] }, { delay: 1000 });
+
+    const error = (await api.get('/feed').catch((e: APIError) => e)) as APIError;
+
+    expect(error.type).toBe(APIErrorType.NETWORK_ERROR);
+    expect(error.message).toContain('timed out');
+  });
+
+  test('does not count cancellations as host failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const api = createClient({ circuitBreaker: breaker });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] }, { delay: 1000 });
+    const controller = new AbortController();
+
+    const result = api.get('/feed', undefined, { signal: controller.signal });
+    await wait(10);
+    controller.abort();
+    await result.catch(() => undefined);
+
+    expect(breaker.state('api.test')).toBe(CircuitState.CLOSED);
+  });
+
+  test('shares identical GETs until every caller has cancelled', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] }, { delay: 50 });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const cancelled = api.get('/feed', undefined, { signal: first.signal });
+    const kept = api.get('/feed', undefined, { signal: second.signal });
+    await wait(10);
+    first.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ type: APIErrorType.CANCELLED });
+    await expect(kept).resolves.toEqual([]);
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('does not let a new caller join a request that is being cancelled', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] }, { delay: 50 });
+    const controller = new AbortController();
+
+    const cancelled = api.get('/feed', undefined, { signal: controller.signal });
+    await wait(10);
+    controller.abort();
+    const next = api.get('/feed');
+
+    await expect(cancelled).rejects.toMatchObject({ type: APIErrorType.CANCELLED });
+    await expect(next).resolves.toEqual([]);
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+});
+
+describe('query parameters and typed endpoints', () => {
+  test('encodes dates, nested objects and arrays, skipping empty values', () => {
+    const params = {
+      q: 'a&b c',
+      since: new Date('2026-01-01T00:00:00.000Z'),
+      filter: { name: 'x', range: { min: 1 } },
+      tags: ['a', 'b'],
+      empty: null,
+      missing: undefined,
+    };
+
+    expect(decodeURIComponent(buildQueryString(params))).toBe(
+      'q=a&b c&since=2026-01-01T00:00:00.000Z&filter[name]=x&filter[range][min]=1&tags=a&tags=b'
+    );
+    expect(buildQueryString({ q: 'a&b c' })).toBe('q=a%26b%20c');
+  });
+
+  test('supports the bracket and comma array formats', () => {
+    const params = { tags: ['a', 'b'], sort: [{ field: 'date' }] };
+
+    expect(decodeURIComponent(buildQueryString(params, 'brackets'))).toBe('tags[]=a&tags[]=b&sort[0][field]=date');
+    expect(decodeURIComponent(buildQueryString(params, 'comma'))).toBe('tags=a,b&sort[0][field]=date');
+  });
+
+  test('substitutes and encodes path parameters', () => {
+    expect(buildPath('/users/:id/posts/:postId', { id: 'a/b', postId: 7 })).toBe('/users/a%2Fb/posts/7');
+    expect(() => buildPath('/users/:id', {})).toThrow(expect.objectContaining({ type: APIErrorType.INVALID_URL }));
+  });
+
+  test('calls a typed endpoint with path parameters, query and body', async () => {
+    const api = createClient();
+    const updatePost = defineEndpoint<{ id: string }, { title: string }, { notify: boolean }>()(HTTPMethod.PUT, '/posts/:id');
+    mock.route(HTTPMethod.PUT, '/posts/:id', ({ params, query, body }) => ({ body: { id: params.id, query, body } }));
+
+    await expect(api.call(updatePost, { id: 'p1', body: { title: 'Hello' }, query: { notify: true } })).resolves.toEqual({
+      id: 'p1',
+      query: { notify: 'true' },
+      body: { title: 'Hello' },
+    });
+  });
+
+  test('appends params to endpoints that already have a query', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+
+    await api.get('/feed?limit=10', undefined, { params: { tags: ['a', 'b'] }, arrayFormat: 'comma' });
+
+    expect(mock.recordedRequests[0].url).toBe('https://api.test/feed?limit=10&tags=a%2Cb');
+  });
+});
+
+describe('response decoding', () => {
+  const FeedDecoder = Decoders.object({
+    items: Decoders.array(Decoders.object({ id: Decoders.string, createdAt: Decoders.isoDate })),
+  });
+
+  test('returns the decoded value', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: { items: [{ id: 'p1', createdAt: '2026-01-01T00:00:00.000Z' }] } });
+
+    const feed = await api.get('/feed', undefined, { decoder: FeedDecoder });
+
+    expect(feed.items[0].createdAt).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  test('fails with DECODING_ERROR and the path of the mismatch, without retrying', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/feed', { body: { items: [{ id: 'p1', createdAt: 1 }] } });
+
+    await expect(api.get('/feed', undefined, { decoder: FeedDecoder })).rejects.toMatchObject({
+      type: APIErrorType.DECODING_ERROR,
+      decodingPath: '$.items[0].createdAt',
+    });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+});
+
+describe('file transfer', () => {
+  test('sends binary bodies as-is with their content type', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.PUT, '/avatar', { status: 204 });
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    await api.put('/avatar', bytes, undefined, { contentType: 'image/png' });
+
+    expect(mock.recordedRequests[0].body).toBe(bytes);
+    expect(mock.recordedRequests[0].headers['Content-Type']).toBe('image/png');
+  });
+
+  test('uploads form data without a JSON content type', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.POST, '/uploads', { status: 201, body: { id: 'f1' } });
+    const formData = new FormData();
+    formData.append('caption', 'Hello');
+
+    await expect(api.upload('/uploads', formData)).resolves.toEqual({ id: 'f1' });
+    expect(mock.recordedRequests[0].body).toBe(formData);
+    expect(mock.recordedRequests[0].headers['Content-Type']).toBeUndefined();
+  });
+
+  test('returns binary and text responses', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/export', { body: 'a,b\n1,2', headers: { 'Content-Type': 'text/csv' } });
+
+    const blob = await api.download('/export');
+    const buffer = await api.get<ArrayBuffer>('/export', undefined, { responseType: 'arraybuffer' });
+
+    expect(blob.size).toBe(7);
+    expect(new Uint8Array(buffer)).toEqual(new TextEncoder().encode('a,b\n1,2'));
+    await expect(api.get('/export', undefined, { responseType: 'text' })).resolves.toBe('a,b\n1,2');
+  });
+});
+
+describe('named clients', () => {
+  test('keeps configuration separate per client', async () => {
+    const main = createClient({ bearerToken: 'user-token' });
+    const mainMock = mock;
+    const analytics = createClient({ baseURL: 'https://ingest.test', apiKey: 'ingest-key' });
+    mainMock.route(HTTPMethod.GET, '/me', { body: {} });
+    mock.route(HTTPMethod.POST, '/events', { status: 202 });
+    main.addRequestInterceptor(request => ({ ...request, headers: { ...request.headers, 'X-App': 'main' } }));
+
+    await main.get('/me');
+    await analytics.post('/events', []);
+
+    expect(mainMock.recordedRequests[0].headers).toMatchObject({ Authorization: 'Bearer user-token', 'X-App': 'main' });
+    expect(mock.recordedRequests[0].url).toBe('https://ingest.test/events');
+    expect(mock.recordedRequests[0].headers).toMatchObject({ 'X-API-Key': 'ingest-key' });
+    expect(mock.recordedRequests[0].headers).not.toHaveProperty('Authorization');
+    expect(mock.recordedRequests[0].headers).not.toHaveProperty('X-App');
+  });
+
+  test('registers clients by name and refuses duplicates', () => {
+    const api = APIService.create('analytics');
+
+    expect(APIService.client('analytics')).toBe(api);
+    expect(APIService.clientNames).toContain('analytics');
+    expect(() => APIService.create('analytics')).toThrow();
+    expect(() => APIService.create('default')).toThrow();
+
+    APIService.removeClient('analytics');
+    expect(APIService.client('analytics')).toBeUndefined();
+  });
+});
+
+describe('insecure hosts and logging', () => {
+  test('rejects plain HTTP unless the host is allowed', async () => {
+    const api = createClient({ baseURL: 'http://localhost:3000' });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.INVALID_URL });
+    api.allowInsecureHosts(['localhost:3000']);
+    await expect(api.get('/feed')).resolves.toEqual([]);
+    await expect(api.get('http://example.test/feed')).rejects.toMatchObject({ type: APIErrorType.INVALID_URL });
+  });
+
+  test('redacts credentials and sensitive fields from the request log', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const api = createClient({ bearerToken: 'secret-token', logging: true, logRedaction: { redactFields: ['pin'] } });
+    mock.route(HTTPMethod.POST, '/verify', { body: { ok: true } });
+
+    await api.post('/verify?pin=1234', { pin: '1234', attempt: 1 });
+
+    const output = JSON.stringify(log.mock.calls);
+    expect(output).not.toContain('secret-token');
+    expect(output).not.toContain('1234');
+    expect(output).toContain('pin=[REDACTED]');
+  });
+});
+
+describe('circuit breaker', () => {
+  function createBreakerClient(breaker: CircuitBreaker): APIService {
+    return createClient({ circuitBreaker: breaker, retryPolicy: { maxAttempts: 1 } });
+  }
+
+  async function failTimes(api: APIService, count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await api.get('/feed').catch(() => undefined);
+    }
+  }
+
+  test('opens after the failure threshold and fails fast without reaching the transport', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 30000 });
+    const api = createBreakerClient(breaker);
+    mock.route(HTTPMethod.GET, '/feed', { status: 503 });
+
+    await failTimes(api, 2);
+    const error = (await api.get('/feed').catch((e: APIError) => e)) as APIError;
+
+    expect(error.type).toBe(APIErrorType.CIRCUIT_OPEN);
+    expect(error.retryAfter).toBeGreaterThan(29000);
+    expect(breaker.state('api.test')).toBe(CircuitState.OPEN);
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+
+  test('does not count client errors as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const api = createBreakerClient(breaker);
+    mock.route(HTTPMethod.GET, '/feed', { status: 404 });
+
+    await failTimes(api, 3);
+
+    expect(breaker.state('api.test')).toBe(CircuitState.CLOSED);
+    expect(mock.recordedRequests).toHaveLength(3);
+  });
+
+  test('lets a trial request through after the cooldown and closes on success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 30000 });
+    const api = createBreakerClient(breaker);
+    mock.route(HTTPMethod.GET, '/feed', { body: { items: [] } });
+    mock.route(HTTPMethod.GET, '/feed', { status: 503 }, { times: 1 });
+    await failTimes(api, 1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 30000);
+    expect(breaker.state('api.test')).toBe(CircuitState.HALF_OPEN);
+
+    await expect(api.get('/feed')).resolves.toEqual({ items: [] });
+    expect(breaker.state('api.test')).toBe(CircuitState.CLOSED);
+  });
+
+  test('reopens when the trial request fails', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 30000 });
+    const api = createBreakerClient(breaker);
+    mock.route(HTTPMethod.GET, '/feed', { status: 503 });
+    await failTimes(api, 1);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 30000);
+    await failTimes(api, 1);
+
+    expect(breaker.state('api.test')).toBe(CircuitState.OPEN);
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.CIRCUIT_OPEN });
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+});
+
+describe('rate limiting', () => {
+  test('rejects requests over the limit without reaching the transport', async () => {
+    const limiter = new RateLimiter();
+    limiter.addRule({ match: '/search', capacity: 1, refillRate: 1, whenLimited: 'reject' });
+    const api = createClient({ rateLimiter: limiter, retryPolicy: { maxAttempts: 3 } });
+    mock.route(HTTPMethod.GET, '/search', { body: [] });
+
+    await api.get('/search');
+    await expect(api.get('/search')).rejects.toMatchObject({ type: APIErrorType.RATE_LIMITED });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('holds requests until a token is available', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter();
+    limiter.addRule({ match: '/search', capacity: 1, refillRate: 1 });
+    const api = createClient({ rateLimiter: limiter });
+    mock.route(HTTPMethod.GET, '/search', { body: [] });
+
+    await api.get('/search');
+    const second = api.get('/search');
+    await jest.advanceTimersByTimeAsync(999);
+    expect(mock.recordedRequests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(second).resolves.toEqual([]);
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,72 @@
+import { DecodeError, Decoders } from '../decoders';
+
+const UserDecoder = Decoders.object({
+  id: Decoders.string,
+  name: Decoders.string.optional(),
+  createdAt: Decoders.isoDate,
+  role: Decoders.oneOf(Decoders.literal('admin'), Decoders.literal('member')),
+  tags: Decoders.array(Decoders.string),
+});
+
+function decodeError(run: () => unknown): DecodeError {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof DecodeError) return error;
+    throw error;
+  }
+  throw new Error('Expected a DecodeError');
+}
+
+describe('Decoders', () => {
+  test('decodes a matching object, transforming dates and dropping unknown keys', () => {
+    const user = UserDecoder.parse({
+      id: 'u1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      role: 'admin',
+      tags: ['a', 'b'],
+      extra: true,
+    });
+
+    expect(user).toEqual({ id: 'u1', createdAt: new Date('2026-01-01T00:00:00.000Z'), role: 'admin', tags: ['a', 'b'] });
+    expect(user).not.toHaveProperty('name');
+  });
+
+  test('reports the path of the offending value', () => {
+    const error = decodeError(() =>
+      Decoders.object({ items: Decoders.array(UserDecoder) }).parse({
+        items: [
+          { id: 'u1', createdAt: '2026-01-01', role: 'member', tags: [] },
+          { id: 'u2', createdAt: 'yesterday', role: 'member', tags: [] },
+        ],
+      })
+    );
+
+    expect(error.path).toBe('$.items[1].createdAt');
+    expect(error.expected).toBe('ISO date string');
+    expect(error.message).toBe('Expected ISO date string at $.items[1].createdAt, received string "yesterday"');
+  });
+
+  test('lists every alternative when no oneOf decoder matches', () => {
+    const error = decodeError(() => UserDecoder.parse({ id: 'u1', createdAt: '2026-01-01', role: 'owner', tags: [] }));
+
+    expect(error.path).toBe('$.role');
+    expect(error.expected).toBe('"admin" | "member"');
+  });
+
+  test('optional and nullable accept only their own empty value', () => {
+    expect(Decoders.number.optional().parse(undefined)).toBeUndefined();
+    expect(Decoders.number.nullable().parse(null)).toBeNull();
+    expect(() => Decoders.number.optional().parse(null)).toThrow(DecodeError);
+    expect(() => Decoders.number.nullable().parse(undefined)).toThrow(DecodeError);
+    expect(() => Decoders.number.parse(NaN)).toThrow(DecodeError);
+  });
+
+  test('record and map decode dictionaries and transform values', () => {
+    const counts = Decoders.record(Decoders.number.map(count => count * 2));
+
+    expect(counts.parse({ likes: 1, shares: 2 })).toEqual({ likes: 2, shares: 4 });
+    expect(decodeError(() => counts.parse({ likes: '1' })).path).toBe('$.likes');
+    expect(decodeError(() => counts.parse([])).expected).toBe('object');
+  });
+});
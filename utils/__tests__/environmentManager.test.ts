@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { APIService } from '../apiService';
+import { EnvironmentManager, EnvironmentName, environmentProfiles } from '../environmentManager';
+import type { NotificationManager } from '../notificationManager';
+import type { UserManager } from '../userManager';
+
+let environment: EnvironmentManager;
+let api: APIService;
+let user: UserManager;
+let notifications: NotificationManager;
+
+// Fresh singletons per test, since initialize() only runs once per instance
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.isolateModules(() => {
+    environment = require('../environmentManager').EnvironmentManager.shared;
+    api = require('../apiService').APIService.shared;
+    user = require('../userManager').UserManager.shared;
+    notifications = require('../notificationManager').NotificationManager.shared;
+  });
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('EnvironmentManager', () => {
+  test('applies the development profile by default in development builds', async () => {
+    await environment.initialize();
+
+    expect(environment.current.name).toBe(EnvironmentName.DEVELOPMENT);
+    expect(api.getBaseURL()).toBe(environmentProfiles[EnvironmentName.DEVELOPMENT].apiBaseURL);
+  });
+
+  test('restores the persisted profile', async () => {
+    await AsyncStorage.setItem('environment_profile', EnvironmentName.STAGING);
+
+    await environment.initialize();
+
+    expect(environment.current.name).toBe(EnvironmentName.STAGING);
+    expect(api.getBaseURL()).toBe(environmentProfiles[EnvironmentName.STAGING].apiBaseURL);
+  });
+
+  test('ignores an unknown persisted profile', async () => {
+    await AsyncStorage.setItem('environment_profile', 'qa');
+
+    await environment.initialize();
+
+    expect(environment.current.name).toBe(EnvironmentName.DEVELOPMENT);
+  });
+
+  test('switches profiles, signs the user out and remembers the choice', async () => {
+    const setDelayScale = jest.spyOn(notifications, 'setCampaignDelayScale');
+    const changed = jest.fn();
+    environment.on('environmentChanged', changed);
+    await environment.initialize();
+    await user.signIn('u1');
+
+    await environment.switchTo(EnvironmentName.PRODUCTION);
+
+    expect(user.isSignedIn).toBe(false);
+    expect(api.getBaseURL()).toBe(environmentProfiles[EnvironmentName.PRODUCTION].apiBaseURL);
+    expect(changed).toHaveBeenCalledWith(expect.objectContaining({ name: EnvironmentName.PRODUCTION }));
+    expect(setDelayScale).toHaveBeenLastCalledWith(1);
+    await expect(AsyncStorage.getItem('environment_profile')).resolves.toBe(EnvironmentName.PRODUCTION);
+  });
+});
@@ -0,0 +1,139 @@
+import { APIErrorType, APIService, HTTPMethod } from '../apiService';
+import { GraphQLClient } from '../graphQLClient';
+import { sha256Hex } from '../hash';
+import { MockResponse, MockTransport } from '../mockTransport';
+
+const PostQuery = `query Post($id: ID!) { post(id: $id) { __typename id title likes author { __typename id name } } }`;
+const LikeMutation = `mutation Like($id: ID!) { likePost(id: $id) { __typename id likes } }`;
+
+const post = {
+  __typename: 'Post',
+  id: 'p1',
+  title: 'Hello',
+  likes: 1,
+  author: { __typename: 'User', id: 'u1', name: 'Ann' },
+};
+
+const graphql = GraphQLClient.shared;
+let mock: MockTransport;
+
+beforeEach(() => {
+  mock = new MockTransport();
+  graphql.configure({
+    client: APIService.create('graphql', { baseURL: 'https://api.test', transport: mock, retryPolicy: { baseDelay: 1 } }),
+    persistedQueries: false,
+  });
+});
+
+afterEach(() => {
+  graphql.clearCache();
+  graphql.removeAllListeners();
+  APIService.removeClient('graphql');
+});
+
+describe('GraphQLClient', () => {
+  test('sends the operation name and variables', async () => {
+    mock.route(HTTPMethod.POST, '/graphql', { body: { data: { post } } });
+
+    await expect(graphql.query(PostQuery, { id: 'p1' })).resolves.toEqual({ post });
+    expect(mock.recordedRequests).toHaveLength(1);
+    expect(JSON.parse(mock.recordedRequests[0].body as string)).toEqual({
+      query: PostQuery,
+      operationName: 'Post',
+      variables: { id: 'p1' },
+    });
+  });
+
+  test('turns errors in a 200 response into an APIError with the matching type', async () => {
+    const errors = [{ message: 'Title is required', path: ['createPost'], extensions: { code: 'BAD_USER_INPUT' } }];
+    mock.route(HTTPMethod.POST, '/graphql', { body: { data: null, errors } });
+
+    await expect(graphql.mutate('mutation { createPost { id } }')).rejects.toMatchObject({
+      type: APIErrorType.VALIDATION_FAILED,
+      message: 'GraphQL error: Title is required',
+      graphQLErrors: errors,
+    });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('retries queries on transient errors but not mutations', async () => {
+    mock.route(HTTPMethod.POST, '/graphql', { body: { data: { post } } });
+    mock.failNextRequest({ status: 503 });
+    await graphql.query(PostQuery, { id: 'p1' });
+    expect(mock.recordedRequests).toHaveLength(2);
+
+    mock.clearRecordedRequests();
+    mock.failNextRequest({ status: 503 });
+    await expect(graphql.mutate(LikeMutation, { id: 'p1' })).rejects.toMatchObject({ type: APIErrorType.SERVER_ERROR });
+    expect(mock.recordedRequests).toHaveLength(1);
+  });
+
+  test('sends persisted query hashes and registers the full query on a miss', async () => {
+    graphql.configure({ persistedQueries: true });
+    const known = new Set<string>();
+    mock.route(HTTPMethod.POST, '/graphql', ({ body }): MockResponse => {
+      const { query, extensions } = body as { query?: string; extensions: { persistedQuery: { sha256Hash: string } } };
+      const hash = extensions.persistedQuery.sha256Hash;
+      if (query) known.add(hash);
+      return known.has(hash)
+        ? { body: { data: { post } } }
+        : { body: { errors: [{ message: 'PersistedQueryNotFound' }] } };
+    });
+
+    await graphql.query(PostQuery, { id: 'p1' });
+    await graphql.query(PostQuery, { id: 'p1' });
+
+    const bodies = mock.recordedRequests.map(request => JSON.parse(request.body as string));
+    expect(bodies.map(body => body.query !== undefined)).toEqual([false, true, false]);
+    expect(bodies[0].extensions.persistedQuery).toEqual({ version: 1, sha256Hash: sha256Hex(PostQuery) });
+  });
+
+  test('serves cache-first queries from the normalized cache and merges mutation results', async () => {
+    mock.route(HTTPMethod.POST, '/graphql', ({ body }) =>
+      (body as { operationName: string }).operationName === 'Like'
+        ? { body: { data: { likePost: { __typename: 'Post', id: 'p1', likes: 2 } } } }
+        : { body: { data: { post } } }
+    );
+    const cacheUpdated = jest.fn();
+    graphql.on('cacheUpdated', cacheUpdated);
+
+    await graphql.query(PostQuery, { id: 'p1' }, { cachePolicy: 'cache-first' });
+    await graphql.mutate(LikeMutation, { id: 'p1' });
+    const cached = await graphql.query(PostQuery, { id: 'p1' }, { cachePolicy: 'cache-first' });
+
+    expect(cached).toEqual({ post: { ...post, likes: 2 } });
+    expect(mock.recordedRequests).toHaveLength(2);
+    expect(cacheUpdated).toHaveBeenLastCalledWith(['Post:p1']);
+    expect(graphql.readEntity('User', 'u1')).toEqual({ __typename: 'User', id: 'u1', name: 'Ann' });
+  });
+
+  test('keeps fields selected with arguments on the query result instead of the shared entity', async () => {
+    const postsQuery = (first: number) => `query Posts { viewer { __typename id posts(first: ${first}) { __typename id } } }`;
+    const viewer = (count: number) => ({
+      __typename: 'User',
+      id: 'u1',
+      posts: [{ __typename: 'Post', id: 'p1' }, { __typename: 'Post', id: 'p2' }].slice(0, count),
+    });
+    mock.route(HTTPMethod.POST, '/graphql', ({ body }) => ({
+      body: { data: { viewer: viewer((body as { query: string }).query.includes('first: 2') ? 2 : 1) } },
+    }));
+
+    await graphql.query(postsQuery(2));
+    await graphql.query(postsQuery(1));
+
+    await expect(graphql.query(postsQuery(2), undefined, { cachePolicy: 'cache-only' })).resolves.toEqual({ viewer: viewer(2) });
+    await expect(graphql.query(postsQuery(1), undefined, { cachePolicy: 'cache-only' })).resolves.toEqual({ viewer: viewer(1) });
+  });
+
+  test('stops serving queries whose entities were evicted', async () => {
+    mock.route(HTTPMethod.POST, '/graphql', { body: { data: { post } } });
+    await graphql.query(PostQuery, { id: 'p1' });
+
+    graphql.evictEntity('User', 'u1');
+
+    expect(graphql.readEntity('Post', 'p1')).toBeUndefined();
+    await expect(graphql.query(PostQuery, { id: 'p1' }, { cachePolicy: 'cache-only' })).rejects.toMatchObject({
+      type: APIErrorType.NO_DATA,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { APIErrorType, APIService, HTTPMethod } from '../apiService';
+import { HarLog, HarRecorder } from '../har';
+import { MockTransport } from '../mockTransport';
+
+const clientConfig = { retryPolicy: { maxAttempts: 1 }, idempotencyKeys: false };
+
+afterEach(() => {
+  APIService.clientNames.forEach(name => APIService.removeClient(name));
+});
+
+async function recordSession(recorder: HarRecorder): Promise<HarLog> {
+  const mock = new MockTransport();
+  const api = APIService.create('recording', {
+    ...clientConfig,
+    baseURL: 'https://staging.test',
+    transport: mock,
+    harRecorder: recorder,
+  });
+  let count = 0;
+  mock.route(HTTPMethod.GET, '/counter', () => ({ body: { count: ++count } }));
+  mock.route(HTTPMethod.POST, '/login', { body: { token: 'session-token' } });
+  mock.route(HTTPMethod.POST, '/search', ({ body }) => ({ body: { results: [(body as { q: string }).q] } }));
+  mock.route(HTTPMethod.GET, '/avatar', { body: 'PNG', headers: { 'Content-Type': 'image/png' } });
+
+  await api.get('/counter?page=1');
+  await api.get('/counter?page=1');
+  await api.post('/login', { email: 'a@b.c', password: 'hunter2' });
+  await api.post('/search', { q: 'cats' });
+  await api.post('/search', { q: 'dogs' });
+  await api.download('/avatar');
+  mock.failNextRequest();
+  await api.get('/offline').catch(() => undefined);
+
+  return recorder.toHAR();
+}
+
+function replayClient(har: HarLog): { api: APIService; mock: MockTransport } {
+  const mock = new MockTransport();
+  mock.replayHAR(JSON.stringify(har));
+  return { api: APIService.create('replay', { ...clientConfig, baseURL: 'https://localhost.test', transport: mock }), mock };
+}
+
+describe('HarRecorder', () => {
+  test('records requests, responses and failures as HAR 1.2 with redaction', async () => {
+    const har = await recordSession(new HarRecorder());
+
+    const { entries } = har.log;
+    expect(har.log.version).toBe('1.2');
+    expect(entries).toHaveLength(7);
+    expect(entries[0].request).toMatchObject({
+      method: 'GET',
+      url: 'https://staging.test/counter?page=1',
+      queryString: [{ name: 'page', value: '1' }],
+    });
+    expect(entries[2].request.postData).toEqual({
+      mimeType: 'application/json',
+      text: '{"email":"a@b.c","password":"[REDACTED]"}',
+    });
+    expect(entries[2].response.content.text).toBe('{"token":"[REDACTED]"}');
+    expect(entries[5].response.content).toMatchObject({ encoding: 'base64', text: 'UE5H', size: 3 });
+    expect(entries[6].response).toMatchObject({ status: 0, _error: 'Network request failed' });
+  });
+
+  test('keeps values when redaction is off', async () => {
+    const har = await recordSession(new HarRecorder({ redact: false }));
+
+    expect(har.log.entries[2].response.content.text).toBe('{"token":"session-token"}');
+  });
+});
+
+describe('HAR replay', () => {
+  test('replays identical requests in order under any base URL, then repeats the last response', async () => {
+    const { api } = replayClient(await recordSession(new HarRecorder()));
+
+    await expect(api.get('/counter?page=1')).resolves.toEqual({ count: 1 });
+    await expect(api.get('/counter?page=1')).resolves.toEqual({ count: 2 });
+    await expect(api.get('/counter?page=1')).resolves.toEqual({ count: 2 });
+  });
+
+  test('matches on method, query and body, treating redacted values as wildcards', async () => {
+    const { api, mock } = replayClient(await recordSession(new HarRecorder()));
+    mock.route('*', /.*/, { status: 418 });
+
+    await expect(api.post('/search', { q: 'dogs' })).resolves.toEqual({ results: ['dogs'] });
+    await expect(api.post('/login', { email: 'a@b.c', password: 'different' })).resolves.toEqual({ token: '[REDACTED]' });
+    await expect(api.post('/search', { q: 'birds' })).rejects.toMatchObject({ statusCode: 418 });
+    await expect(api.get('/counter?page=2')).rejects.toMatchObject({ statusCode: 418 });
+    await expect(api.put('/search', { q: 'dogs' })).rejects.toMatchObject({ statusCode: 418 });
+  });
+
+  test('replays binary bodies and recorded failures', async () => {
+    const { api } = replayClient(await recordSession(new HarRecorder()));
+
+    const avatar = await api.download('/avatar');
+    await expect(avatar.text()).resolves.toBe('PNG');
+    await expect(api.get('/offline')).rejects.toMatchObject({ type: APIErrorType.NETWORK_ERROR });
+  });
+});
@@ -0,0 +1,31 @@
+import { defaultLogRedaction, redactBody, redactHeaders, redactURL, truncate } from '../logRedaction';
+
+describe('log redaction', () => {
+  test('masks sensitive headers case-insensitively', () => {
+    expect(redactHeaders({ authorization: 'Bearer abc', 'X-Api-Key': 'key', Accept: 'application/json' }, defaultLogRedaction))
+      .toEqual({ authorization: '[REDACTED]', 'X-Api-Key': '[REDACTED]', Accept: 'application/json' });
+  });
+
+  test('masks sensitive JSON fields at any depth', () => {
+    const body = JSON.stringify({ email: 'a@b.c', Password: 'hunter2', session: { tokens: [{ refresh_token: 'r' }] } });
+
+    expect(JSON.parse(redactBody(body, defaultLogRedaction))).toEqual({
+      email: 'a@b.c',
+      Password: '[REDACTED]',
+      session: { tokens: [{ refresh_token: '[REDACTED]' }] },
+    });
+  });
+
+  test('leaves bodies that are not JSON intact and truncates long ones', () => {
+    expect(redactBody('{ not json', defaultLogRedaction)).toBe('{ not json');
+    expect(redactBody('password=hunter2', defaultLogRedaction)).toBe('password=hunter2');
+    expect(redactBody('x'.repeat(12), { ...defaultLogRedaction, maxBodyLength: 10 })).toBe('xxxxxxxxxx… [2 more characters]');
+    expect(truncate('short', 0)).toBe('short');
+  });
+
+  test('masks sensitive query parameters, including array parameters', () => {
+    expect(redactURL('https://api.test/reset?token=abc&page=2&api_key[]=k', defaultLogRedaction))
+      .toBe('https://api.test/reset?token=[REDACTED]&page=2&api_key[]=[REDACTED]');
+    expect(redactURL('https://api.test/feed', defaultLogRedaction)).toBe('https://api.test/feed');
+  });
+});
@@ -0,0 +1,86 @@
+import { APIErrorType, APIService, HTTPMethod } from '../apiService';
+import { MockResponse, MockTransport } from '../mockTransport';
+
+let mock: MockTransport;
+let api: APIService;
+
+beforeEach(() => {
+  mock = new MockTransport();
+  api = APIService.create('mock', { baseURL: 'https://api.test/v1', transport: mock, retryPolicy: { maxAttempts: 1 } });
+});
+
+afterEach(() => {
+  APIService.removeClient('mock');
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('MockTransport', () => {
+  test('matches path templates under the base URL path and passes params, query and body to handlers', async () => {
+    mock.route(HTTPMethod.POST, '/users/:id/posts', ({ params, query, body }): MockResponse => ({
+      status: 201,
+      body: { userId: params.id, draft: query.draft, body },
+    }));
+
+    await expect(api.post('/users/a%20b/posts?draft=1', { title: 'Hi' })).resolves.toEqual({
+      userId: 'a b',
+      draft: '1',
+      body: { title: 'Hi' },
+    });
+  });
+
+  test('prefers later routes and removes routes after their last use', async () => {
+    mock.route('*', /\/feed$/, { body: 'fallback' });
+    mock.route(HTTPMethod.GET, '/feed', { body: 'once' }, { times: 1 });
+
+    await expect(api.get('/feed', undefined, { responseType: 'text' })).resolves.toBe('once');
+    await expect(api.get('/feed', undefined, { responseType: 'text' })).resolves.toBe('fallback');
+  });
+
+  test('answers unmatched requests with a 404', async () => {
+    await expect(api.get('/missing')).rejects.toMatchObject({
+      type: APIErrorType.NOT_FOUND,
+      responseBody: { error: 'No mock route for GET /v1/missing' },
+    });
+  });
+
+  test('injects failures', async () => {
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+    mock.failNextRequest({ status: 503 });
+    mock.failNextRequest();
+
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.SERVER_ERROR, statusCode: 503 });
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.NETWORK_ERROR });
+    await expect(api.get('/feed')).resolves.toEqual([]);
+
+    mock.setFailureRate(1);
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.NETWORK_ERROR });
+  });
+
+  test('records requests until cleared or reset', async () => {
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+
+    await api.get('/feed', { 'X-Trace': '1' });
+    expect(mock.recordedRequests).toMatchObject([{ method: HTTPMethod.GET, url: 'https://api.test/v1/feed', headers: { 'X-Trace': '1' } }]);
+
+    mock.clearRecordedRequests();
+    expect(mock.recordedRequests).toHaveLength(0);
+
+    mock.reset();
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.NOT_FOUND });
+  });
+
+  test('waits for the configured latency and can be cancelled while waiting', async () => {
+    jest.useFakeTimers();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] }, { delay: 100 });
+    const controller = new AbortController();
+
+    const slow = api.get('/feed');
+    const cancelled = api.get('/feed', undefined, { signal: controller.signal, dedupe: false });
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ type: APIErrorType.CANCELLED });
+
+    await jest.advanceTimersByTimeAsync(100);
+    await expect(slow).resolves.toEqual([]);
+  });
+});
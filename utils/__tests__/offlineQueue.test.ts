@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { APIErrorType, APIService, HTTPMethod } from '../apiService';
+import { CircuitBreaker } from '../circuitBreaker';
+import { MockTransport } from '../mockTransport';
+import { OfflineQueue, QueuedRequest } from '../offlineQueue';
+
+const queue = OfflineQueue.shared;
+const api = APIService.shared;
+let mock: MockTransport;
+
+beforeEach(async () => {
+  mock = new MockTransport();
+  api.configure('https://api.test');
+  api.setTransport(mock);
+  api.setRetryPolicy({ maxAttempts: 1 });
+  api.setCircuitBreaker(undefined);
+  await queue.clear();
+  queue.removeAllListeners();
+});
+
+// Let replays started in the background (e.g. by send) finish
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+async function queueOffline(endpoint: string, body: unknown): Promise<QueuedRequest> {
+  mock.setFailureRate(1);
+  const result = await queue.send(HTTPMethod.POST, endpoint, body);
+  await settle();
+  mock.setFailureRate(0);
+  if (result.status !== 'queued') {
+    throw new Error(`Expected ${endpoint} to be queued`);
+  }
+  return result.request;
+}
+
+describe('OfflineQueue', () => {
+  test('queues a mutation that fails with a network error and persists it', async () => {
+    const request = await queueOffline('/likes', { postId: 1 });
+
+    expect(queue.pendingCount).toBe(1);
+    const stored = JSON.parse((await AsyncStorage.getItem('offline_request_queue'))!);
+    expect(stored).toEqual([expect.objectContaining({ id: request.id, endpoint: '/likes', body: { postId: 1 } })]);
+  });
+
+  test('sends directly when online', async () => {
+    mock.route(HTTPMethod.POST, '/likes', { status: 201, body: { id: 'like_1' } });
+
+    await expect(queue.send(HTTPMethod.POST, '/likes', { postId: 1 })).resolves.toEqual({
+      status: 'sent',
+      data: { id: 'like_1' },
+    });
+    expect(queue.pendingCount).toBe(0);
+  });
+
+  test('queues a mutation that fails with a server error', async () => {
+    mock.route(HTTPMethod.POST, '/likes', { status: 503 });
+
+    const result = await queue.send(HTTPMethod.POST, '/likes', { postId: 1 });
+
+    expect(result.status).toBe('queued');
+    expect(queue.pendingCount).toBe(1);
+  });
+
+  test('throws client errors to the caller without queueing', async () => {
+    mock.route(HTTPMethod.POST, '/likes', { status: 400, body: { message: 'Post was deleted' } });
+
+    await expect(queue.send(HTTPMethod.POST, '/likes', { postId: 1 })).rejects.toMatchObject({
+      type: APIErrorType.BAD_REQUEST,
+    });
+    expect(queue.pendingCount).toBe(0);
+  });
+
+  test('flush replays requests in order with their idempotency keys', async () => {
+    const first = await queueOffline('/likes', { postId: 1 });
+    const second = await queueOffline('/likes', { postId: 2 });
+    mock.clearRecordedRequests();
+    mock.route(HTTPMethod.POST, '/likes', ({ body }) => ({ status: 201, body }));
+    const sent = jest.fn();
+    queue.on('requestSent', sent);
+
+    await queue.flush();
+
+    expect(queue.pendingCount).toBe(0);
+    expect(mock.recordedRequests.map(request => request.headers['Idempotency-Key'])).toEqual([
+      first.idempotencyKey,
+      second.idempotencyKey,
+    ]);
+    expect(sent.mock.calls.map(([request, data]) => [request.id, data])).toEqual([
+      [first.id, { postId: 1 }],
+      [second.id, { postId: 2 }],
+    ]);
+  });
+
+  test('new requests wait behind pending ones', async () => {
+    await queueOffline('/likes', { postId: 1 });
+    mock.clearRecordedRequests();
+    mock.setFailureRate(1);
+
+    const result = await queue.send(HTTPMethod.POST, '/likes', { postId: 2 });
+    await settle();
+
+    expect(result.status).toBe('queued');
+    // Only the replay of the first request went out
+    expect(mock.recordedRequests.map(request => request.body)).toEqual([JSON.stringify({ postId: 1 })]);
+    expect(queue.pendingRequests.map(request => request.body)).toEqual([{ postId: 1 }, { postId: 2 }]);
+  });
+
+  test('flush stops at a transient failure and keeps the request', async () => {
+    await queueOffline('/likes', { postId: 1 });
+    await queueOffline('/likes', { postId: 2 });
+    mock.clearRecordedRequests();
+    mock.route(HTTPMethod.POST, '/likes', { status: 503 });
+
+    const attempts = queue.pendingRequests[0].attempts;
+
+    await queue.flush();
+
+    expect(mock.recordedRequests).toHaveLength(1);
+    expect(queue.pendingRequests.map(request => request.body)).toEqual([{ postId: 1 }, { postId: 2 }]);
+    expect(queue.pendingRequests[0].attempts).toBe(attempts + 1);
+  });
+
+  test('flush drops a request that fails permanently', async () => {
+    const request = await queueOffline('/likes', { postId: 1 });
+    mock.route(HTTPMethod.POST, '/likes', { status: 400, body: { message: 'Post was deleted' } });
+    const failed = jest.fn();
+    queue.on('requestFailed', failed);
+
+    await queue.flush();
+
+    expect(queue.pendingCount).toBe(0);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ id: request.id }), expect.anything());
+  });
+
+  test('keeps requests while the circuit is open and replays them after the cooldown', async () => {
+    const request = await queueOffline('/likes', { postId: 1 });
+    api.setCircuitBreaker(new CircuitBreaker({ failureThreshold: 1, cooldown: 60000 }));
+    mock.failNextRequest({ status: 503 });
+    await expect(api.get('/health')).rejects.toBeDefined();
+    mock.clearRecordedRequests();
+    const failed = jest.fn();
+    queue.on('requestFailed', failed);
+    const attempts = request.attempts;
+
+    // Fails fast without reaching the server
+    await queue.flush();
+    expect(mock.recordedRequests).toHaveLength(0);
+    expect(failed).not.toHaveBeenCalled();
+    expect(queue.pendingRequests).toEqual([expect.objectContaining({ id: request.id, attempts })]);
+
+    // Not retried before the circuit's retryAfter
+    await queue.flush();
+    expect(mock.recordedRequests).toHaveLength(0);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+    mock.route(HTTPMethod.POST, '/likes', { status: 201, body: {} });
+    await queue.flush();
+    jest.restoreAllMocks();
+
+    expect(mock.recordedRequests).toHaveLength(1);
+    expect(queue.pendingCount).toBe(0);
+  });
+
+  test('queues a mutation while the circuit is open instead of throwing', async () => {
+    api.setCircuitBreaker(new CircuitBreaker({ failureThreshold: 1, cooldown: 60000 }));
+    mock.failNextRequest({ status: 503 });
+    await expect(api.get('/health')).rejects.toBeDefined();
+    mock.clearRecordedRequests();
+
+    const result = await queue.send(HTTPMethod.POST, '/likes', { postId: 1 });
+
+    expect(result.status).toBe('queued');
+    expect(mock.recordedRequests).toHaveLength(0);
+    expect(queue.pendingRequests).toEqual([expect.objectContaining({ body: { postId: 1 }, attempts: 0 })]);
+  });
+});
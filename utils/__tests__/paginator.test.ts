@@ -0,0 +1,94 @@
+import { APIErrorType, APIService, HTTPMethod } from '../apiService';
+import { MockTransport } from '../mockTransport';
+import { Paginator } from '../paginator';
+
+interface Post {
+  id: string;
+}
+
+let mock: MockTransport;
+let client: APIService;
+let version: number;
+
+// Two pages per version: /posts returns `v<version>-1`, /posts?cursor=c2 returns `v<version>-2`
+function createPaginator(): Paginator<Post> {
+  mock = new MockTransport();
+  client = APIService.create('paginator', { baseURL: 'https://api.test', transport: mock });
+  version = 1;
+  mock.route(HTTPMethod.GET, '/posts', ({ query }) => query.cursor === 'c2'
+    ? { body: { items: [{ id: `v${version}-2` }], nextCursor: null } }
+    : { body: { items: [{ id: `v${version}-1` }], nextCursor: 'c2' } },
+  { delay: 20 });
+  return new Paginator<Post>({ client, endpoint: '/posts', strategy: { type: 'cursor' } });
+}
+
+afterEach(() => {
+  APIService.removeClient('paginator');
+});
+
+describe('Paginator', () => {
+  test('concurrent loadNext calls share one request', async () => {
+    const paginator = createPaginator();
+
+    const first = paginator.loadNext();
+    expect(paginator.loadNext()).toBe(first);
+    await first;
+
+    expect(mock.recordedRequests).toHaveLength(1);
+    expect(paginator.items).toEqual([{ id: 'v1-1' }]);
+  });
+
+  test('loads pages in order until the last one', async () => {
+    const paginator = createPaginator();
+
+    await paginator.loadNext();
+    await paginator.loadNext();
+    await expect(paginator.loadNext()).resolves.toEqual([]);
+
+    expect(paginator.items).toEqual([{ id: 'v1-1' }, { id: 'v1-2' }]);
+    expect(paginator.hasMore).toBe(false);
+    expect(mock.recordedRequests).toHaveLength(2);
+  });
+
+  test('refresh cancels a pending loadNext and never appends its page', async () => {
+    const paginator = createPaginator();
+    await paginator.loadNext();
+
+    const stale = paginator.loadNext();
+    version = 2;
+    const refreshing = paginator.refresh();
+
+    await expect(stale).rejects.toMatchObject({ type: APIErrorType.CANCELLED });
+    // The cancelled load settled first; it must not have cleared the refresh's pending load
+    expect(paginator.loadNext()).toBe(refreshing);
+    await expect(refreshing).resolves.toEqual([{ id: 'v2-1' }]);
+
+    expect(paginator.items).toEqual([{ id: 'v2-1' }]);
+    expect(paginator.state).toMatchObject({ isLoading: false, isRefreshing: false, hasMore: true });
+  });
+
+  test('continues from the refreshed position', async () => {
+    const paginator = createPaginator();
+    await paginator.loadNext();
+    const stale = paginator.loadNext().catch(() => []);
+    version = 2;
+    await paginator.refresh();
+    await stale;
+
+    await expect(paginator.loadNext()).resolves.toEqual([{ id: 'v2-2' }]);
+    expect(paginator.items).toEqual([{ id: 'v2-1' }, { id: 'v2-2' }]);
+  });
+
+  test('a second refresh supersedes the first', async () => {
+    const paginator = createPaginator();
+
+    const first = paginator.refresh().catch(() => []);
+    version = 2;
+    const second = paginator.refresh();
+    await first;
+
+    expect(paginator.loadNext()).toBe(second);
+    await expect(second).resolves.toEqual([{ id: 'v2-1' }]);
+    expect(paginator.items).toEqual([{ id: 'v2-1' }]);
+  });
+});
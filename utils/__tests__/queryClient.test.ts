@@ -0,0 +1,109 @@
+import { hashQueryKey, QueryClient, QueryFetcherContext } from '../queryClient';
+
+const client = QueryClient.shared;
+
+function deferredFetcher<T>() {
+  const calls: { resolve: (value: T) => void; reject: (error: Error) => void; context: QueryFetcherContext }[] = [];
+  const fetcher = jest.fn((context: QueryFetcherContext) =>
+    new Promise<T>((resolve, reject) => calls.push({ resolve, reject, context }))
+  );
+  return { fetcher, calls };
+}
+
+afterEach(() => {
+  client.clear();
+  client.setCacheTime(5 * 60 * 1000);
+  jest.useRealTimers();
+});
+
+describe('QueryClient', () => {
+  test('hashes keys by value regardless of property order', () => {
+    expect(hashQueryKey(['posts', { page: 1, tag: 'a' }])).toBe(hashQueryKey(['posts', { tag: 'a', page: 1 }]));
+    expect(hashQueryKey(['posts', 1])).not.toBe(hashQueryKey(['posts', '1']));
+  });
+
+  test('shares one request per key and serves fresh data without refetching', async () => {
+    const fetcher = jest.fn().mockResolvedValue(['p1']);
+
+    const [first, second] = await Promise.all([
+      client.fetchQuery(['posts'], fetcher),
+      client.fetchQuery(['posts'], fetcher),
+    ]);
+    const cached = await client.fetchQuery(['posts'], fetcher, { staleTime: 60000 });
+
+    expect([first, second, cached]).toEqual([['p1'], ['p1'], ['p1']]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(client.getQueryState(['posts'])).toMatchObject({ status: 'success', isFetching: false });
+
+    await client.fetchQuery(['posts'], fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  test('invalidates by prefix and refetches only queries with subscribers', async () => {
+    let calls = 0;
+    const fetcher = jest.fn(async ({ key }: QueryFetcherContext) => `${String(key[1])}-${++calls}`);
+    await client.fetchQuery(['posts', 1], fetcher);
+    await client.fetchQuery(['posts', 2], fetcher);
+    await client.fetchQuery(['users', 1], fetcher);
+    const unsubscribe = client.subscribe(['posts', 1], () => {});
+
+    await client.invalidateQueries(['posts']);
+
+    expect(fetcher).toHaveBeenCalledTimes(4);
+    expect(client.getQueryState(['posts', 1])).toMatchObject({ data: '1-4', isInvalidated: false });
+    expect(client.getQueryState(['posts', 2])).toMatchObject({ data: '2-2', isInvalidated: true });
+    expect(client.isStale(['users', 1], 60000)).toBe(false);
+    unsubscribe();
+  });
+
+  test('replaces a request that started before an invalidation', async () => {
+    const { fetcher, calls } = deferredFetcher<string>();
+    const unsubscribe = client.subscribe(['feed'], () => {});
+    const outdated = client.fetchQuery(['feed'], fetcher).catch(() => 'aborted');
+
+    const invalidation = client.invalidateQueries(['feed']);
+    expect(calls[0].context.signal.aborted).toBe(true);
+    calls[0].resolve('old');
+    calls[1].resolve('new');
+    await invalidation;
+
+    await expect(outdated).resolves.toBe('old');
+    expect(client.getQueryData(['feed'])).toBe('new');
+    unsubscribe();
+  });
+
+  test('cancels in-flight requests and keeps the existing data', async () => {
+    const { fetcher, calls } = deferredFetcher<string>();
+    client.setQueryData(['feed'], 'cached');
+
+    const refetch = client.fetchQuery(['feed'], fetcher, { force: true });
+    client.cancelQueries(['feed']);
+    calls[0].reject(new Error('Aborted'));
+
+    await expect(refetch).rejects.toThrow('Aborted');
+    expect(calls[0].context.signal.aborted).toBe(true);
+    expect(client.getQueryState(['feed'])).toMatchObject({ data: 'cached', status: 'success', isFetching: false });
+  });
+
+  test('keeps errors next to the previous data', async () => {
+    client.setQueryData(['feed'], 'cached');
+
+    await expect(client.fetchQuery(['feed'], () => Promise.reject(new Error('Offline')), { force: true })).rejects.toThrow();
+
+    expect(client.getQueryState(['feed'])).toMatchObject({ data: 'cached', status: 'error', error: new Error('Offline') });
+  });
+
+  test('drops unused queries after the cache time', () => {
+    jest.useFakeTimers();
+    client.setCacheTime(1000);
+    client.setQueryData(['feed'], 'cached');
+    const unsubscribe = client.subscribe(['feed'], () => {});
+
+    jest.advanceTimersByTime(5000);
+    expect(client.getQueryData(['feed'])).toBe('cached');
+
+    unsubscribe();
+    jest.advanceTimersByTime(1000);
+    expect(client.getQueryData(['feed'])).toBeUndefined();
+  });
+});
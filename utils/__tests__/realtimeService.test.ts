@@ -0,0 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { RealtimeConnectionState, RealtimeErrorType, RealtimeService } from '../realtimeService';
+import { UserManager } from '../userManager';
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  sent: any[] = [];
+  closed = false;
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onerror?: (event: { message?: string }) => void;
+  onclose?: (event: { code: number; reason: string }) => void;
+
+  constructor(
+    public url: string,
+    public protocols: string | string[] | null,
+    public options: { headers: Record<string, string> }
+  ) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  // Test helpers
+  open(): void {
+    this.onopen?.();
+  }
+
+  receive(message: object): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(code = 1006, reason = ''): void {
+    this.onclose?.({ code, reason });
+  }
+}
+
+const realtime = RealtimeService.shared;
+const user = UserManager.shared;
+const originalWebSocket = global.WebSocket;
+
+function lastSocket(): FakeWebSocket {
+  return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  FakeWebSocket.instances = [];
+  await AsyncStorage.clear();
+  await user.signIn('u1');
+  await user.setSessionTokens({ accessToken: 'access', refreshToken: 'refresh' });
+  realtime.configure({ url: 'wss://realtime.test/socket', reconnectBaseDelay: 1000 });
+});
+
+afterEach(() => {
+  realtime.disconnect();
+  realtime.removeAllListeners();
+  global.WebSocket = originalWebSocket;
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('RealtimeService', () => {
+  test('rejects URLs that are not wss://', () => {
+    expect(() => realtime.configure({ url: 'ws://realtime.test' })).toThrow(
+      expect.objectContaining({ type: RealtimeErrorType.INVALID_URL })
+    );
+  });
+
+  test('authenticates with the bearer token in a header or the query', () => {
+    realtime.connect();
+    expect(lastSocket().options.headers).toEqual({ Authorization: 'Bearer access' });
+
+    realtime.configure({ url: 'wss://realtime.test/socket?v=2', authMethod: 'query' });
+    expect(lastSocket().url).toBe('wss://realtime.test/socket?v=2&access_token=access');
+    expect(lastSocket().options.headers).toEqual({});
+  });
+
+  test('delivers channel messages and restores subscriptions and queued messages on reconnect', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const listener = jest.fn();
+    const unsubscribe = realtime.subscribe('chat:1', listener);
+    realtime.connect();
+    lastSocket().open();
+    lastSocket().receive({ type: 'message', channel: 'chat:1', data: { text: 'hi' } });
+    expect(listener).toHaveBeenCalledWith({ text: 'hi' }, { type: 'message', channel: 'chat:1', data: { text: 'hi' } });
+
+    lastSocket().drop();
+    realtime.send({ type: 'typing', channel: 'chat:1' });
+    expect(realtime.connectionState).toBe(RealtimeConnectionState.RECONNECTING);
+    expect(realtime.queuedMessageCount).toBe(1);
+
+    jest.advanceTimersByTime(1000);
+    lastSocket().open();
+    expect(lastSocket().sent).toEqual([
+      { type: 'subscribe', channel: 'chat:1' },
+      { type: 'typing', channel: 'chat:1' },
+    ]);
+
+    unsubscribe();
+    expect(lastSocket().sent[2]).toEqual({ type: 'unsubscribe', channel: 'chat:1' });
+  });
+
+  test('backs off exponentially while connections keep failing', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    realtime.connect();
+
+    lastSocket().drop();
+    jest.advanceTimersByTime(999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    lastSocket().drop();
+    jest.advanceTimersByTime(1999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+  });
+
+  test('reconnects when a heartbeat gets no answer', () => {
+    realtime.configure({ url: 'wss://realtime.test/socket', heartbeatInterval: 100, heartbeatTimeout: 50 });
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    realtime.connect();
+    const socket = lastSocket();
+    socket.open();
+
+    jest.advanceTimersByTime(100);
+    expect(socket.sent).toEqual([{ type: 'ping' }]);
+    jest.advanceTimersByTime(50);
+    expect(socket.closed).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  test('waits for new session tokens after an unauthorized close', () => {
+    const errors = jest.fn();
+    realtime.on('error', errors);
+    realtime.connect();
+    lastSocket().open();
+
+    lastSocket().drop(4401, 'Token expired');
+    jest.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ type: RealtimeErrorType.UNAUTHORIZED }));
+  });
+
+  test('pauses on sign out, dropping queued messages, and resumes on sign in', async () => {
+    realtime.connect();
+    realtime.send({ type: 'typing' });
+    expect(realtime.queuedMessageCount).toBe(1);
+
+    await user.signOut();
+    expect(realtime.connectionState).toBe(RealtimeConnectionState.PAUSED);
+    expect(lastSocket().closed).toBe(true);
+    expect(realtime.queuedMessageCount).toBe(0);
+
+    await user.signIn('u2');
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(realtime.connectionState).toBe(RealtimeConnectionState.CONNECTING);
+  });
+});
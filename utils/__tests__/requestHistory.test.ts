@@ -0,0 +1,93 @@
+import { APIErrorType, APIService, APIServiceConfig, HTTPMethod } from '../apiService';
+import { MockTransport } from '../mockTransport';
+import { RequestHistory, RequestHistoryEntry, toCurlCommand } from '../requestHistory';
+
+let mock: MockTransport;
+let history: RequestHistory;
+
+function createClient(config: APIServiceConfig = {}): APIService {
+  mock = new MockTransport();
+  history = new RequestHistory({ capacity: 2 });
+  return APIService.create('history', {
+    baseURL: 'https://api.test',
+    transport: mock,
+    requestHistory: history,
+    idempotencyKeys: false,
+    ...config,
+  });
+}
+
+afterEach(() => {
+  APIService.removeClient('history');
+});
+
+describe('RequestHistory', () => {
+  test('records completed requests with redacted headers and bodies', async () => {
+    const api = createClient({ bearerToken: 'secret-token' });
+    mock.route(HTTPMethod.POST, '/login', { body: { token: 'session', user: 'u1' } });
+
+    const credentials = { email: 'a@b.c', password: 'hunter2' };
+    await api.post('/login', credentials);
+
+    expect(history.entries[0]).toMatchObject({
+      method: HTTPMethod.POST,
+      url: 'https://api.test/login',
+      state: 'completed',
+      status: 200,
+      requestBody: '{"email":"a@b.c","password":"[REDACTED]"}',
+      requestSize: JSON.stringify(credentials).length,
+      responseBody: '{"token":"[REDACTED]","user":"u1"}',
+      responseSize: '{"token":"session","user":"u1"}'.length,
+    });
+    expect(history.entries[0].requestHeaders['Authorization']).toBe('[REDACTED]');
+  });
+
+  test('records each attempt and network failures', async () => {
+    const api = createClient({ retryPolicy: { maxAttempts: 2, baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+    mock.failNextRequest();
+    mock.failNextRequest();
+
+    await expect(api.get('/feed')).rejects.toMatchObject({ type: APIErrorType.NETWORK_ERROR });
+
+    expect(history.entries.map(entry => [entry.state, entry.error])).toEqual([
+      ['failed', 'Network request failed'],
+      ['failed', 'Network request failed'],
+    ]);
+  });
+
+  test('keeps only the newest entries and notifies listeners', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/items/:id', { body: {} });
+    const changed = jest.fn();
+    history.on('changed', changed);
+
+    await api.get('/items/1');
+    await api.get('/items/2');
+    await api.get('/items/3');
+
+    expect(history.entries.map(entry => entry.url)).toEqual(['https://api.test/items/3', 'https://api.test/items/2']);
+    expect(changed).toHaveBeenLastCalledWith(history.entries);
+    history.clear();
+    expect(history.entries).toEqual([]);
+  });
+
+  test('exports entries as cURL commands', () => {
+    const entry: RequestHistoryEntry = {
+      id: '1',
+      method: 'POST',
+      url: 'https://api.test/notes',
+      state: 'completed',
+      startedAt: 0,
+      requestHeaders: { 'Content-Type': 'application/json' },
+      requestBody: `{"text":"it's"}`,
+    };
+
+    expect(toCurlCommand(entry)).toBe(
+      `curl \\\n  -X POST \\\n  'https://api.test/notes' \\\n  -H 'Content-Type: application/json' \\\n  --data-raw '{"text":"it'\\''s"}'`
+    );
+    expect(toCurlCommand({ ...entry, method: 'GET', requestHeaders: {}, requestBody: undefined })).toBe(
+      `curl \\\n  'https://api.test/notes'`
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { APIErrorType, APIService, APIServiceConfig, HTTPMethod } from '../apiService';
+import { MockTransport } from '../mockTransport';
+import { endpointTemplate, latencyPercentiles, MetricsAggregator, RequestMetrics } from '../requestMetrics';
+import { ResponseCache } from '../responseCache';
+
+let mock: MockTransport;
+
+function createClient(config: APIServiceConfig): APIService {
+  mock = new MockTransport();
+  return APIService.create('metrics', { baseURL: 'https://api.test', transport: mock, ...config });
+}
+
+function metrics(overrides: Partial<RequestMetrics>): RequestMetrics {
+  return {
+    client: 'default',
+    method: HTTPMethod.GET,
+    url: 'https://api.test/feed',
+    endpoint: '/feed',
+    startedAt: 0,
+    duration: 100,
+    retryCount: 0,
+    fromCache: false,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+afterEach(() => {
+  APIService.removeClient('metrics');
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('latencyPercentiles', () => {
+  test('uses the nearest rank', () => {
+    const samples = Array.from({ length: 100 }, (_, index) => 100 - index);
+
+    expect(latencyPercentiles(samples)).toEqual({ p50: 50, p90: 90, p95: 95, p99: 99, max: 100 });
+    expect(latencyPercentiles([7])).toEqual({ p50: 7, p90: 7, p95: 7, p99: 7, max: 7 });
+    expect(latencyPercentiles([])).toBeUndefined();
+  });
+});
+
+describe('endpointTemplate', () => {
+  test('collapses numeric ids, UUIDs and long tokens', () => {
+    expect(endpointTemplate('https://api.test/users/42/posts?page=2')).toBe('/users/:id/posts');
+    expect(endpointTemplate('https://api.test/orders/0b8f3a52-6f0e-4b7a-9c1d-2e4f6a8b0c1d')).toBe('/orders/:id');
+    expect(endpointTemplate('https://api.test/files/a1b2c3d4e5f6g7h8i9')).toBe('/files/:id');
+    expect(endpointTemplate('https://api.test/users/me')).toBe('/users/me');
+    expect(endpointTemplate('https://api.test')).toBe('/');
+  });
+});
+
+describe('APIService metrics', () => {
+  test('records one call with its retries, sizes and redacted URL', async () => {
+    const record = jest.fn();
+    const api = createClient({ metricsSink: { record }, retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/users/:id', { body: { id: '42' } });
+    mock.failNextRequest({ status: 503 });
+
+    await api.get('/users/42?token=abc');
+
+    expect(record).toHaveBeenCalledTimes(1);
+    expect(record.mock.calls[0][0]).toMatchObject({
+      client: 'metrics',
+      method: HTTPMethod.GET,
+      url: 'https://api.test/users/42?token=[REDACTED]',
+      endpoint: '/users/:id',
+      status: 200,
+      retryCount: 1,
+      responseSize: '{"id":"42"}'.length,
+      fromCache: false,
+    });
+  });
+
+  test('records failures and cache hits', async () => {
+    const record = jest.fn();
+    const api = createClient({ metricsSink: { record }, responseCache: new ResponseCache({ persist: false }) });
+    mock.route(HTTPMethod.GET, '/feed', { body: [], headers: { 'Cache-Control': 'max-age=60' } });
+    mock.route(HTTPMethod.GET, '/missing', { status: 404 });
+
+    await api.get('/feed');
+    await api.get('/feed');
+    await api.get('/missing').catch(() => undefined);
+
+    expect(record.mock.calls.map(([entry]) => [entry.endpoint, entry.fromCache, entry.errorType])).toEqual([
+      ['/feed', false, undefined],
+      ['/feed', true, undefined],
+      ['/missing', false, APIErrorType.NOT_FOUND],
+    ]);
+  });
+});
+
+describe('MetricsAggregator', () => {
+  test('summarizes each endpoint, busiest first', () => {
+    const aggregator = new MetricsAggregator({ persist: false });
+    [100, 200, 300].forEach(duration => aggregator.record(metrics({ duration, responseSize: 10 })));
+    aggregator.record(metrics({ method: HTTPMethod.POST, endpoint: '/posts', duration: 50, errorType: APIErrorType.SERVER_ERROR }));
+
+    const summary = aggregator.summary();
+
+    expect(summary.count).toBe(4);
+    expect(summary.duration).toMatchObject({ p50: 100, max: 300 });
+    expect(summary.endpoints).toEqual([
+      expect.objectContaining({ endpoint: '/feed', count: 3, bytesReceived: 30, duration: { p50: 200, p90: 300, p95: 300, p99: 300, max: 300 } }),
+      expect.objectContaining({ endpoint: '/posts', count: 1, errorCount: 1 }),
+    ]);
+  });
+
+  test('reports once the period ends and keeps the data if the report fails', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const onReport = jest.fn().mockRejectedValueOnce(new Error('Offline')).mockResolvedValue(undefined);
+    const aggregator = new MetricsAggregator({ onReport, reportInterval: 1000, persist: false });
+    aggregator.record(metrics({ duration: 100 }));
+
+    jest.setSystemTime(1000);
+    aggregator.record(metrics({ duration: 200 }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onReport).toHaveBeenCalledTimes(1);
+    expect(aggregator.summary().count).toBe(2);
+
+    aggregator.record(metrics({ duration: 300 }));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onReport).toHaveBeenCalledTimes(2);
+    expect(onReport.mock.calls[1][0]).toMatchObject({ periodStart: 0, count: 3 });
+    expect(aggregator.summary().count).toBe(0);
+  });
+
+  test('restores the persisted period', async () => {
+    jest.useFakeTimers();
+    const first = new MetricsAggregator();
+    first.record(metrics({ duration: 100 }));
+    await jest.advanceTimersByTimeAsync(5000);
+
+    const second = new MetricsAggregator();
+    second.record(metrics({ duration: 300 }));
+    await second.initialize();
+
+    expect(second.summary().endpoints[0]).toMatchObject({ count: 2, duration: { max: 300 } });
+  });
+});
@@ -0,0 +1,137 @@
+import { APIService, APIServiceConfig, HTTPMethod } from '../apiService';
+import { hmacSha256, randomUUID, sha256Hex, toHex } from '../hash';
+import { MockTransport } from '../mockTransport';
+import { createHMACSigner } from '../requestSigning';
+
+const now = 1767225600000;
+let clientCount = 0;
+let mock: MockTransport;
+
+function createClient(config: APIServiceConfig = {}): APIService {
+  mock = new MockTransport();
+  return APIService.create(`signing-${++clientCount}`, {
+    baseURL: 'https://api.test',
+    transport: mock,
+    requestSigner: createHMACSigner({ secret: 'test-secret', keyId: 'mobile-v1' }),
+    ...config,
+  });
+}
+
+beforeEach(() => {
+  jest.spyOn(Date, 'now').mockReturnValue(now);
+});
+
+afterEach(() => {
+  APIService.clientNames.forEach(name => APIService.removeClient(name));
+  jest.restoreAllMocks();
+});
+
+describe('hash', () => {
+  test('matches the SHA-256 and HMAC-SHA256 test vectors', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    // RFC 4231 test case 2
+    expect(toHex(hmacSha256('Jefe', 'what do ya want for nothing?'))).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+});
+
+describe('randomUUID', () => {
+  test('returns distinct version 4 UUIDs', () => {
+    const ids = new Set(Array.from({ length: 50 }, () => randomUUID()));
+
+    expect(ids.size).toBe(50);
+    ids.forEach(id => expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/));
+  });
+});
+
+describe('idempotency keys', () => {
+  test('adds a new Idempotency-Key to each POST and keeps it across retries', async () => {
+    const api = createClient({ requestSigner: undefined, retryPolicy: { baseDelay: 1, retryNonIdempotent: true } });
+    mock.route(HTTPMethod.POST, '/payments', { body: {} });
+    mock.failNextRequest({ status: 503 });
+
+    await api.post('/payments', { amount: 100 });
+    await api.post('/payments', { amount: 100 });
+
+    const keys = mock.recordedRequests.map(request => request.headers['Idempotency-Key']);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+
+  test('uses the caller\'s key when given', async () => {
+    const api = createClient({ requestSigner: undefined });
+    mock.route(HTTPMethod.POST, '/payments', { body: {} });
+
+    await api.post('/payments', { amount: 100 }, undefined, { idempotencyKey: 'order-42' });
+
+    expect(mock.recordedRequests[0].headers['Idempotency-Key']).toBe('order-42');
+  });
+});
+
+describe('createHMACSigner', () => {
+  test('signs the method, path, timestamp and empty body hash', async () => {
+    const api = createClient();
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+
+    await api.get('/feed');
+
+    expect(mock.recordedRequests[0].headers).toMatchObject({
+      'X-Signature': '05c2c4e196dbdcdbf4c94e83ab1a028333d827b2811dc8882f305cec9233314c',
+      'X-Signature-Timestamp': '1767225600',
+      'X-Signature-Key-Id': 'mobile-v1',
+    });
+  });
+
+  test('covers the query and body and supports base64 signatures', async () => {
+    const api = createClient({ requestSigner: createHMACSigner({ secret: () => 'test-secret', encoding: 'base64' }) });
+    mock.route(HTTPMethod.POST, '/payments', { body: {} });
+
+    await api.post('/payments?expand=card', { amount: 100 });
+
+    const headers = mock.recordedRequests[0].headers;
+    expect(headers['X-Signature']).toBe('QdoJ+gd9nn83Ku/1Sbyo1atzrf3lb4tKmEFh6KbTl9o=');
+    expect(headers['X-Signature-Key-Id']).toBeUndefined();
+  });
+
+  test('skips requests rejected by shouldSign', async () => {
+    const api = createClient({
+      requestSigner: createHMACSigner({ secret: 'test-secret', shouldSign: request => request.url.includes('/payments') }),
+    });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+
+    await api.get('/feed');
+
+    expect(mock.recordedRequests[0].headers['X-Signature']).toBeUndefined();
+  });
+
+  test('signs each retry again with a fresh timestamp', async () => {
+    const api = createClient({ retryPolicy: { baseDelay: 1 } });
+    mock.route(HTTPMethod.GET, '/feed', { body: [] });
+    mock.failNextRequest({ status: 503 });
+    jest.spyOn(Date, 'now').mockReturnValueOnce(now).mockReturnValue(now + 5000);
+
+    await api.get('/feed');
+
+    const timestamps = mock.recordedRequests.map(request => request.headers['X-Signature-Timestamp']);
+    expect(timestamps).toEqual(['1767225600', '1767225605']);
+  });
+
+  test('signs streams after the request interceptors have run', async () => {
+    const api = createClient();
+    api.addRequestInterceptor(request => ({ ...request, url: `${request.url}?cursor=42` }));
+    mock.route(HTTPMethod.GET, '/events', { body: '{"id":1}\n', headers: { 'Content-Type': 'application/x-ndjson' } });
+
+    const lines: unknown[] = [];
+    for await (const line of api.ndjson('/events')) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual([{ id: 1 }]);
+    expect(mock.recordedRequests[0].headers['X-Signature']).toBe(
+      '656a430384208c0eb502b8a331f17bf82fb26f2df95765a85f5698f8025a0042'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { APIErrorType, APIService, HTTPMethod } from '../apiService';
+import { Decoders } from '../decoders';
+import { MockTransport } from '../mockTransport';
+import { NDJSONParser, parseHeaders, ServerSentEvent, ServerSentEventParser } from '../streaming';
+
+let mock: MockTransport;
+let api: APIService;
+
+beforeEach(() => {
+  mock = new MockTransport();
+  api = APIService.create('streaming', { baseURL: 'https://api.test', transport: mock });
+});
+
+afterEach(() => {
+  APIService.removeClient('streaming');
+});
+
+async function collect<T>(stream: AsyncIterable<T>, limit = Infinity): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of stream) {
+    values.push(value);
+    if (values.length >= limit) break;
+  }
+  return values;
+}
+
+describe('ServerSentEventParser', () => {
+  test('assembles events split across chunks, including CRLF line endings', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('event: price\r')).toEqual([]);
+    expect(parser.push('\ndata: 4')).toEqual([]);
+    expect(parser.push('2\r\n\r\ndata: next\n')).toEqual([{ event: 'price', data: '42', id: undefined }]);
+    expect(parser.push('\n')).toEqual([{ event: 'message', data: 'next', id: undefined }]);
+  });
+
+  test('joins multi-line data and keeps the last event id', () => {
+    const parser = new ServerSentEventParser();
+
+    const events = parser.push('id: 7\ndata: line one\ndata:line two\n\ndata: {}\n\n');
+
+    expect(events).toEqual([
+      { event: 'message', data: 'line one\nline two', id: '7' },
+      { event: 'message', data: '{}', id: '7' },
+    ]);
+  });
+
+  test('ignores comments, unknown fields and events without data', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push(': keep-alive\nevent: ping\n\nfoo: bar\ndata\n\n')).toEqual([
+      { event: 'message', data: '', id: undefined },
+    ]);
+  });
+
+  test('reads the reconnection time from retry fields with digits only', () => {
+    const parser = new ServerSentEventParser();
+
+    parser.push('retry: 5000\n\n');
+    expect(parser.retry).toBe(5000);
+    parser.push('retry: soon\n\n');
+    expect(parser.retry).toBe(5000);
+  });
+});
+
+describe('NDJSONParser', () => {
+  test('parses lines split across chunks and a final line without a newline', () => {
+    const parser = new NDJSONParser();
+
+    expect(parser.push('{"a":1}\n\n{"a":')).toEqual([{ a: 1 }]);
+    expect(parser.push('2}\n{"a":3}')).toEqual([{ a: 2 }]);
+    expect(parser.flush()).toEqual([{ a: 3 }]);
+  });
+
+  test('throws on invalid lines', () => {
+    expect(() => new NDJSONParser().push('not json\n')).toThrow(SyntaxError);
+  });
+});
+
+describe('parseHeaders', () => {
+  test('parses raw XMLHttpRequest headers', () => {
+    const headers = parseHeaders('Content-Type: text/event-stream\r\nX-Request-Id: a:b\r\n\r\n');
+
+    expect(headers.get('content-type')).toBe('text/event-stream');
+    expect(headers.get('x-request-id')).toBe('a:b');
+  });
+});
+
+describe('APIService streams', () => {
+  test('reconnects event streams with Last-Event-ID after the server closes them', async () => {
+    mock.route(HTTPMethod.GET, '/prices', ({ request }) => ({
+      body: request.headers['Last-Event-ID'] ? 'id: 2\ndata: b\n\n' : 'retry: 1\nid: 1\ndata: a\n\n',
+      headers: { 'Content-Type': 'text/event-stream' },
+    }));
+
+    const events = await collect<ServerSentEvent>(api.events('/prices'), 2);
+
+    expect(events.map(event => event.data)).toEqual(['a', 'b']);
+    expect(mock.recordedRequests.map(request => request.headers['Last-Event-ID'])).toEqual([undefined, '1']);
+    expect(mock.recordedRequests[0].headers['Accept']).toBe('text/event-stream');
+  });
+
+  test('ends event streams on 204 and fails on client errors', async () => {
+    mock.route(HTTPMethod.GET, '/done', { status: 204 });
+    mock.route(HTTPMethod.GET, '/forbidden', { status: 403 });
+
+    await expect(collect(api.events('/done'))).resolves.toEqual([]);
+    await expect(collect(api.events('/forbidden'))).rejects.toMatchObject({ type: APIErrorType.FORBIDDEN });
+  });
+
+  test('gives up after maxReconnects failed connections', async () => {
+    mock.route(HTTPMethod.GET, '/prices', { status: 503 });
+
+    await expect(collect(api.events('/prices', undefined, { reconnectDelay: 1, maxReconnects: 2 }))).rejects.toMatchObject({
+      type: APIErrorType.SERVER_ERROR,
+    });
+    expect(mock.recordedRequests).toHaveLength(3);
+  });
+
+  test('decodes each NDJSON line', async () => {
+    mock.route(HTTPMethod.POST, '/export', ({ body }) => ({
+      body: `{"id":"${(body as { prefix: string }).prefix}1"}\n{"id":2}`,
+      headers: { 'Content-Type': 'application/x-ndjson' },
+    }));
+    const decoder = Decoders.object({ id: Decoders.string });
+
+    const stream = api.ndjson('/export', undefined, { method: HTTPMethod.POST, body: { prefix: 'row' }, decoder });
+    await expect(stream.next()).resolves.toEqual({ value: { id: 'row1' }, done: false });
+    await expect(stream.next()).rejects.toMatchObject({ type: APIErrorType.DECODING_ERROR, decodingPath: '$.id' });
+  });
+});
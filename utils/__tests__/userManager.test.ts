@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { APIError } from '../apiService';
+import { UserManager } from '../userManager';
+
+const manager = UserManager.shared;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await manager.signIn('u1', 'ann@example.com');
+  await manager.setSessionTokens({ accessToken: 'access', refreshToken: 'refresh' });
+});
+
+afterEach(() => {
+  manager.setSessionRefresher(undefined);
+  manager.removeAllListeners();
+});
+
+describe('refreshSession', () => {
+  test('stores the new tokens', async () => {
+    const refresher = jest.fn().mockResolvedValue({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+    manager.setSessionRefresher(refresher);
+
+    await expect(manager.refreshSession()).resolves.toBe('access-2');
+    expect(refresher).toHaveBeenCalledWith('refresh');
+    expect(await manager.getRefreshToken()).toBe('refresh-2');
+    expect(manager.isSignedIn).toBe(true);
+  });
+
+  test.each([
+    ['a network error', APIError.networkError(new Error('Network request failed'))],
+    ['a server error', APIError.serverError(503)],
+  ])('keeps the session after %s', async (_, error) => {
+    const expired = jest.fn();
+    manager.on('sessionExpired', expired);
+    manager.setSessionRefresher(jest.fn().mockRejectedValue(error));
+
+    await expect(manager.refreshSession()).rejects.toBe(error);
+    expect(expired).not.toHaveBeenCalled();
+    expect(manager.isSignedIn).toBe(true);
+    expect(await manager.getRefreshToken()).toBe('refresh');
+  });
+
+  test.each([
+    ['unauthorized', 401],
+    ['bad request', 400],
+  ])('signs out when the refresh is rejected as %s', async (_, status) => {
+    const expired = jest.fn();
+    manager.on('sessionExpired', expired);
+    const rejection = status === 401 ? APIError.unauthorized() : APIError.badRequest();
+    manager.setSessionRefresher(jest.fn().mockRejectedValue(rejection));
+
+    await expect(manager.refreshSession()).rejects.toBeDefined();
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(manager.isSignedIn).toBe(false);
+    expect(await manager.getRefreshToken()).toBeNull();
+  });
+
+  test('signs out when there is no refresh token', async () => {
+    await AsyncStorage.removeItem('refresh_token');
+    const expired = jest.fn();
+    manager.on('sessionExpired', expired);
+    manager.setSessionRefresher(jest.fn());
+
+    await expect(manager.refreshSession()).rejects.toBeDefined();
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(manager.isSignedIn).toBe(false);
+  });
+});
@@ -2,14 +2,32 @@
  * API SERVICE REFERENCE GUIDE
  * 
  * Features:
- * - Secure HTTPS-only requests
+ * - Secure HTTPS-only requests (plain HTTP only for allowlisted hosts in development builds)
  * - Bearer token authentication
  * - API key authentication
  * - JSON encoding/decoding
  * - Comprehensive error handling
- * - Request/response logging (debug only)
+ * - Request/response logging (debug only) with header/field redaction and body truncation
+ * - History of recent requests for the in-app Network Inspector (development builds)
+ * - HAR 1.2 recording of a session (replay it with MockTransport.replayHAR)
  * - Timeout configuration
  * - Custom headers support
+ * - Automatic retries with exponential backoff and Retry-After support
+ * - Per-host circuit breaker and token-bucket rate limiting (see circuitBreaker.ts, rateLimiter.ts)
+ * - Per-request timing/size metrics to a pluggable sink (see requestMetrics.ts)
+ * - Request signing hook (e.g. HMAC, see requestSigning.ts) and automatic Idempotency-Key on POSTs
+ * - Request/response/error interceptor pipeline
+ * - Transparent access-token refresh on 401
+ * - Structured error bodies (field validation messages, request id)
+ * - Pluggable transport (fetch by default, MockTransport for tests/demo mode)
+ * - Optional HTTP response cache with ETag / Cache-Control revalidation
+ * - Request cancellation with AbortSignal and deduplication of identical GETs
+ * - Query parameter encoding and typed endpoint definitions
+ * - Optional runtime response validation with decoders
+ * - Multipart/binary uploads, blob/array-buffer downloads and transfer progress
+ * - Server-Sent Events and NDJSON streaming with automatic reconnect
+ * - Multiple named clients with independent configuration (APIService.create)
+ * - Response metadata hook (status/headers) for Link-header pagination (see paginator.ts)
  * 
  * Usage Examples:
  * // GET request
@@ -25,12 +43,129 @@
  * APIService.shared.setBearerToken('your-token-here');
  * const profile = await APIService.shared.get<UserProfile>('/profile');
  * 
+ * // Per-request retry policy (POST is only retried when opted in)
+ * const order = await APIService.shared.post<Order>('/orders', orderData, undefined, {
+ *   retry: { maxAttempts: 5, retryNonIdempotent: true },
+ * });
+ * 
+ * // Disable retries for a single request
+ * const status = await APIService.shared.get<Status>('/status', undefined, { retry: false });
+ * 
+ * // Field-level validation errors from the server
+ * try {
+ *   await APIService.shared.post('/signup', form);
+ * } catch (error) {
+ *   if (error instanceof APIError && error.type === APIErrorType.VALIDATION_FAILED) {
+ *     setFieldErrors(error.fieldErrors); // { email: ['is already taken'] }
+ *   }
+ * }
+ * 
+ * // Query parameters (arrays, dates and nested objects are encoded)
+ * const page = await APIService.shared.get<User[]>('/users', undefined, {
+ *   params: { page: 2, tags: ['a', 'b'], since: new Date(), filter: { role: 'admin' } },
+ * });
+ * 
+ * // Runtime response validation (see decoders.ts)
+ * const UserDecoder = Decoders.object({ id: Decoders.string, createdAt: Decoders.isoDate });
+ * const user = await APIService.shared.get('/me', undefined, { decoder: UserDecoder });
+ * 
+ * // Upload an avatar with progress
+ * const formData = new FormData();
+ * formData.append('avatar', { uri: imageUri, name: 'avatar.jpg', type: 'image/jpeg' } as any);
+ * const { url } = await APIService.shared.upload<{ url: string }>('/me/avatar', formData, undefined, {
+ *   onUploadProgress: ({ fraction }) => setProgress(fraction ?? 0),
+ * });
+ * await UserManager.shared.updateProfile(undefined, undefined, url);
+ * 
+ * // Download a binary export
+ * const file = await APIService.shared.download('/exports/latest', undefined, {
+ *   onDownloadProgress: ({ loaded, total }) => console.log(loaded, total),
+ * });
+ * 
+ * // Server-Sent Events (reconnects with Last-Event-ID until the loop exits)
+ * for await (const event of APIService.shared.events('/notifications/stream', undefined, { signal })) {
+ *   if (event.event === 'notification') showBanner(JSON.parse(event.data));
+ * }
+ * 
+ * // NDJSON stream, e.g. incremental AI output
+ * for await (const chunk of APIService.shared.ndjson<Completion>('/completions', undefined, {
+ *   method: HTTPMethod.POST,
+ *   body: { prompt },
+ * })) {
+ *   appendText(chunk.text);
+ * }
+ * 
+ * // Typed endpoints
+ * const Endpoints = {
+ *   getUser: defineEndpoint<User>()(HTTPMethod.GET, '/users/:id'),
+ *   updateUser: defineEndpoint<User, Partial<User>>()(HTTPMethod.PATCH, '/users/:id'),
+ * };
+ * const user = await APIService.shared.call(Endpoints.getUser, { id });
+ * const updated = await APIService.shared.call(Endpoints.updateUser, { id, body: { name } });
+ * 
+ * // Cancel when a screen unmounts (rejects with APIErrorType.CANCELLED)
+ * const controller = new AbortController();
+ * APIService.shared.get<Feed>('/feed', undefined, { signal: controller.signal });
+ * return () => controller.abort();
+ * 
+ * // Separate client for another host (own headers, auth, interceptors and timeout)
+ * const analytics = APIService.create('analytics', {
+ *   baseURL: 'https://ingest.example.com',
+ *   apiKey: ANALYTICS_KEY,
+ *   timeout: 5000,
+ *   retryPolicy: { maxAttempts: 1 },
+ * });
+ * await analytics.post('/events', batch);
+ * APIService.client('analytics')?.enableLogging(true);
+ * 
+ * // Interceptors (run in the order they were added)
+ * APIService.shared.addRequestInterceptor(request => ({
+ *   ...request,
+ *   headers: { ...request.headers, 'X-Trace-Id': createTraceId() },
+ * }));
+ * APIService.shared.addErrorInterceptor(error =>
+ *   error.type === APIErrorType.NOT_FOUND ? new Response('null', { status: 200 }) : error
+ * );
+ * 
  * Configuration:
  * - Set base URL: APIService.shared.configure('https://api.example.com')
  * - Set timeout: APIService.shared.setTimeout(30000)
  * - Enable logging: APIService.shared.enableLogging(true)
+ * - Redact more fields in logs: APIService.shared.setLogRedaction({ redactFields: [...defaultLogRedaction.redactFields, 'ssn'] })
+ * - Local mock server (development builds only): APIService.shared.allowInsecureHosts(['localhost', '10.0.2.2'])
+ * - Set retry policy: APIService.shared.setRetryPolicy({ maxAttempts: 3, baseDelay: 500 })
+ * - Set transport: APIService.shared.setTransport(new MockTransport())
+ * - Enable response cache: APIService.shared.setResponseCache(new ResponseCache())
+ * - Record request history: APIService.shared.setRequestHistory(new RequestHistory()) (on by default in development builds)
+ * - Record a HAR: APIService.shared.setHarRecorder(new HarRecorder()), then recorder.toHAR()
+ * - Fail fast while a host is down: APIService.shared.setCircuitBreaker(new CircuitBreaker({ failureThreshold: 5 }))
+ * - Throttle endpoints with strict quotas: APIService.shared.setRateLimiter(limiter) (see rateLimiter.ts)
+ * - Collect latency metrics: APIService.shared.setMetricsSink(new MetricsAggregator({ onReport }))
+ * - Sign requests: APIService.shared.setRequestSigner(createHMACSigner({ secret, keyId }))
+ * - Turn off Idempotency-Key on POSTs: APIService.shared.enableIdempotencyKeys(false)
  */
 
+import { CircuitBreaker } from './circuitBreaker';
+import { DecodeError } from './decoders';
+import { LogRedactionOptions, defaultLogRedaction, redactBody, redactHeaders, redactURL } from './logRedaction';
+import { HarRecorder } from './har';
+import { randomUUID, utf8Encode } from './hash';
+import { RateLimiter } from './rateLimiter';
+import { RequestHistory } from './requestHistory';
+import { MetricsSink, RequestMetrics, endpointTemplate, networkTimings } from './requestMetrics';
+import { CachedResponse, ResponseCache } from './responseCache';
+import {
+  NDJSONParser,
+  ServerSentEvent,
+  ServerSentEventParser,
+  StreamingResponse,
+  openFetchStream,
+  openXHRStream,
+  parseHeaders,
+  streamFromResponse,
+  supportsFetchStreaming,
+} from './streaming';
+
 // MARK: - API Error Types
 export enum APIErrorType {
   INVALID_URL = 'INVALID_URL',
@@ -38,17 +173,40 @@ export enum APIErrorType {
   INVALID_RESPONSE = 'INVALID_RESPONSE',
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
+  BAD_REQUEST = 'BAD_REQUEST',
   NOT_FOUND = 'NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  VALIDATION_FAILED = 'VALIDATION_FAILED',
+  RATE_LIMITED = 'RATE_LIMITED',
   SERVER_ERROR = 'SERVER_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
+  CANCELLED = 'CANCELLED',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
   DECODING_ERROR = 'DECODING_ERROR',
   ENCODING_ERROR = 'ENCODING_ERROR',
+  GRAPHQL_ERROR = 'GRAPHQL_ERROR',
+}
+
+/**
+ * An entry of a GraphQL response's `errors` array
+ */
+export interface GraphQLErrorItem {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, any>;
 }
 
 export class APIError extends Error {
   public type: APIErrorType;
   public statusCode?: number;
   public originalError?: Error;
+  public retryAfter?: number; // Milliseconds, parsed from the Retry-After header
+  public responseBody?: unknown; // Parsed JSON (or raw text) of an error response
+  public responseHeaders?: Record<string, string>;
+  public requestId?: string;
+  public decodingPath?: string; // Path of the value that failed validation, e.g. "$.items[2].createdAt"
+  public graphQLErrors?: GraphQLErrorItem[];
 
   constructor(type: APIErrorType, message: string, statusCode?: number, originalError?: Error) {
     super(message);
@@ -58,6 +216,29 @@ export class APIError extends Error {
     this.originalError = originalError;
   }
 
+  /**
+   * Field-level validation messages from the response body.
+   * Supports `{ errors: { field: ['message'] } }` and `{ errors: [{ field, message }] }`.
+   */
+  get fieldErrors(): Record<string, string[]> {
+    const errors = (this.responseBody as { errors?: unknown } | undefined)?.errors;
+    const result: Record<string, string[]> = {};
+
+    if (Array.isArray(errors)) {
+      for (const item of errors) {
+        if (item && typeof item.field === 'string' && typeof item.message === 'string') {
+          result[item.field] = [...(result[item.field] ?? []), item.message];
+        }
+      }
+    } else if (errors && typeof errors === 'object') {
+      for (const [field, messages] of Object.entries(errors)) {
+        result[field] = (Array.isArray(messages) ? messages : [messages]).map(String);
+      }
+    }
+
+    return result;
+  }
+
   static invalidURL(): APIError {
     return new APIError(APIErrorType.INVALID_URL, 'Invalid URL');
   }
@@ -70,6 +251,10 @@ export class APIError extends Error {
     return new APIError(APIErrorType.INVALID_RESPONSE, 'Invalid response');
   }
 
+  static badRequest(): APIError {
+    return new APIError(APIErrorType.BAD_REQUEST, 'Bad request', 400);
+  }
+
   static unauthorized(): APIError {
     return new APIError(APIErrorType.UNAUTHORIZED, 'Unauthorized - check your credentials', 401);
   }
@@ -82,23 +267,97 @@ export class APIError extends Error {
     return new APIError(APIErrorType.NOT_FOUND, 'Resource not found', 404);
   }
 
-  static serverError(statusCode: number): APIError {
-    return new APIError(APIErrorType.SERVER_ERROR, `Server error (Code: ${statusCode})`, statusCode);
+  static conflict(): APIError {
+    return new APIError(APIErrorType.CONFLICT, 'Conflict with the current state of the resource', 409);
+  }
+
+  static validationFailed(): APIError {
+    return new APIError(APIErrorType.VALIDATION_FAILED, 'Validation failed', 422);
+  }
+
+  static rateLimited(retryAfter?: number): APIError {
+    const error = new APIError(APIErrorType.RATE_LIMITED, 'Too many requests - rate limit exceeded', 429);
+    error.retryAfter = retryAfter;
+    return error;
+  }
+
+  static clientRateLimited(retryAfter: number): APIError {
+    const error = new APIError(APIErrorType.RATE_LIMITED, 'Too many requests - client rate limit exceeded');
+    error.retryAfter = retryAfter;
+    return error;
+  }
+
+  static serverError(statusCode: number, retryAfter?: number): APIError {
+    const error = new APIError(APIErrorType.SERVER_ERROR, `Server error (Code: ${statusCode})`, statusCode);
+    error.retryAfter = retryAfter;
+    return error;
+  }
+
+  static networkError(error: unknown): APIError {
+    // Transports and polyfills sometimes reject with a non-Error (e.g. an undefined abort reason)
+    const underlyingError = error instanceof Error ? error : new Error(String(error ?? 'Request failed'));
+    return new APIError(APIErrorType.NETWORK_ERROR, `Network error: ${underlyingError.message}`, undefined, underlyingError);
+  }
+
+  static cancelled(): APIError {
+    return new APIError(APIErrorType.CANCELLED, 'Request was cancelled');
   }
 
-  static networkError(error: Error): APIError {
-    return new APIError(APIErrorType.NETWORK_ERROR, `Network error: ${error.message}`, undefined, error);
+  static circuitOpen(host: string, retryAfter: number): APIError {
+    const error = new APIError(APIErrorType.CIRCUIT_OPEN, `Service unavailable - too many recent failures from ${host}`);
+    error.retryAfter = retryAfter;
+    return error;
   }
 
   static decodingError(error: Error): APIError {
-    return new APIError(APIErrorType.DECODING_ERROR, `Data decoding error: ${error.message}`, undefined, error);
+    const decodingError = new APIError(APIErrorType.DECODING_ERROR, `Data decoding error: ${error.message}`, undefined, error);
+    decodingError.decodingPath = decodingErrorPath(error);
+    return decodingError;
   }
 
   static encodingError(error: Error): APIError {
     return new APIError(APIErrorType.ENCODING_ERROR, `Data encoding error: ${error.message}`, undefined, error);
   }
+
+  static graphQLError(errors: GraphQLErrorItem[], statusCode?: number): APIError {
+    // Well-known `extensions.code` values map to the matching REST error type
+    const type = graphQLErrorTypes[errors[0]?.extensions?.code] ?? APIErrorType.GRAPHQL_ERROR;
+    const message = errors.map(error => error.message).join('; ') || 'GraphQL error';
+    const error = new APIError(type, `GraphQL error: ${message}`, statusCode);
+    error.graphQLErrors = errors;
+    return error;
+  }
+}
+
+const graphQLErrorTypes: Record<string, APIErrorType> = {
+  UNAUTHENTICATED: APIErrorType.UNAUTHORIZED,
+  FORBIDDEN: APIErrorType.FORBIDDEN,
+  BAD_USER_INPUT: APIErrorType.VALIDATION_FAILED,
+  NOT_FOUND: APIErrorType.NOT_FOUND,
+};
+
+/**
+ * Extracts the failing path from a DecodeError or a zod-style error with `issues`
+ */
+function decodingErrorPath(error: Error): string | undefined {
+  if (error instanceof DecodeError) {
+    return error.path;
+  }
+
+  const issuePath = (error as { issues?: { path?: (string | number)[] }[] }).issues?.[0]?.path;
+  if (Array.isArray(issuePath)) {
+    return issuePath.reduce<string>(
+      (path, segment) => (typeof segment === 'number' ? `${path}[${segment}]` : `${path}.${segment}`),
+      '$'
+    );
+  }
+
+  return undefined;
 }
 
+// Response headers checked (in order) for the server-assigned request id
+const requestIdHeaders = ['X-Request-Id', 'X-Correlation-Id', 'X-Amzn-RequestId'];
+
 // MARK: - HTTP Method
 export enum HTTPMethod {
   GET = 'GET',
@@ -108,13 +367,418 @@ export enum HTTPMethod {
   PATCH = 'PATCH',
 }
 
+// MARK: - Retry Policy
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Base delay in milliseconds, doubled on every attempt */
+  baseDelay: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelay: number;
+  /** Status codes that are considered transient */
+  retryableStatusCodes: number[];
+  /** Wait for the server's Retry-After on 429/503 instead of the computed backoff */
+  respectRetryAfter: boolean;
+  /** Also retry POST and PATCH requests (only safe if the endpoint is idempotent) */
+  retryNonIdempotent: boolean;
+}
+
+const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+const idempotentMethods: HTTPMethod[] = [HTTPMethod.GET, HTTPMethod.PUT, HTTPMethod.DELETE];
+
+// MARK: - Transfer Types
+/**
+ * How the response body is returned: parsed JSON (default), text, Blob or ArrayBuffer
+ */
+export type ResponseType = 'json' | 'text' | 'blob' | 'arraybuffer';
+
+export interface TransferProgress {
+  loaded: number; // Bytes transferred so far
+  total?: number; // Total bytes, if known
+  fraction?: number; // 0...1, if the total is known
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+// MARK: - Query Parameters
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * - repeat: tags=a&tags=b
+ * - brackets: tags[]=a&tags[]=b
+ * - comma: tags=a,b
+ */
+export type ArrayFormat = 'repeat' | 'brackets' | 'comma';
+
+/**
+ * Encodes query parameters. Dates become ISO strings, nested objects use
+ * bracket notation (filter[name]=x) and null/undefined values are skipped.
+ * @param params Query parameters
+ * @param arrayFormat How arrays are encoded (default: 'repeat')
+ * @returns Encoded query string without the leading '?'
+ */
+export function buildQueryString(params: QueryParams, arrayFormat: ArrayFormat = 'repeat'): string {
+  const pairs: [string, string][] = [];
+  for (const [key, value] of Object.entries(params)) {
+    appendQueryValue(pairs, key, value, arrayFormat);
+  }
+  return pairs.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+}
+
+function appendQueryValue(pairs: [string, string][], key: string, value: QueryValue, arrayFormat: ArrayFormat): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+
+  if (value instanceof Date) {
+    pairs.push([key, value.toISOString()]);
+  } else if (Array.isArray(value)) {
+    const isFlat = value.every(item => item === null || typeof item !== 'object' || item instanceof Date);
+    if (arrayFormat === 'comma' && isFlat) {
+      const items = value.filter(item => item !== null && item !== undefined);
+      pairs.push([key, items.map(item => (item instanceof Date ? item.toISOString() : String(item))).join(',')]);
+      return;
+    }
+
+    value.forEach((item, index) => {
+      // Nested structures need an index to stay unambiguous
+      const isNested = item !== null && typeof item === 'object' && !(item instanceof Date);
+      const itemKey = isNested ? `${key}[${index}]` : arrayFormat === 'brackets' ? `${key}[]` : key;
+      appendQueryValue(pairs, itemKey, item, arrayFormat);
+    });
+  } else if (typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      appendQueryValue(pairs, `${key}[${childKey}]`, childValue, arrayFormat);
+    }
+  } else {
+    pairs.push([key, String(value)]);
+  }
+}
+
+// MARK: - Typed Endpoints
+type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+export type PathParams<TPath extends string> = { [K in PathParamNames<TPath>]: string | number };
+
+/**
+ * An endpoint declared as data. The type parameters only exist at compile time.
+ */
+export interface Endpoint<TPath extends string, TResponse, TBody = void, TQuery extends QueryParams = QueryParams> {
+  method: HTTPMethod;
+  path: TPath;
+  readonly __types?: { response: TResponse; body: TBody; query: TQuery };
+}
+
+export type EndpointArgs<TPath extends string, TBody, TQuery> = PathParams<TPath> &
+  ([TBody] extends [void] ? unknown : { body: TBody }) & { query?: TQuery };
+
+type EndpointCallArguments<TPath extends string, TResponse, TBody, TQuery> =
+  [PathParamNames<TPath>] extends [never]
+    ? [TBody] extends [void]
+      ? [args?: EndpointArgs<TPath, TBody, TQuery>, options?: RequestOptions<TResponse>]
+      : [args: EndpointArgs<TPath, TBody, TQuery>, options?: RequestOptions<TResponse>]
+    : [args: EndpointArgs<TPath, TBody, TQuery>, options?: RequestOptions<TResponse>];
+
+/**
+ * Declare a typed endpoint. Specify the types first, then the method and path template:
+ * const getUser = defineEndpoint<User>()(HTTPMethod.GET, '/users/:id');
+ */
+export function defineEndpoint<TResponse, TBody = void, TQuery extends QueryParams = QueryParams>() {
+  return <TPath extends string>(method: HTTPMethod, path: TPath): Endpoint<TPath, TResponse, TBody, TQuery> => ({
+    method,
+    path,
+  });
+}
+
+/**
+ * Substitutes :param placeholders in a path template
+ * @param path Path template (e.g. '/users/:id')
+ * @param params Values for the placeholders
+ * @returns The path with URL-encoded values
+ */
+export function buildPath(path: string, params: Record<string, string | number>): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+    if (params[name] === undefined) {
+      throw APIError.invalidURL();
+    }
+    return encodeURIComponent(String(params[name]));
+  });
+}
+
+// MARK: - Interceptors
+export interface APIRequest {
+  method: HTTPMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  responseType?: ResponseType;
+  onUploadProgress?: ProgressCallback;
+  onDownloadProgress?: ProgressCallback;
+}
+
+/**
+ * Runs before each attempt. Return the (possibly modified) request to continue,
+ * or a Response to short-circuit the network (e.g. a cached response)
+ */
+export type RequestInterceptor = (request: APIRequest) => APIRequest | Response | Promise<APIRequest | Response>;
+
+/**
+ * Runs after a response is received, before status handling and decoding
+ */
+export type ResponseInterceptor = (response: Response, request: APIRequest) => Response | Promise<Response>;
+
+/**
+ * Runs when an attempt fails. Return an APIError to replace the error,
+ * or a Response to recover from it
+ */
+export type ErrorInterceptor = (error: APIError, request: APIRequest) => APIError | Response | Promise<APIError | Response>;
+
+// MARK: - Transport
+/**
+ * Sends a fully prepared request. Swap the transport to run APIService against
+ * a mock backend (see MockTransport) instead of the network. When the signal
+ * aborts, reject with abortError(signal).
+ */
+export interface APITransport {
+  send(request: APIRequest, signal: AbortSignal): Promise<Response>;
+  /** Deliver the response body incrementally. Without it, streams receive the buffered body at once. */
+  stream?(request: APIRequest, signal: AbortSignal): Promise<StreamingResponse>;
+}
+
+export class FetchTransport implements APITransport {
+  stream(request: APIRequest, signal: AbortSignal): Promise<StreamingResponse> {
+    // React Native's fetch buffers the whole body, so read progress events from XMLHttpRequest instead
+    return supportsFetchStreaming() ? openFetchStream(request, signal) : openXHRStream(request, signal);
+  }
+
+  send(request: APIRequest, signal: AbortSignal): Promise<Response> {
+    // fetch can't report progress, XMLHttpRequest can
+    if (request.onUploadProgress || request.onDownloadProgress) {
+      return this.sendWithXHR(request, signal);
+    }
+
+    return fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal,
+    });
+  }
+
+  private sendWithXHR(request: APIRequest, signal: AbortSignal): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open(request.method, request.url);
+      xhr.responseType = 'blob';
+      Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+      const reportProgress = (callback?: ProgressCallback) => (event: ProgressEvent) => {
+        callback?.({
+          loaded: event.loaded,
+          total: event.lengthComputable ? event.total : undefined,
+          fraction: event.lengthComputable && event.total > 0 ? event.loaded / event.total : undefined,
+        });
+      };
+      if (request.onUploadProgress) {
+        xhr.upload.onprogress = reportProgress(request.onUploadProgress);
+      }
+      if (request.onDownloadProgress) {
+        xhr.onprogress = reportProgress(request.onDownloadProgress);
+      }
+
+      const onAbort = () => {
+        xhr.abort();
+        reject(abortError(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      xhr.onload = () => {
+        signal.removeEventListener('abort', onAbort);
+        // These statuses must not have a body
+        const body = [204, 205, 304].includes(xhr.status) ? null : xhr.response;
+        resolve(new Response(body, { status: xhr.status, headers: parseHeaders(xhr.getAllResponseHeaders()) }));
+      };
+      xhr.onerror = () => {
+        signal.removeEventListener('abort', onAbort);
+        reject(new TypeError('Network request failed'));
+      };
+
+      xhr.send((request.body ?? null) as XMLHttpRequestBodyInit | null);
+    });
+  }
+}
+
+// MARK: - Request Signing
+/**
+ * Signs the final request of each attempt, after the interceptors and immediately
+ * before it is sent. Returns headers to add; the request itself must not be changed.
+ * See requestSigning.ts for an HMAC signer.
+ */
+export type RequestSigner = (request: Readonly<APIRequest>) => Record<string, string> | Promise<Record<string, string>>;
+
+// MARK: - Token Refresh
+/**
+ * Obtains a new access token after a 401. Should reject if the session can't be refreshed.
+ */
+export type TokenRefreshHandler = () => Promise<string>;
+
+// MARK: - Cache Policy
+/**
+ * - default: follow Cache-Control (fresh → cache, stale-while-revalidate → cache + background refresh, else revalidate)
+ * - network-only: always go to the network (the response is still stored)
+ * - cache-first: serve any cached entry, even if stale, without a network call
+ * - cache-and-network: serve the cached entry immediately and refresh in the background
+ */
+export type CachePolicy = 'default' | 'network-only' | 'cache-first' | 'cache-and-network';
+
+// MARK: - Response Validation
+/**
+ * Anything with a parse() method that throws on invalid input:
+ * a Decoder from ./decoders, or a schema from a validation library such as zod
+ */
+export interface ResponseSchema<T> {
+  parse(value: unknown): T;
+}
+
+// MARK: - Request Options
+export interface RequestOptions<T = any> {
+  /** Override the instance retry policy, or `false` to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Don't attempt a token refresh on 401 (use for the refresh call itself) */
+  skipAuthRefresh?: boolean;
+  /** How GET requests use the response cache (only when a cache is configured) */
+  cachePolicy?: CachePolicy;
+  /** Called with fresh data when a background revalidation returns changed data */
+  onCacheUpdate?: (data: any) => void;
+  /** Called with the successful response (status and headers, e.g. Link) before its body is decoded */
+  onResponse?: (response: Response) => void;
+  /** Cancels the request (combined with the instance timeout) */
+  signal?: AbortSignal;
+  /** Share an identical in-flight GET instead of sending a new one (default: true) */
+  dedupe?: boolean;
+  /** Idempotency-Key for a POST, e.g. one persisted to survive app restarts (default: generated) */
+  idempotencyKey?: string;
+  /** Query parameters appended to the endpoint */
+  params?: QueryParams;
+  /** How arrays in params are encoded (default: 'repeat') */
+  arrayFormat?: ArrayFormat;
+  /** Validates (and may transform) the decoded JSON; mismatches fail with DECODING_ERROR */
+  decoder?: ResponseSchema<T>;
+  /** How the response body is returned (default: 'json') */
+  responseType?: ResponseType;
+  /** Content-Type for raw binary bodies (default: 'application/octet-stream') */
+  contentType?: string;
+  /** Upload progress (switches the default transport to XMLHttpRequest) */
+  onUploadProgress?: ProgressCallback;
+  /** Download progress (switches the default transport to XMLHttpRequest) */
+  onDownloadProgress?: ProgressCallback;
+}
+
+// MARK: - Stream Options
+export interface StreamOptions<T = any> extends Pick<
+  RequestOptions<T>,
+  'signal' | 'params' | 'arrayFormat' | 'skipAuthRefresh' | 'decoder'
+> {
+  /** HTTP method (default: GET) */
+  method?: HTTPMethod;
+  /** Request body, sent as JSON */
+  body?: unknown;
+  /** Reconnect Server-Sent Event streams when the connection drops or ends (default: true) */
+  reconnect?: boolean;
+  /** Delay before reconnecting in milliseconds, unless the server sends `retry:` (default: 3000) */
+  reconnectDelay?: number;
+  /** Maximum consecutive reconnects without receiving an event (default: unlimited) */
+  maxReconnects?: number;
+  /** Resume a Server-Sent Event stream after this event id */
+  lastEventId?: string;
+}
+
+const defaultReconnectDelay = 3000; // 3 seconds
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+// Metrics collected while a call is in progress
+type RequestTrace = Pick<
+  RequestMetrics,
+  'status' | 'timeToFirstByte' | 'dnsDuration' | 'connectDuration' | 'requestSize' | 'responseSize' | 'retryCount' | 'fromCache'
+>;
+
+// MARK: - Client Configuration
+export interface APIServiceConfig {
+  /** Base URL for all requests (e.g. "https://analytics.example.com") */
+  baseURL?: string;
+  /** Request timeout in milliseconds (default: 30000) */
+  timeout?: number;
+  bearerToken?: string;
+  apiKey?: string;
+  /** Refreshes the bearer token on 401 (see setTokenRefreshHandler) */
+  tokenRefreshHandler?: TokenRefreshHandler;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Transport (default: a new FetchTransport) */
+  transport?: APITransport;
+  responseCache?: ResponseCache;
+  /** Recent request history (default: recorded in development builds) */
+  requestHistory?: RequestHistory;
+  /** Records traffic as a HAR archive */
+  harRecorder?: HarRecorder;
+  /** Fails requests fast while a host keeps failing */
+  circuitBreaker?: CircuitBreaker;
+  /** Client-side rate limits for endpoints with strict quotas */
+  rateLimiter?: RateLimiter;
+  /** Receives a timing/size record for every call */
+  metricsSink?: MetricsSink;
+  /** Signs every request (see setRequestSigner) */
+  requestSigner?: RequestSigner;
+  /** Add an Idempotency-Key header to POST requests (default: true) */
+  idempotencyKeys?: boolean;
+  /** Request/response logging (default: false) */
+  logging?: boolean;
+  /** What to mask in logs (see setLogRedaction) */
+  logRedaction?: Partial<LogRedactionOptions>;
+  /** Hosts allowed over plain HTTP in development builds (see allowInsecureHosts) */
+  insecureHosts?: string[];
+}
+
 // MARK: - Empty Response Helper
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
 export interface EmptyResponse {}
 
 // MARK: - API Service
 export class APIService {
-  public static readonly shared = new APIService();
+  private static readonly clients = new Map<string, APIService>();
+  public static readonly shared = APIService.create('default');
+
+  /** Name the client was created with ('default' for APIService.shared) */
+  readonly name: string;
 
   // MARK: - Configuration Properties
   private baseURL: string = '';
@@ -123,11 +787,103 @@ export class APIService {
   private apiKey?: string;
   private commonHeaders: Record<string, string> = {};
   private isLoggingEnabled: boolean = false;
+  private logRedaction: LogRedactionOptions = { ...defaultLogRedaction };
+  private insecureHosts = new Set<string>();
+  private retryPolicy: RetryPolicy = { ...defaultRetryPolicy };
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  private errorInterceptors: ErrorInterceptor[] = [];
+  private transport: APITransport = new FetchTransport();
+  private responseCache?: ResponseCache;
+  private requestHistory?: RequestHistory = __DEV__ ? new RequestHistory() : undefined;
+  private harRecorder?: HarRecorder;
+  private circuitBreaker?: CircuitBreaker;
+  private rateLimiter?: RateLimiter;
+  private metricsSink?: MetricsSink;
+  private requestSigner?: RequestSigner;
+  private isIdempotencyKeysEnabled: boolean = true;
+  private tokenRefreshHandler?: TokenRefreshHandler;
+  private tokenRefreshPromise?: Promise<string>;
+  private inFlightRequests = new Map<string, InFlightRequest>();
+
+  private constructor(name: string) {
+    this.name = name;
+  }
 
-  private constructor() {}
+  // MARK: - Client Factory
+
+  /**
+   * Create an independently configured client. Headers, authentication, interceptors,
+   * retry policy, transport and cache are never shared with other clients.
+   * @param name Unique client name, used to look the client up and in debug logs
+   * @param config Initial configuration (everything can be changed later with the setters)
+   * @returns The new client
+   */
+  static create(name: string, config: APIServiceConfig = {}): APIService {
+    if (APIService.clients.has(name)) {
+      throw new Error(`APIService client "${name}" already exists`);
+    }
+
+    const client = new APIService(name);
+    client.applyConfig(config);
+    APIService.clients.set(name, client);
+    return client;
+  }
+
+  /**
+   * Look up a client created with APIService.create
+   * @param name Client name ('default' returns APIService.shared)
+   * @returns The client, or undefined if no client has that name
+   */
+  static client(name: string): APIService | undefined {
+    return APIService.clients.get(name);
+  }
+
+  /**
+   * Names of all clients, including 'default'
+   */
+  static get clientNames(): string[] {
+    return Array.from(APIService.clients.keys());
+  }
+
+  /**
+   * Remove a named client so its name can be reused. In-flight requests are not cancelled.
+   * @param name Client name (the default client cannot be removed)
+   */
+  static removeClient(name: string): void {
+    if (name !== APIService.shared.name) {
+      APIService.clients.delete(name);
+    }
+  }
 
   // MARK: - Configuration Methods
 
+  /**
+   * Apply several configuration values at once; unspecified values are left unchanged
+   * @param config Values to apply
+   */
+  applyConfig(config: APIServiceConfig): void {
+    if (config.baseURL !== undefined) this.configure(config.baseURL);
+    if (config.timeout !== undefined) this.setTimeout(config.timeout);
+    if (config.bearerToken !== undefined) this.setBearerToken(config.bearerToken);
+    if (config.apiKey !== undefined) this.setAPIKey(config.apiKey);
+    if (config.tokenRefreshHandler) this.setTokenRefreshHandler(config.tokenRefreshHandler);
+    if (config.headers) this.setCommonHeaders({ ...config.headers });
+    if (config.retryPolicy) this.setRetryPolicy(config.retryPolicy);
+    if (config.transport) this.setTransport(config.transport);
+    if (config.responseCache) this.setResponseCache(config.responseCache);
+    if (config.requestHistory) this.setRequestHistory(config.requestHistory);
+    if (config.harRecorder) this.setHarRecorder(config.harRecorder);
+    if (config.circuitBreaker) this.setCircuitBreaker(config.circuitBreaker);
+    if (config.rateLimiter) this.setRateLimiter(config.rateLimiter);
+    if (config.metricsSink) this.setMetricsSink(config.metricsSink);
+    if (config.requestSigner) this.setRequestSigner(config.requestSigner);
+    if (config.idempotencyKeys !== undefined) this.enableIdempotencyKeys(config.idempotencyKeys);
+    if (config.logging !== undefined) this.enableLogging(config.logging);
+    if (config.logRedaction) this.setLogRedaction(config.logRedaction);
+    if (config.insecureHosts) this.allowInsecureHosts(config.insecureHosts);
+  }
+
   /**
    * Configure the base URL for all API calls
    * @param baseURL The base URL (e.g., "https://api.example.com")
@@ -139,6 +895,14 @@ export class APIService {
     }
   }
 
+  /**
+   * Get the configured base URL
+   * @returns The base URL without a trailing slash
+   */
+  getBaseURL(): string {
+    return this.baseURL;
+  }
+
   /**
    * Set request timeout in milliseconds
    * @param timeout Timeout in milliseconds (default: 30000)
@@ -155,6 +919,41 @@ export class APIService {
     this.bearerToken = token;
   }
 
+  /**
+   * Get the current bearer token (e.g. to authenticate a WebSocket with the same session)
+   * @returns The bearer token, if set
+   */
+  getBearerToken(): string | undefined {
+    return this.bearerToken;
+  }
+
+  /**
+   * Set the handler used to refresh the bearer token when a request fails with 401.
+   * Concurrent requests share a single refresh call and are replayed with the new token.
+   * @param handler Function returning the new access token, or undefined to disable refreshing
+   */
+  setTokenRefreshHandler(handler?: TokenRefreshHandler): void {
+    this.tokenRefreshHandler = handler;
+  }
+
+  /**
+   * Set the hook that signs each request, e.g. with an HMAC over method, path, timestamp and body.
+   * The signer sees the final request (after interceptors) and runs again for every retry.
+   * @param signer Request signer, or undefined to stop signing
+   */
+  setRequestSigner(signer?: RequestSigner): void {
+    this.requestSigner = signer;
+  }
+
+  /**
+   * Add a generated Idempotency-Key header to POST requests that don't already have one.
+   * The key stays the same across retries and token-refresh replays of the request.
+   * @param enabled Whether keys are added (default: true)
+   */
+  enableIdempotencyKeys(enabled: boolean): void {
+    this.isIdempotencyKeysEnabled = enabled;
+  }
+
   /**
    * Set API key for authentication
    * @param apiKey The API key
@@ -179,230 +978,1276 @@ export class APIService {
     this.isLoggingEnabled = enabled;
   }
 
-  // MARK: - HTTP Methods
-
   /**
-   * Perform GET request
-   * @param endpoint API endpoint (e.g., "/users")
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Set which headers, JSON fields and query parameters are masked in logs, and the body size limit
+   * @param options Values to override (unspecified values keep their defaults)
    */
-  async get<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithoutBody<T>(HTTPMethod.GET, endpoint, headers);
+  setLogRedaction(options: Partial<LogRedactionOptions>): void {
+    this.logRedaction = { ...defaultLogRedaction, ...options };
   }
 
-  // MARK: - POST Methods
-
   /**
-   * Perform POST request with body
-   * @param endpoint API endpoint
-   * @param body Request body object
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Allow plain http:// requests to specific hosts, e.g. a local mock server.
+   * Only honored in development builds; release builds always require HTTPS.
+   * @param hosts Host names, optionally with a port (e.g. 'localhost', '10.0.2.2:3000'); empty to disallow all
    */
-  async post<T, U = any>(endpoint: string, body: U, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithBody<T, U>(HTTPMethod.POST, endpoint, body, headers);
+  allowInsecureHosts(hosts: string[]): void {
+    if (!__DEV__ && hosts.length > 0) {
+      console.warn('⚠️ Insecure hosts are ignored in release builds');
+      return;
+    }
+    this.insecureHosts = new Set(hosts.map(host => host.toLowerCase()));
   }
 
   /**
-   * Perform POST request without body
-   * @param endpoint API endpoint
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Set the transport used to send requests (defaults to fetch)
+   * @param transport Transport implementation, e.g. a MockTransport for tests or demo mode
    */
-  async postEmpty<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithoutBody<T>(HTTPMethod.POST, endpoint, headers);
+  setTransport(transport: APITransport): void {
+    this.transport = transport;
   }
 
-  // MARK: - PUT Methods
-
   /**
-   * Perform PUT request with body
-   * @param endpoint API endpoint
-   * @param body Request body object
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Set the response cache used for GET requests
+   * @param cache Response cache, or undefined to disable caching
    */
-  async put<T, U = any>(endpoint: string, body: U, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithBody<T, U>(HTTPMethod.PUT, endpoint, body, headers);
+  setResponseCache(cache?: ResponseCache): void {
+    this.responseCache = cache;
   }
 
   /**
-   * Perform PUT request without body
-   * @param endpoint API endpoint
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Set where recent requests are recorded (recorded by default in development builds)
+   * @param history Request history, or undefined to stop recording
    */
-  async putEmpty<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithoutBody<T>(HTTPMethod.PUT, endpoint, headers);
+  setRequestHistory(history?: RequestHistory): void {
+    this.requestHistory = history;
   }
 
   /**
-   * Perform DELETE request
-   * @param endpoint API endpoint
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Get the recorded request history, e.g. for the Network Inspector
+   * @returns The request history, or undefined if recording is off
    */
-  async delete<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithoutBody<T>(HTTPMethod.DELETE, endpoint, headers);
+  getRequestHistory(): RequestHistory | undefined {
+    return this.requestHistory;
   }
 
-  // MARK: - PATCH Methods
-
   /**
-   * Perform PATCH request with body
-   * @param endpoint API endpoint
-   * @param body Request body object
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Start or stop recording traffic as a HAR archive
+   * @param recorder Recorder to add entries to, or undefined to stop recording
    */
-  async patch<T, U = any>(endpoint: string, body: U, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithBody<T, U>(HTTPMethod.PATCH, endpoint, body, headers);
+  setHarRecorder(recorder?: HarRecorder): void {
+    this.harRecorder = recorder;
   }
 
   /**
-   * Perform PATCH request without body
-   * @param endpoint API endpoint
-   * @param headers Optional additional headers
-   * @returns Decoded response object
+   * Get the active HAR recorder
+   * @returns The recorder, or undefined if not recording
    */
-  async patchEmpty<T>(endpoint: string, headers?: Record<string, string>): Promise<T> {
-    return this.requestWithoutBody<T>(HTTPMethod.PATCH, endpoint, headers);
+  getHarRecorder(): HarRecorder | undefined {
+    return this.harRecorder;
   }
 
-  // MARK: - Core Request Methods
-
   /**
-   * Core request method for requests with body
+   * Set the circuit breaker that fails requests fast (APIErrorType.CIRCUIT_OPEN) while a host keeps failing
+   * @param breaker Circuit breaker, or undefined to always send requests
    */
-  private async requestWithBody<T, U>(
-    method: HTTPMethod,
-    endpoint: string,
-    body: U,
-    headers?: Record<string, string>
-  ): Promise<T> {
-    // Validate base URL is configured
-    if (!this.baseURL) {
-      throw APIError.invalidURL();
-    }
+  setCircuitBreaker(breaker?: CircuitBreaker): void {
+    this.circuitBreaker = breaker;
+  }
 
-    // Create full URL
-    const fullURL = this.baseURL + endpoint;
-    try {
-      const url = new URL(fullURL);
-      
-      // Ensure HTTPS for security
-      if (url.protocol !== 'https:') {
-        throw APIError.invalidURL();
-      }
-    } catch {
-      throw APIError.invalidURL();
-    }
+  /**
+   * Get the circuit breaker, e.g. to listen for state changes
+   * @returns The circuit breaker, or undefined if none is set
+   */
+  getCircuitBreaker(): CircuitBreaker | undefined {
+    return this.circuitBreaker;
+  }
 
-    // Create request options
-    const requestOptions: RequestInit = {
-      method,
-      headers: this.buildHeaders(headers),
-      signal: AbortSignal.timeout(this.timeout),
-    };
+  /**
+   * Set the client-side rate limiter
+   * @param limiter Rate limiter, or undefined to disable rate limiting
+   */
+  setRateLimiter(limiter?: RateLimiter): void {
+    this.rateLimiter = limiter;
+  }
 
-    // Add body
-    try {
-      requestOptions.body = JSON.stringify(body);
-      (requestOptions.headers as Record<string, string>)['Content-Type'] = 'application/json';
-    } catch (error) {
-      throw APIError.encodingError(error as Error);
-    }
+  /**
+   * Get the rate limiter, e.g. to add rules
+   * @returns The rate limiter, or undefined if none is set
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.rateLimiter;
+  }
 
-    return this.performRequest<T>(fullURL, requestOptions);
+  /**
+   * Set where per-request metrics are sent
+   * @param sink Metrics sink (e.g. a MetricsAggregator), or undefined to stop collecting
+   */
+  setMetricsSink(sink?: MetricsSink): void {
+    this.metricsSink = sink;
   }
 
   /**
-   * Core request method for requests without body
+   * Remove all cached responses (e.g. when the signed-in user changes)
+   */
+  async clearResponseCache(): Promise<void> {
+    await this.responseCache?.clear();
+  }
+
+  /**
+   * Set the default retry policy for all requests
+   * @param policy Policy values to override (unspecified values keep their defaults)
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...defaultRetryPolicy, ...policy };
+  }
+
+  // MARK: - Interceptors
+
+  /**
+   * Add a request interceptor. Interceptors run in the order they were added
+   * @param interceptor Function that can rewrite the request or short-circuit it with a Response
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): void {
+    this.requestInterceptors.push(interceptor);
+  }
+
+  /**
+   * Remove a previously added request interceptor
+   * @param interceptor Interceptor to remove
+   */
+  removeRequestInterceptor(interceptor: RequestInterceptor): void {
+    this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+  }
+
+  /**
+   * Add a response interceptor. Interceptors run in the order they were added
+   * @param interceptor Function that can inspect or replace the response
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): void {
+    this.responseInterceptors.push(interceptor);
+  }
+
+  /**
+   * Remove a previously added response interceptor
+   * @param interceptor Interceptor to remove
+   */
+  removeResponseInterceptor(interceptor: ResponseInterceptor): void {
+    this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+  }
+
+  /**
+   * Add an error interceptor. Interceptors run in the order they were added
+   * @param interceptor Function that can replace the error or recover with a Response
+   */
+  addErrorInterceptor(interceptor: ErrorInterceptor): void {
+    this.errorInterceptors.push(interceptor);
+  }
+
+  /**
+   * Remove a previously added error interceptor
+   * @param interceptor Interceptor to remove
+   */
+  removeErrorInterceptor(interceptor: ErrorInterceptor): void {
+    this.errorInterceptors = this.errorInterceptors.filter(i => i !== interceptor);
+  }
+
+  /**
+   * Remove all request, response and error interceptors
+   */
+  clearInterceptors(): void {
+    this.requestInterceptors = [];
+    this.responseInterceptors = [];
+    this.errorInterceptors = [];
+  }
+
+  // MARK: - HTTP Methods
+
+  /**
+   * Perform GET request
+   * @param endpoint API endpoint (e.g., "/users")
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async get<T>(endpoint: string, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithoutBody<T>(HTTPMethod.GET, endpoint, headers, options);
+  }
+
+  // MARK: - POST Methods
+
+  /**
+   * Perform POST request with body
+   * @param endpoint API endpoint
+   * @param body Request body object
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async post<T, U = any>(endpoint: string, body: U, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithBody<T, U>(HTTPMethod.POST, endpoint, body, headers, options);
+  }
+
+  /**
+   * Perform POST request without body
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async postEmpty<T>(endpoint: string, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithoutBody<T>(HTTPMethod.POST, endpoint, headers, options);
+  }
+
+  // MARK: - PUT Methods
+
+  /**
+   * Perform PUT request with body
+   * @param endpoint API endpoint
+   * @param body Request body object
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async put<T, U = any>(endpoint: string, body: U, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithBody<T, U>(HTTPMethod.PUT, endpoint, body, headers, options);
+  }
+
+  /**
+   * Perform PUT request without body
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async putEmpty<T>(endpoint: string, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithoutBody<T>(HTTPMethod.PUT, endpoint, headers, options);
+  }
+
+  /**
+   * Perform DELETE request
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async delete<T>(endpoint: string, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithoutBody<T>(HTTPMethod.DELETE, endpoint, headers, options);
+  }
+
+  // MARK: - PATCH Methods
+
+  /**
+   * Perform PATCH request with body
+   * @param endpoint API endpoint
+   * @param body Request body object
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async patch<T, U = any>(endpoint: string, body: U, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithBody<T, U>(HTTPMethod.PATCH, endpoint, body, headers, options);
+  }
+
+  /**
+   * Perform PATCH request without body
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async patchEmpty<T>(endpoint: string, headers?: Record<string, string>, options?: RequestOptions<T>): Promise<T> {
+    return this.requestWithoutBody<T>(HTTPMethod.PATCH, endpoint, headers, options);
+  }
+
+  // MARK: - File Transfer
+
+  /**
+   * Upload multipart form data with POST
+   * @param endpoint API endpoint
+   * @param formData Form data (files can be appended as { uri, name, type } in React Native)
+   * @param headers Optional additional headers
+   * @param options Optional per-request options (e.g. onUploadProgress)
+   * @returns Decoded response object
+   */
+  async upload<T>(
+    endpoint: string,
+    formData: FormData,
+    headers?: Record<string, string>,
+    options?: RequestOptions<T>
+  ): Promise<T> {
+    return this.requestWithBody<T, FormData>(HTTPMethod.POST, endpoint, formData, headers, options);
+  }
+
+  /**
+   * Download a binary resource with GET
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional per-request options (e.g. onDownloadProgress)
+   * @returns The response body as a Blob
+   */
+  async download(
+    endpoint: string,
+    headers?: Record<string, string>,
+    options?: RequestOptions<Blob>
+  ): Promise<Blob> {
+    return this.requestWithoutBody<Blob>(HTTPMethod.GET, endpoint, headers, { ...options, responseType: 'blob' });
+  }
+
+  // MARK: - Generic Request
+
+  /**
+   * Perform a request with any HTTP method
+   * @param method HTTP method
+   * @param endpoint API endpoint
+   * @param body Optional request body object (omit for requests without body)
+   * @param headers Optional additional headers
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async request<T, U = any>(
+    method: HTTPMethod,
+    endpoint: string,
+    body?: U,
+    headers?: Record<string, string>,
+    options?: RequestOptions<T>
+  ): Promise<T> {
+    if (body === undefined) {
+      return this.requestWithoutBody<T>(method, endpoint, headers, options);
+    }
+    return this.requestWithBody<T, U>(method, endpoint, body, headers, options);
+  }
+
+  /**
+   * Call a typed endpoint declared with defineEndpoint
+   * @param endpoint Endpoint definition
+   * @param args Path parameters, plus `body` and `query` where the endpoint has them
+   * @param options Optional per-request options
+   * @returns Decoded response object
+   */
+  async call<TPath extends string, TResponse, TBody, TQuery extends QueryParams>(
+    endpoint: Endpoint<TPath, TResponse, TBody, TQuery>,
+    ...[args, options]: EndpointCallArguments<TPath, TResponse, TBody, TQuery>
+  ): Promise<TResponse> {
+    const { body, query, ...pathParams } = (args ?? {}) as { body?: TBody; query?: TQuery } & Record<string, string | number>;
+    const params = query || options?.params ? { ...query, ...options?.params } : undefined;
+
+    return this.request<TResponse, TBody>(
+      endpoint.method,
+      buildPath(endpoint.path, pathParams),
+      body,
+      undefined,
+      { ...options, params }
+    );
+  }
+
+  // MARK: - Streaming
+
+  /**
+   * Stream Server-Sent Events. Dropped connections are reconnected with the
+   * Last-Event-ID header; a 204 response or leaving the loop ends the stream.
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional stream options (method, body, signal, reconnect settings)
+   * @returns Async iterator of events
+   */
+  async *events(
+    endpoint: string,
+    headers?: Record<string, string>,
+    options: StreamOptions = {}
+  ): AsyncGenerator<ServerSentEvent> {
+    const shouldReconnect = options.reconnect ?? true;
+    const maxReconnects = options.maxReconnects ?? Infinity;
+    let lastEventId = options.lastEventId;
+    let reconnectDelay = options.reconnectDelay ?? defaultReconnectDelay;
+    let reconnects = 0;
+    let hasRefreshedToken = false;
+
+    while (true) {
+      // Rebuilt per connection so reconnects pick up a refreshed token
+      const request = this.createStreamRequest(endpoint, headers, options, 'text/event-stream');
+      if (lastEventId) {
+        request.headers['Last-Event-ID'] = lastEventId;
+      }
+
+      const parser = new ServerSentEventParser();
+      let status = 0;
+      let lastError: APIError | undefined;
+      let delay = reconnectDelay;
+
+      try {
+        for await (const chunk of this.streamConnection(request, options, stream => { status = stream.status; })) {
+          for (const event of parser.push(chunk)) {
+            lastEventId = event.id ?? lastEventId;
+            reconnects = 0;
+            hasRefreshedToken = false;
+            yield event;
+          }
+          reconnectDelay = parser.retry ?? reconnectDelay;
+          delay = reconnectDelay;
+        }
+
+        // The server closed the stream; 204 means it should not be reopened
+        if (!shouldReconnect || status === 204) {
+          return;
+        }
+      } catch (error) {
+        const apiError = error as APIError;
+        if (!hasRefreshedToken && await this.refreshStreamToken(apiError, request, options)) {
+          hasRefreshedToken = true;
+          continue;
+        }
+
+        // Only connection failures, transient server errors and open circuits are worth reconnecting for
+        const isTransient = apiError.type === APIErrorType.NETWORK_ERROR ||
+          apiError.type === APIErrorType.CIRCUIT_OPEN ||
+          (apiError.statusCode !== undefined && this.retryPolicy.retryableStatusCodes.includes(apiError.statusCode));
+        if (!shouldReconnect || !isTransient) {
+          throw apiError;
+        }
+        lastError = apiError;
+        delay = Math.max(reconnectDelay, apiError.retryAfter ?? 0);
+      }
+
+      if (reconnects >= maxReconnects) {
+        if (lastError) {
+          throw lastError;
+        }
+        return;
+      }
+      reconnects++;
+
+      if (this.isLoggingEnabled) {
+        console.log(`🔁 Reconnecting stream ${this.loggableURL(request.url)} in ${delay}ms`);
+      }
+      await sleep(delay, options.signal);
+    }
+  }
+
+  /**
+   * Stream newline-delimited JSON, yielding each line as it arrives
+   * @param endpoint API endpoint
+   * @param headers Optional additional headers
+   * @param options Optional stream options (method, body, signal, decoder for each line)
+   * @returns Async iterator of decoded lines
+   */
+  async *ndjson<T = unknown>(
+    endpoint: string,
+    headers?: Record<string, string>,
+    options: StreamOptions<T> = {}
+  ): AsyncGenerator<T> {
+    let hasRefreshedToken = false;
+
+    while (true) {
+      const request = this.createStreamRequest(endpoint, headers, options, 'application/x-ndjson');
+      const parser = new NDJSONParser();
+
+      try {
+        for await (const chunk of this.streamConnection(request, options)) {
+          yield* this.decodeLines<T>(() => parser.push(chunk), options);
+        }
+        yield* this.decodeLines<T>(() => parser.flush(), options);
+        return;
+      } catch (error) {
+        const apiError = error as APIError;
+        if (!hasRefreshedToken && await this.refreshStreamToken(apiError, request, options)) {
+          hasRefreshedToken = true;
+          continue;
+        }
+        throw apiError;
+      }
+    }
+  }
+
+  // MARK: - Core Request Methods
+
+  /**
+   * Core request method for requests with body
+   */
+  private async requestWithBody<T, U>(
+    method: HTTPMethod,
+    endpoint: string,
+    body: U,
+    headers?: Record<string, string>,
+    options?: RequestOptions
+  ): Promise<T> {
+    const request = this.createRequest(method, endpoint, headers, options);
+
+    // Add body: FormData and binary data are sent as-is, everything else as JSON
+    if (typeof FormData !== 'undefined' && body instanceof FormData) {
+      // fetch sets the multipart Content-Type including the boundary
+      request.body = body;
+    } else if (isBinaryBody(body)) {
+      request.body = body as BodyInit;
+      request.headers['Content-Type'] = options?.contentType ?? 'application/octet-stream';
+    } else {
+      try {
+        request.body = JSON.stringify(body);
+        request.headers['Content-Type'] = 'application/json';
+      } catch (error) {
+        throw APIError.encodingError(error as Error);
+      }
+    }
+
+    return this.performRequest<T>(request, options);
+  }
+
+  /**
+   * Core request method for requests without body
    */
   private async requestWithoutBody<T>(
     method: HTTPMethod,
     endpoint: string,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    options?: RequestOptions
   ): Promise<T> {
-    // Validate base URL is configured
-    if (!this.baseURL) {
-      throw APIError.invalidURL();
+    const request = this.createRequest(method, endpoint, headers, options);
+    return this.performRequest<T>(request, options);
+  }
+
+  private createRequest(
+    method: HTTPMethod,
+    endpoint: string,
+    headers?: Record<string, string>,
+    options?: RequestOptions
+  ): APIRequest {
+    const request: APIRequest = {
+      method,
+      url: this.buildURL(endpoint, options),
+      headers: this.buildHeaders(headers),
+      responseType: options?.responseType,
+      onUploadProgress: options?.onUploadProgress,
+      onDownloadProgress: options?.onDownloadProgress,
+    };
+
+    // Generated once per call, so every retry of this request carries the same key
+    const hasKey = Object.keys(request.headers).some(name => name.toLowerCase() === idempotencyKeyHeader.toLowerCase());
+    if (method === HTTPMethod.POST && !hasKey && (options?.idempotencyKey || this.isIdempotencyKeysEnabled)) {
+      request.headers[idempotencyKeyHeader] = options?.idempotencyKey ?? randomUUID();
+    }
+
+    return request;
+  }
+
+  /**
+   * Performs the request and validates the response with the caller's decoder
+   */
+  private async performRequest<T>(request: APIRequest, requestOptions?: RequestOptions): Promise<T> {
+    const decoder = requestOptions?.decoder;
+    if (!decoder) {
+      return this.performUndecodedRequest<T>(request, requestOptions);
+    }
+
+    // Decode per caller, so shared and cached responses are validated by each caller's decoder
+    const onCacheUpdate = requestOptions.onCacheUpdate;
+    const data = await this.performUndecodedRequest<unknown>(request, {
+      ...requestOptions,
+      onCacheUpdate: onCacheUpdate && (fresh => {
+        try {
+          onCacheUpdate(decoder.parse(fresh));
+        } catch (error) {
+          if (this.isLoggingEnabled) {
+            console.log(`❌ Discarding revalidated response for ${this.loggableURL(request.url)}: ${error}`);
+          }
+        }
+      }),
+    });
+
+    try {
+      return decoder.parse(data) as T;
+    } catch (error) {
+      throw APIError.decodingError(error as Error);
+    }
+  }
+
+  private async performUndecodedRequest<T>(request: APIRequest, requestOptions?: RequestOptions): Promise<T> {
+    if (requestOptions?.signal?.aborted) {
+      throw APIError.cancelled();
+    }
+
+    // Collapse identical concurrent GETs (callbacks are per caller, so those requests are never shared)
+    if (request.method === HTTPMethod.GET && requestOptions?.dedupe !== false &&
+        !requestOptions?.onCacheUpdate && !requestOptions?.onResponse) {
+      return this.performDeduplicatedRequest<T>(request, requestOptions);
     }
 
-    // Create full URL
-    const fullURL = this.baseURL + endpoint;
-    try {
-      const url = new URL(fullURL);
-      
-      // Ensure HTTPS for security
-      if (url.protocol !== 'https:') {
-        throw APIError.invalidURL();
+    return this.performUniqueRequest<T>(request, requestOptions);
+  }
+
+  /**
+   * Shares one in-flight request between identical GETs. The shared request is only
+   * aborted once every caller has cancelled.
+   */
+  private performDeduplicatedRequest<T>(request: APIRequest, requestOptions?: RequestOptions): Promise<T> {
+    const key = `${request.url}|${requestOptions?.cachePolicy ?? 'default'}|${JSON.stringify(request.headers)}`;
+
+    let inFlight = this.inFlightRequests.get(key);
+    if (!inFlight) {
+      const controller = new AbortController();
+      const promise: Promise<unknown> = this.performUniqueRequest(request, { ...requestOptions, signal: controller.signal })
+        .finally(() => {
+          if (this.inFlightRequests.get(key)?.promise === promise) {
+            this.inFlightRequests.delete(key);
+          }
+        });
+      inFlight = { promise, controller, subscribers: 0 };
+      this.inFlightRequests.set(key, inFlight);
+    } else if (this.isLoggingEnabled) {
+      console.log(`🔗 Joining in-flight request ${this.loggableURL(request.url)}`);
+    }
+
+    const shared = inFlight;
+    shared.subscribers++;
+
+    const signal = requestOptions?.signal;
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(APIError.cancelled());
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          // Remove it right away, so no new caller joins a request that is being cancelled
+          if (this.inFlightRequests.get(key) === shared) {
+            this.inFlightRequests.delete(key);
+          }
+          abortWith(shared.controller, APIError.cancelled());
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      (shared.promise as Promise<T>).then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  /**
+   * Performs a request that is not shared with other callers
+   */
+  private async performUniqueRequest<T>(request: APIRequest, requestOptions?: RequestOptions): Promise<T> {
+    const cache = this.responseCache;
+    return this.measure(request, trace =>
+      cache && request.method === HTTPMethod.GET && !isBinaryResponseType(request.responseType)
+        ? this.performCachedRequest<T>(cache, request, requestOptions, trace)
+        : this.performWithRetry<T>(request, requestOptions, undefined, trace)
+    );
+  }
+
+  /**
+   * Runs a call and sends its metrics record to the metrics sink
+   */
+  private async measure<T>(request: APIRequest, perform: (trace?: RequestTrace) => Promise<T>): Promise<T> {
+    const sink = this.metricsSink;
+    if (!sink) {
+      return perform();
+    }
+
+    const trace: RequestTrace = { retryCount: 0, fromCache: false };
+    const startedAt = Date.now();
+    let errorType: APIErrorType | undefined;
+    try {
+      return await perform(trace);
+    } catch (error) {
+      errorType = error instanceof APIError ? error.type : APIErrorType.NETWORK_ERROR;
+      throw error;
+    } finally {
+      try {
+        sink.record({
+          ...trace,
+          client: this.name,
+          method: request.method,
+          url: this.loggableURL(request.url),
+          endpoint: endpointTemplate(request.url),
+          errorType,
+          startedAt,
+          duration: Date.now() - startedAt,
+        });
+      } catch (error) {
+        // A broken sink must never fail the request
+        if (this.isLoggingEnabled) {
+          console.log(`❌ Metrics sink failed: ${error}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Serves GET requests from the response cache according to the cache policy
+   */
+  private async performCachedRequest<T>(
+    cache: ResponseCache,
+    request: APIRequest,
+    requestOptions?: RequestOptions,
+    trace?: RequestTrace
+  ): Promise<T> {
+    const cachePolicy = requestOptions?.cachePolicy ?? 'default';
+    const entry = cachePolicy === 'network-only' ? null : await cache.get(request.url);
+
+    if (!entry) {
+      return this.performWithRetry<T>(request, requestOptions, undefined, trace);
+    }
+
+    if (cachePolicy === 'cache-first' || (cachePolicy === 'default' && cache.isFresh(entry))) {
+      this.traceCacheHit(trace, entry);
+      return this.parseResponse<T>(cache.toResponse(entry), request.responseType, requestOptions?.onResponse);
+    }
+
+    if (cachePolicy === 'cache-and-network' || cache.isWithinStaleWhileRevalidate(entry)) {
+      this.revalidateInBackground(cache, request, requestOptions, entry);
+      this.traceCacheHit(trace, entry);
+      return this.parseResponse<T>(cache.toResponse(entry), request.responseType, requestOptions?.onResponse);
+    }
+
+    // Stale: revalidate before answering (a 304 is served from the cache)
+    Object.assign(request.headers, cache.conditionalHeaders(entry));
+    return this.performWithRetry<T>(request, requestOptions, entry, trace);
+  }
+
+  private traceCacheHit(trace: RequestTrace | undefined, entry: CachedResponse): void {
+    if (trace) {
+      trace.fromCache = true;
+      trace.status = entry.status;
+      trace.responseSize = utf8Encode(entry.body).length;
+    }
+  }
+
+  private revalidateInBackground(
+    cache: ResponseCache,
+    request: APIRequest,
+    requestOptions: RequestOptions | undefined,
+    entry: CachedResponse
+  ): void {
+    const revalidationRequest = {
+      ...request,
+      headers: { ...request.headers, ...cache.conditionalHeaders(entry) },
+    };
+
+    // The caller already received the cached response
+    this.measure(revalidationRequest, trace =>
+      this.performWithRetry(revalidationRequest, { ...requestOptions, onResponse: undefined }, entry, trace)
+    )
+      .then(async data => {
+        // Only notify when the server returned new data
+        const updated = await cache.get(request.url);
+        if (updated && updated.body !== entry.body) {
+          requestOptions?.onCacheUpdate?.(data);
+        }
+      })
+      .catch(error => {
+        if (this.isLoggingEnabled) {
+          console.log(`❌ Background revalidation failed for ${this.loggableURL(request.url)}: ${error}`);
+        }
+      });
+  }
+
+  /**
+   * Performs the request, retrying transient failures according to the retry policy
+   */
+  private async performWithRetry<T>(
+    request: APIRequest,
+    requestOptions?: RequestOptions,
+    cacheEntry?: CachedResponse,
+    trace?: RequestTrace
+  ): Promise<T> {
+    const policy = this.resolveRetryPolicy(requestOptions);
+    let attempt = 1;
+    let hasRefreshedToken = false;
+
+    while (true) {
+      const attemptSignal = combineSignals(this.timeout, requestOptions?.signal);
+      try {
+        // Each attempt gets its own copy so interceptors never see a previous attempt's changes
+        return await this.executeRequest<T>(
+          { ...request, headers: { ...request.headers } },
+          attemptSignal.signal,
+          cacheEntry,
+          requestOptions?.onResponse,
+          trace
+        );
+      } catch (error) {
+        // Refresh the access token once per request and replay it (not counted as a retry)
+        if (!hasRefreshedToken && this.shouldRefreshToken(error as APIError, request, requestOptions)) {
+          hasRefreshedToken = true;
+          const token = await this.refreshAccessToken(request);
+          if (!token) {
+            throw error;
+          }
+          request.headers['Authorization'] = `Bearer ${token}`;
+          continue;
+        }
+
+        const delay = this.retryDelay(error as APIError, request.method, attempt, policy);
+        if (delay === null) {
+          throw error;
+        }
+
+        if (this.isLoggingEnabled) {
+          console.log(`🔁 Retrying ${request.method} ${this.loggableURL(request.url)} in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+        }
+
+        await sleep(delay, requestOptions?.signal);
+        attempt++;
+        if (trace) trace.retryCount++;
+      } finally {
+        attemptSignal.dispose();
+      }
+    }
+  }
+
+  /**
+   * Performs a single request attempt through the interceptor chain and handles response
+   */
+  private async executeRequest<T>(
+    request: APIRequest,
+    signal: AbortSignal,
+    cacheEntry?: CachedResponse,
+    onResponse?: (response: Response) => void,
+    trace?: RequestTrace
+  ): Promise<T> {
+    try {
+      const response = await this.sendRequest(request, signal, cacheEntry, trace);
+      return await this.parseResponse<T>(response, request.responseType, onResponse);
+    } catch (error) {
+      const apiError = error instanceof APIError
+        ? error
+        // An aborted attempt was either cancelled by the caller or timed out
+        : signal.aborted
+          ? abortError(signal)
+          : APIError.networkError(error);
+      const recoveredResponse = await this.runErrorInterceptors(apiError, request);
+      return this.parseResponse<T>(recoveredResponse, request.responseType, onResponse);
+    }
+  }
+
+  /**
+   * Runs request interceptors, sends the request and runs response interceptors
+   */
+  private async sendRequest(
+    request: APIRequest,
+    signal: AbortSignal,
+    cacheEntry?: CachedResponse,
+    trace?: RequestTrace
+  ): Promise<Response> {
+    let finalRequest = request;
+    let response: Response | undefined;
+
+    for (const interceptor of this.requestInterceptors) {
+      const result = await interceptor(finalRequest);
+      if (result instanceof Response) {
+        // Short-circuit: skip the network entirely
+        response = result;
+        break;
+      }
+      finalRequest = result;
+    }
+
+    if (!response) {
+      finalRequest = await this.admitRequest(finalRequest, signal);
+      const host = requestHost(finalRequest.url);
+      const breaker = this.circuitBreaker;
+
+      // Log request if enabled
+      if (this.isLoggingEnabled) {
+        this.logRequest(finalRequest);
+      }
+
+      // Record in the request history (the Network Inspector) and the HAR recording
+      const history = this.requestHistory;
+      const harRecorder = this.harRecorder;
+      const historyId = history?.startRequest(finalRequest, this.logRedaction) ?? '';
+      const harId = harRecorder?.startRequest(finalRequest) ?? '';
+      const sentAt = Date.now();
+      try {
+        response = await this.transport.send(finalRequest, signal);
+      } catch (error) {
+        const failure = signal.aborted ? abortError(signal) : error;
+        history?.failRequest(historyId, failure);
+        harRecorder?.failRequest(harId, failure);
+        if (trace) trace.status = undefined;
+        // Caller cancellation says nothing about the host; timeouts and network errors do
+        if (isCancellation(signal)) {
+          breaker?.recordCancellation(host);
+        } else {
+          breaker?.recordFailure(host);
+        }
+        throw error;
+      }
+      if (breaker?.isFailureStatus(response.status)) {
+        breaker.recordFailure(host);
+      } else {
+        breaker?.recordSuccess(host);
+      }
+      if (trace) {
+        await this.traceResponse(trace, finalRequest, response, Date.now() - sentAt);
+      }
+      await history?.completeRequest(historyId, response, finalRequest.responseType, this.logRedaction);
+      await harRecorder?.completeRequest(harId, response, finalRequest.responseType);
+
+      // Store the response, or swap a 304 for the cached response
+      if (this.responseCache && finalRequest.method === HTTPMethod.GET && !isBinaryResponseType(finalRequest.responseType)) {
+        response = await this.responseCache.handleResponse(request.url, response, cacheEntry);
       }
-    } catch {
-      throw APIError.invalidURL();
+    } else if (trace) {
+      trace.status = response.status;
     }
 
-    // Create request options
-    const requestOptions: RequestInit = {
-      method,
-      headers: this.buildHeaders(headers),
-      signal: AbortSignal.timeout(this.timeout),
-    };
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, finalRequest);
+    }
+
+    // Log response if enabled
+    if (this.isLoggingEnabled) {
+      await this.logResponse(response.clone(), finalRequest);
+    }
 
-    return this.performRequest<T>(fullURL, requestOptions);
+    return response;
   }
 
   /**
-   * Performs the actual network request and handles response
+   * Client-side traffic control and signing, run on every request right before it is sent:
+   * waits for the rate limiter, fails fast if the host's circuit is open, then signs the request
+   * @returns The request to send
    */
-  private async performRequest<T>(url: string, options: RequestInit): Promise<T> {
-    // Log request if enabled
-    if (this.isLoggingEnabled) {
-      this.logRequest(url, options);
+  private async admitRequest(request: APIRequest, signal: AbortSignal): Promise<APIRequest> {
+    await this.waitForRateLimit(request, signal);
+    const host = requestHost(request.url);
+    const breaker = this.circuitBreaker;
+    if (breaker && !breaker.allowRequest(host)) {
+      if (this.isLoggingEnabled) {
+        console.log(`⛔ Circuit open for ${host}, failing ${request.method} ${this.loggableURL(request.url)}`);
+      }
+      throw APIError.circuitOpen(host, breaker.retryAfter(host));
     }
 
+    // Sign last, so the signature covers the exact request that is sent
+    return this.requestSigner ? this.signRequest(this.requestSigner, request, host) : request;
+  }
+
+  /**
+   * Adds the signer's headers to the request. A failing signer fails the attempt with ENCODING_ERROR
+   */
+  private async signRequest(signer: RequestSigner, request: APIRequest, host: string): Promise<APIRequest> {
     try {
-      const response = await fetch(url, options);
+      const headers = await signer(request);
+      return { ...request, headers: { ...request.headers, ...headers } };
+    } catch (error) {
+      // The trial slot was taken for a request that is never sent
+      this.circuitBreaker?.recordCancellation(host);
+      throw error instanceof APIError ? error : APIError.encodingError(error as Error);
+    }
+  }
 
-      // Log response if enabled
+  /**
+   * Records the network response of an attempt in the call's metrics
+   */
+  private async traceResponse(trace: RequestTrace, request: APIRequest, response: Response, timeToFirstByte: number): Promise<void> {
+    trace.status = response.status;
+    trace.fromCache = response.status === 304;
+    trace.timeToFirstByte = timeToFirstByte;
+    trace.requestSize = bodySize(request.body);
+    Object.assign(trace, networkTimings(request.url));
+
+    const contentLength = Number(response.headers.get('Content-Length') ?? NaN);
+    if (!isNaN(contentLength)) {
+      trace.responseSize = contentLength;
+    } else if (!isBinaryResponseType(request.responseType)) {
+      try {
+        trace.responseSize = utf8Encode(await response.clone().text()).length;
+      } catch {
+        trace.responseSize = undefined;
+      }
+    }
+  }
+
+  /**
+   * Takes a token from the matching rate limit rules, waiting for one if needed
+   */
+  private async waitForRateLimit(request: APIRequest, signal: AbortSignal): Promise<void> {
+    const reservation = this.rateLimiter?.reserve(request.method, request.url);
+    if (!reservation) {
+      return;
+    }
+
+    if (!reservation.allowed) {
+      throw APIError.clientRateLimited(reservation.retryAfter);
+    }
+
+    if (reservation.delay > 0) {
       if (this.isLoggingEnabled) {
-        await this.logResponse(response.clone());
+        console.log(`⏳ Rate limited: waiting ${reservation.delay}ms before ${request.method} ${this.loggableURL(request.url)}`);
+      }
+      try {
+        await sleep(reservation.delay, signal);
+      } catch (error) {
+        reservation.cancel();
+        // Keep the abort reason so timeouts aren't reported as cancellations
+        throw signal.aborted ? abortError(signal) : error;
       }
+    }
+  }
 
-      // Handle HTTP status codes
-      this.handleHTTPStatusCode(response.status);
+  /**
+   * Runs error interceptors in order. Returns a response if an interceptor recovered, throws otherwise
+   */
+  private async runErrorInterceptors(error: APIError, request: APIRequest): Promise<Response> {
+    let currentError = error;
 
-      // Handle empty responses for certain status codes
-      if (response.status === 204 || !response.body) {
-        return {} as T;
+    for (const interceptor of this.errorInterceptors) {
+      const result = await interceptor(currentError, request);
+      if (result instanceof Response) {
+        return result;
       }
+      currentError = result;
+    }
 
-      // Get response text
-      const responseText = await response.text();
+    throw currentError;
+  }
 
-      // If empty response, return empty object
-      if (!responseText.trim()) {
-        return {} as T;
+  /**
+   * Validates the status code and decodes the JSON body
+   */
+  private async parseResponse<T>(
+    response: Response,
+    responseType: ResponseType = 'json',
+    onResponse?: (response: Response) => void
+  ): Promise<T> {
+    // Handle HTTP status codes
+    await this.handleHTTPStatusCode(response);
+    onResponse?.(response);
+
+    // Binary response modes
+    if (responseType === 'blob' || responseType === 'arraybuffer') {
+      try {
+        return (responseType === 'blob' ? await response.blob() : await response.arrayBuffer()) as T;
+      } catch (error) {
+        throw APIError.networkError(error as Error);
+      }
+    }
+
+    // Handle empty responses for certain status codes
+    if (response.status === 204) {
+      return (responseType === 'text' ? '' : {}) as T;
+    }
+
+    // Get response text
+    let responseText: string;
+    try {
+      responseText = await response.text();
+    } catch (error) {
+      throw APIError.networkError(error as Error);
+    }
+
+    if (responseType === 'text') {
+      return responseText as T;
+    }
+
+    // If empty response, return empty object
+    if (!responseText.trim()) {
+      return {} as T;
+    }
+
+    // Decode response
+    try {
+      return JSON.parse(responseText) as T;
+    } catch (error) {
+      throw APIError.decodingError(error as Error);
+    }
+  }
+
+  // MARK: - Core Streaming Methods
+
+  private createStreamRequest(
+    endpoint: string,
+    headers: Record<string, string> | undefined,
+    options: StreamOptions,
+    accept: string
+  ): APIRequest {
+    const request = this.createRequest(
+      options.method ?? HTTPMethod.GET,
+      endpoint,
+      { 'Accept': accept, 'Cache-Control': 'no-cache', ...headers },
+      options
+    );
+
+    if (options.body !== undefined) {
+      try {
+        request.body = JSON.stringify(options.body);
+        request.headers['Content-Type'] = 'application/json';
+      } catch (error) {
+        throw APIError.encodingError(error as Error);
       }
+    }
+
+    return request;
+  }
 
-      // Decode response
+  /**
+   * Opens one streaming connection and yields the body text as it arrives.
+   * The instance timeout only applies until the response headers arrive.
+   */
+  private async *streamConnection(
+    request: APIRequest,
+    options: StreamOptions,
+    onOpen?: (stream: StreamingResponse) => void
+  ): AsyncGenerator<string> {
+    if (options.signal?.aborted) {
+      throw APIError.cancelled();
+    }
+
+    const controller = new AbortController();
+    const onCancel = () => abortWith(controller, APIError.cancelled());
+    options.signal?.addEventListener('abort', onCancel, { once: true });
+    const connectTimer = setTimeout(
+      () => abortWith(controller, APIError.networkError(new Error('Stream connection timed out'))),
+      this.timeout
+    );
+
+    const toAPIError = (error: unknown): APIError => error instanceof APIError
+      ? error
+      : controller.signal.aborted
+        ? abortError(controller.signal)
+        : APIError.networkError(error);
+
+    try {
+      let stream: StreamingResponse;
       try {
-        return JSON.parse(responseText) as T;
+        stream = await this.openStream({ ...request, headers: { ...request.headers } }, controller.signal);
       } catch (error) {
-        throw APIError.decodingError(error as Error);
+        // Error interceptors may recover with a buffered response
+        stream = streamFromResponse(await this.runErrorInterceptors(toAPIError(error), request));
+      } finally {
+        clearTimeout(connectTimer);
+      }
+
+      onOpen?.(stream);
+      for await (const chunk of stream.chunks) {
+        yield chunk;
       }
     } catch (error) {
-      if (error instanceof APIError) {
+      throw toAPIError(error);
+    } finally {
+      options.signal?.removeEventListener('abort', onCancel);
+      // Closes the connection if the caller stopped iterating early
+      controller.abort();
+    }
+  }
+
+  /**
+   * Runs request interceptors, opens the stream and maps error statuses to APIErrors.
+   * Streams go through the same rate limiting, circuit breaker and signing as other requests.
+   */
+  private async openStream(request: APIRequest, signal: AbortSignal): Promise<StreamingResponse> {
+    let finalRequest = request;
+    let stream: StreamingResponse | undefined;
+
+    for (const interceptor of this.requestInterceptors) {
+      const result = await interceptor(finalRequest);
+      if (result instanceof Response) {
+        stream = streamFromResponse(result);
+        break;
+      }
+      finalRequest = result;
+    }
+
+    if (!stream) {
+      finalRequest = await this.admitRequest(finalRequest, signal);
+      const host = requestHost(finalRequest.url);
+      const breaker = this.circuitBreaker;
+
+      if (this.isLoggingEnabled) {
+        this.logRequest(finalRequest);
+      }
+
+      try {
+        stream = this.transport.stream
+          ? await this.transport.stream(finalRequest, signal)
+          : streamFromResponse(await this.transport.send(finalRequest, signal));
+      } catch (error) {
+        // Caller cancellation says nothing about the host; connect timeouts and network errors do
+        if (isCancellation(signal)) {
+          breaker?.recordCancellation(host);
+        } else {
+          breaker?.recordFailure(host);
+        }
         throw error;
+      }
+      if (breaker?.isFailureStatus(stream.status)) {
+        breaker.recordFailure(host);
       } else {
-        throw APIError.networkError(error as Error);
+        breaker?.recordSuccess(host);
+      }
+    }
+
+    if (this.isLoggingEnabled) {
+      console.log(`📡 Stream opened: ${stream.status} ${this.loggableURL(finalRequest.url)}`);
+    }
+
+    if (this.errorForStatusCode(new Response(null, { status: stream.status, headers: stream.headers }))) {
+      let body = '';
+      for await (const chunk of stream.chunks) {
+        body += chunk;
       }
+      await this.handleHTTPStatusCode(new Response(body || null, { status: stream.status, headers: stream.headers }));
+    }
+
+    return stream;
+  }
+
+  /**
+   * Parses lines with the NDJSON parser and validates them with the caller's decoder
+   */
+  private decodeLines<T>(parse: () => unknown[], options: StreamOptions<T>): T[] {
+    try {
+      return parse().map(value => (options.decoder ? options.decoder.parse(value) : value as T));
+    } catch (error) {
+      throw APIError.decodingError(error as Error);
+    }
+  }
+
+  /**
+   * Refreshes the access token after a 401 on a stream
+   * @returns Whether the stream should be reopened with the new token
+   */
+  private async refreshStreamToken(error: APIError, request: APIRequest, options: StreamOptions): Promise<boolean> {
+    if (!this.shouldRefreshToken(error, request, options)) {
+      return false;
     }
+    return (await this.refreshAccessToken(request)) !== null;
   }
 
   // MARK: - Helper Methods
 
+  private buildURL(endpoint: string, options?: RequestOptions): string {
+    // Validate base URL is configured
+    if (!this.baseURL) {
+      throw APIError.invalidURL();
+    }
+
+    // Create full URL
+    let fullURL = this.baseURL + endpoint;
+    if (options?.params) {
+      const queryString = buildQueryString(options.params, options.arrayFormat);
+      if (queryString) {
+        fullURL += (fullURL.includes('?') ? '&' : '?') + queryString;
+      }
+    }
+    try {
+      const url = new URL(fullURL);
+      
+      // Ensure HTTPS for security
+      if (url.protocol !== 'https:' && !this.isAllowedInsecureURL(url)) {
+        throw APIError.invalidURL();
+      }
+    } catch {
+      throw APIError.invalidURL();
+    }
+
+    return fullURL;
+  }
+
   private buildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
     const headers: Record<string, string> = {
       'Accept': 'application/json',
@@ -427,7 +2272,21 @@ export class APIService {
     return headers;
   }
 
-  private handleHTTPStatusCode(statusCode: number): void {
+  private async handleHTTPStatusCode(response: Response): Promise<void> {
+    const error = this.errorForStatusCode(response);
+    if (!error) {
+      return;
+    }
+
+    // Attach the server's error payload so callers can show its details
+    error.responseHeaders = Object.fromEntries(response.headers.entries());
+    error.requestId = requestIdHeaders.map(name => response.headers.get(name)).find(Boolean) ?? undefined;
+    error.responseBody = await this.readErrorBody(response);
+    throw error;
+  }
+
+  private errorForStatusCode(response: Response): APIError | null {
+    const statusCode = response.status;
     switch (statusCode) {
       case 200:
       case 201:
@@ -439,17 +2298,26 @@ export class APIService {
       case 207:
       case 208:
       case 226:
-        break; // Success
+        return null; // Success
+      case 400:
+        return APIError.badRequest();
       case 401:
-        throw APIError.unauthorized();
+        return APIError.unauthorized();
       case 403:
-        throw APIError.forbidden();
+        return APIError.forbidden();
       case 404:
-        throw APIError.notFound();
+        return APIError.notFound();
+      case 409:
+        return APIError.conflict();
+      case 422:
+        return APIError.validationFailed();
+      case 429:
+        return APIError.rateLimited(this.parseRetryAfter(response.headers.get('Retry-After')));
+      case 503:
+        return APIError.serverError(statusCode, this.parseRetryAfter(response.headers.get('Retry-After')));
       case 500:
       case 501:
       case 502:
-      case 503:
       case 504:
       case 505:
       case 506:
@@ -457,33 +2325,291 @@ export class APIService {
       case 508:
       case 510:
       case 511:
-        throw APIError.serverError(statusCode);
+        return APIError.serverError(statusCode);
       default:
-        throw APIError.serverError(statusCode);
+        return APIError.serverError(statusCode);
+    }
+  }
+
+  /**
+   * Reads an error response body, parsed as JSON when possible
+   */
+  private async readErrorBody(response: Response): Promise<unknown> {
+    try {
+      const responseText = await response.text();
+      if (!responseText.trim()) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(responseText);
+      } catch {
+        return responseText;
+      }
+    } catch {
+      return undefined;
+    }
+  }
+
+
+  private shouldRefreshToken(error: APIError, request: APIRequest, requestOptions?: RequestOptions): boolean {
+    return error.type === APIErrorType.UNAUTHORIZED &&
+      !!this.tokenRefreshHandler &&
+      !requestOptions?.skipAuthRefresh &&
+      !!request.headers['Authorization'];
+  }
+
+  /**
+   * Returns a fresh access token, sharing a single refresh call between concurrent requests.
+   * Returns null if the refresh failed.
+   */
+  private async refreshAccessToken(request: APIRequest): Promise<string | null> {
+    // Another request already refreshed the token after this one was sent
+    if (!this.tokenRefreshPromise && this.bearerToken &&
+        request.headers['Authorization'] !== `Bearer ${this.bearerToken}`) {
+      return this.bearerToken;
+    }
+
+    if (!this.tokenRefreshPromise) {
+      if (this.isLoggingEnabled) {
+        console.log('🔑 Access token expired, refreshing');
+      }
+
+      this.tokenRefreshPromise = this.tokenRefreshHandler!()
+        .then(token => {
+          this.bearerToken = token;
+          return token;
+        })
+        .finally(() => {
+          this.tokenRefreshPromise = undefined;
+        });
+    }
+
+    try {
+      return await this.tokenRefreshPromise;
+    } catch (error) {
+      if (this.isLoggingEnabled) {
+        console.log(`❌ Token refresh failed: ${error}`);
+      }
+      return null;
+    }
+  }
+
+  private resolveRetryPolicy(requestOptions?: RequestOptions): RetryPolicy {
+    if (requestOptions?.retry === false) {
+      return { ...this.retryPolicy, maxAttempts: 1 };
     }
+    return { ...this.retryPolicy, ...requestOptions?.retry };
   }
 
-  private logRequest(url: string, options: RequestInit): void {
-    console.log('🌐 API Request:');
-    console.log(`URL: ${url}`);
-    console.log(`Method: ${options.method || 'GET'}`);
-    console.log('Headers:', options.headers);
-    if (options.body) {
-      console.log('Body:', options.body);
+  /**
+   * Returns the delay before the next attempt, or null if the error should not be retried
+   */
+  private retryDelay(error: APIError, method: HTTPMethod, attempt: number, policy: RetryPolicy): number | null {
+    if (attempt >= policy.maxAttempts) {
+      return null;
+    }
+
+    if (!policy.retryNonIdempotent && !idempotentMethods.includes(method)) {
+      return null;
+    }
+
+    const isRetryable = error.type === APIErrorType.NETWORK_ERROR ||
+      (error.statusCode !== undefined && policy.retryableStatusCodes.includes(error.statusCode));
+    if (!isRetryable) {
+      return null;
+    }
+
+    if (policy.respectRetryAfter && error.retryAfter !== undefined) {
+      // Give up rather than block the caller longer than the policy allows
+      return error.retryAfter <= policy.maxDelay ? error.retryAfter : null;
+    }
+
+    // Exponential backoff with full jitter
+    const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+    return Math.round(Math.random() * backoff);
+  }
+
+  /**
+   * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private isAllowedInsecureURL(url: URL): boolean {
+    return (
+      __DEV__ &&
+      url.protocol === 'http:' &&
+      (this.insecureHosts.has(url.hostname.toLowerCase()) || this.insecureHosts.has(url.host.toLowerCase()))
+    );
+  }
+
+  private loggableURL(url: string): string {
+    return redactURL(url, this.logRedaction);
+  }
+
+  private get logLabel(): string {
+    return this.name === 'default' ? '' : ` [${this.name}]`;
+  }
+
+  private logRequest(request: APIRequest): void {
+    console.log(`🌐 API Request${this.logLabel}:`);
+    console.log(`URL: ${this.loggableURL(request.url)}`);
+    console.log(`Method: ${request.method}`);
+    console.log('Headers:', redactHeaders(request.headers, this.logRedaction));
+    if (typeof request.body === 'string') {
+      console.log('Body:', redactBody(request.body, this.logRedaction));
+    } else if (request.body) {
+      console.log('Body: [Binary or multipart]');
     }
     console.log('---');
   }
 
-  private async logResponse(response: Response): Promise<void> {
-    console.log('📡 API Response:');
+  private async logResponse(response: Response, request: APIRequest): Promise<void> {
+    console.log(`📡 API Response${this.logLabel}:`);
     console.log(`Status: ${response.status}`);
-    console.log('Headers:', Object.fromEntries(response.headers.entries()));
+    console.log('Headers:', redactHeaders(Object.fromEntries(response.headers.entries()), this.logRedaction));
+    if (isBinaryResponseType(request.responseType)) {
+      console.log('Body: [Binary]');
+      console.log('---');
+      return;
+    }
     try {
       const responseText = await response.text();
-      console.log('Body:', responseText);
+      console.log('Body:', redactBody(responseText, this.logRedaction));
     } catch {
       console.log('Body: [Unable to read]');
     }
     console.log('---');
   }
 }
+
+// MARK: - Idempotency Keys
+
+const idempotencyKeyHeader = 'Idempotency-Key';
+
+// MARK: - Body Helpers
+
+function isBinaryBody(body: unknown): boolean {
+  return (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body);
+}
+
+function isBinaryResponseType(responseType?: ResponseType): boolean {
+  return responseType === 'blob' || responseType === 'arraybuffer';
+}
+
+/**
+ * Size of a request body in bytes, if it can be known without reading it (not for FormData)
+ */
+function bodySize(body: APIRequest['body']): number | undefined {
+  if (typeof body === 'string') return utf8Encode(body).length;
+  if (typeof Blob !== 'undefined' && body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  return undefined;
+}
+
+// MARK: - URL Helpers
+
+/**
+ * Host (with port, if any) of an absolute URL, lowercased
+ */
+function requestHost(url: string): string {
+  return (/^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/i.exec(url)?.[1] ?? '').toLowerCase();
+}
+
+// MARK: - Signal Helpers
+
+/**
+ * Why each signal aborted. React Native replaces AbortController with a polyfill that
+ * ignores abort(reason), so signal.reason is undefined on device and can't tell a
+ * cancellation from a timeout.
+ */
+const abortReasons = new WeakMap<AbortSignal, APIError>();
+
+/**
+ * Aborts the controller, remembering the error its requests fail with (see abortError)
+ */
+function abortWith(controller: AbortController, error: APIError): void {
+  abortReasons.set(controller.signal, error);
+  controller.abort(error);
+}
+
+/**
+ * The error a request fails with when its signal aborts: the timeout's NETWORK_ERROR,
+ * otherwise APIError.cancelled(). Transports should reject with it on abort.
+ * @param signal An aborted signal
+ * @returns The APIError for the abort
+ */
+export function abortError(signal: AbortSignal): APIError {
+  return abortReasons.get(signal) ?? APIError.cancelled();
+}
+
+/**
+ * Whether the signal aborted because the caller cancelled (not a timeout)
+ */
+function isCancellation(signal: AbortSignal): boolean {
+  return signal.aborted && abortError(signal).type === APIErrorType.CANCELLED;
+}
+
+/**
+ * Combines the request timeout with the caller's signal, recording whether the attempt
+ * was cancelled or timed out (see abortError). Call dispose() once the attempt settles,
+ * so a long-lived caller signal doesn't keep a listener (and the attempt's controller)
+ * per finished attempt.
+ */
+function combineSignals(timeout: number, signal?: AbortSignal): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    abortWith(controller, APIError.cancelled());
+    return { signal: controller.signal, dispose: () => {} };
+  }
+
+  const onCancel = () => abortWith(controller, APIError.cancelled());
+  // A timer rather than AbortSignal.timeout, which React Native's polyfill doesn't have
+  const timer = setTimeout(
+    () => abortWith(controller, APIError.networkError(new Error(`Request timed out after ${timeout}ms`))),
+    timeout
+  );
+  signal?.addEventListener('abort', onCancel, { once: true });
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    },
+  };
+}
+
+/**
+ * Waits for the given time, rejecting with APIError.cancelled() if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(APIError.cancelled());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(APIError.cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
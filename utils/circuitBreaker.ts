@@ -0,0 +1,226 @@
+/*
+ * CIRCUIT BREAKER REFERENCE GUIDE
+ *
+ * Per-host circuit breaker for APIService. After repeated failures a host's
+ * circuit opens and requests to it fail immediately with
+ * APIErrorType.CIRCUIT_OPEN instead of adding load to a struggling backend.
+ * After a cooldown a trial request is let through (half-open): success closes
+ * the circuit, failure opens it again.
+ *
+ * Features:
+ * - Independent state per host
+ * - Configurable failure threshold, cooldown and trial request count
+ * - Network errors, timeouts and 5xx responses count as failures
+ * - State change events for "service degraded" UI
+ *
+ * Usage Examples:
+ * // Enable at app startup
+ * const breaker = new CircuitBreaker({ failureThreshold: 5, cooldown: 30000 });
+ * APIService.shared.setCircuitBreaker(breaker);
+ *
+ * // Show a banner while any host is degraded
+ * breaker.on('stateChanged', () => setShowDegradedBanner(breaker.degradedHosts.length > 0));
+ *
+ * // Fail fast in the UI
+ * try {
+ *   await APIService.shared.get('/feed');
+ * } catch (error) {
+ *   if (error instanceof APIError && error.type === APIErrorType.CIRCUIT_OPEN) {
+ *     showToast(`Service unavailable, retry in ${Math.ceil((error.retryAfter ?? 0) / 1000)}s`);
+ *   }
+ * }
+ *
+ * Events:
+ * - stateChanged (host: string, state: CircuitState, previousState: CircuitState)
+ *
+ * Notes:
+ * - 4xx responses count as successes: the host is up, the request was wrong
+ * - Cancelled requests don't count either way
+ */
+
+import { SimpleEventEmitter } from './eventEmitter';
+
+// MARK: - Circuit Types
+export enum CircuitState {
+  CLOSED = 'closed', // Requests flow normally
+  OPEN = 'open', // Requests fail fast until the cooldown ends
+  HALF_OPEN = 'half_open', // Trial requests decide whether to close or reopen
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Milliseconds an open circuit waits before allowing a trial request (default: 30000) */
+  cooldown?: number;
+  /** Trial requests allowed at once while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Response statuses that count as failures (default: 500, 502, 503, 504) */
+  failureStatusCodes?: number[];
+}
+
+interface HostCircuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  trialRequests: number;
+}
+
+// MARK: - Circuit Breaker
+export class CircuitBreaker extends SimpleEventEmitter {
+  private readonly failureThreshold: number;
+  private readonly cooldown: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly failureStatusCodes: number[];
+  private circuits = new Map<string, HostCircuit>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    super();
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldown = options.cooldown ?? 30000;
+    this.halfOpenMaxRequests = options.halfOpenMaxRequests ?? 1;
+    this.failureStatusCodes = options.failureStatusCodes ?? [500, 502, 503, 504];
+  }
+
+  // MARK: - Getters
+
+  /**
+   * Hosts whose circuit is open or half-open
+   */
+  get degradedHosts(): string[] {
+    return Array.from(this.circuits.entries())
+      .filter(([host]) => this.state(host) !== CircuitState.CLOSED)
+      .map(([host]) => host);
+  }
+
+  /**
+   * Current state of a host's circuit (an open circuit past its cooldown reports half-open)
+   * @param host Host name, e.g. 'api.example.com'
+   */
+  state(host: string): CircuitState {
+    const circuit = this.circuits.get(host);
+    if (!circuit) return CircuitState.CLOSED;
+    if (circuit.state === CircuitState.OPEN && Date.now() - circuit.openedAt >= this.cooldown) {
+      return CircuitState.HALF_OPEN;
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a trial request
+   * @param host Host name
+   */
+  retryAfter(host: string): number {
+    const circuit = this.circuits.get(host);
+    if (!circuit || circuit.state !== CircuitState.OPEN) return 0;
+    return Math.max(0, circuit.openedAt + this.cooldown - Date.now());
+  }
+
+  // MARK: - Request Lifecycle
+
+  /**
+   * Whether a request to the host may be sent. Every allowed request must be
+   * followed by recordSuccess, recordFailure or recordCancellation.
+   * @param host Host name
+   * @returns false if the request should fail fast
+   */
+  allowRequest(host: string): boolean {
+    const circuit = this.circuits.get(host);
+    if (!circuit || circuit.state === CircuitState.CLOSED) {
+      return true;
+    }
+
+    if (circuit.state === CircuitState.OPEN) {
+      if (Date.now() - circuit.openedAt < this.cooldown) {
+        return false;
+      }
+      this.transition(host, circuit, CircuitState.HALF_OPEN);
+    }
+
+    if (circuit.trialRequests >= this.halfOpenMaxRequests) {
+      return false;
+    }
+    circuit.trialRequests++;
+    return true;
+  }
+
+  /**
+   * Whether a response status counts as a host failure
+   * @param status HTTP status code
+   */
+  isFailureStatus(status: number): boolean {
+    return this.failureStatusCodes.includes(status);
+  }
+
+  /**
+   * Record a request that reached the host and got a healthy response
+   * @param host Host name
+   */
+  recordSuccess(host: string): void {
+    const circuit = this.circuits.get(host);
+    if (!circuit) return;
+
+    if (circuit.state === CircuitState.CLOSED) {
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+    this.circuits.delete(host);
+    this.emit('stateChanged', host, CircuitState.CLOSED, circuit.state);
+  }
+
+  /**
+   * Record a network error, timeout or failure status
+   * @param host Host name
+   */
+  recordFailure(host: string): void {
+    const circuit = this.circuits.get(host) ?? {
+      state: CircuitState.CLOSED,
+      consecutiveFailures: 0,
+      openedAt: 0,
+      trialRequests: 0,
+    };
+    this.circuits.set(host, circuit);
+    circuit.consecutiveFailures++;
+
+    if (circuit.state === CircuitState.HALF_OPEN || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      circuit.trialRequests = 0;
+      if (circuit.state !== CircuitState.OPEN) {
+        this.transition(host, circuit, CircuitState.OPEN);
+      }
+    }
+  }
+
+  /**
+   * Record a request that was cancelled before it had an outcome
+   * @param host Host name
+   */
+  recordCancellation(host: string): void {
+    const circuit = this.circuits.get(host);
+    if (circuit?.state === CircuitState.HALF_OPEN && circuit.trialRequests > 0) {
+      circuit.trialRequests--;
+    }
+  }
+
+  /**
+   * Close the circuit of one host, or of all hosts
+   * @param host Host name, or omit to reset every host
+   */
+  reset(host?: string): void {
+    const hosts = host ? [host] : Array.from(this.circuits.keys());
+    for (const name of hosts) {
+      const previousState = this.state(name);
+      this.circuits.delete(name);
+      if (previousState !== CircuitState.CLOSED) {
+        this.emit('stateChanged', name, CircuitState.CLOSED, previousState);
+      }
+    }
+  }
+
+  // MARK: - Private Methods
+
+  private transition(host: string, circuit: HostCircuit, state: CircuitState): void {
+    const previousState = circuit.state;
+    circuit.state = state;
+    this.emit('stateChanged', host, state, previousState);
+  }
+}
@@ -0,0 +1,208 @@
+/*
+ * DECODERS REFERENCE GUIDE
+ *
+ * Small runtime validation library for API responses. A decoder checks that
+ * unknown JSON matches the expected shape and can transform values on the way
+ * (e.g. ISO strings to Date). Mismatches throw a DecodeError with the path of
+ * the offending value, which APIService reports as APIErrorType.DECODING_ERROR.
+ *
+ * Features:
+ * - Primitive, literal, array, object, record and union decoders
+ * - Optional and nullable fields
+ * - Value transforms with map() (e.g. Decoders.isoDate)
+ * - Compatible with any schema exposing parse() (e.g. zod), so either can be
+ *   passed as APIService's `decoder` option
+ *
+ * Usage Examples:
+ * const UserDecoder = Decoders.object({
+ *   id: Decoders.string,
+ *   name: Decoders.string.optional(),
+ *   createdAt: Decoders.isoDate,
+ *   role: Decoders.oneOf(Decoders.literal('admin'), Decoders.literal('member')),
+ *   tags: Decoders.array(Decoders.string),
+ * });
+ * type User = DecodedType<typeof UserDecoder>;
+ *
+ * // Validate a response (fails with DECODING_ERROR at e.g. "$.createdAt")
+ * const user = await APIService.shared.get('/me', undefined, { decoder: UserDecoder });
+ *
+ * // Decode manually
+ * const users = Decoders.array(UserDecoder).parse(json);
+ */
+
+// MARK: - Decode Error
+export class DecodeError extends Error {
+  public path: string;
+  public expected: string;
+  public received: unknown;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Expected ${expected} at ${path}, received ${describe(received)}`);
+    this.name = 'DecodeError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// MARK: - Decoder
+export class Decoder<T> {
+  constructor(private readonly run: (value: unknown, path: string) => T) {}
+
+  /**
+   * Decode a value, throwing a DecodeError on mismatch
+   * @param value Unknown input (usually parsed JSON)
+   * @returns The decoded value
+   */
+  parse(value: unknown): T {
+    return this.run(value, '$');
+  }
+
+  /**
+   * Decode a value nested at the given path (used by composite decoders)
+   */
+  decodeAt(value: unknown, path: string): T {
+    return this.run(value, path);
+  }
+
+  /**
+   * Transform the decoded value
+   * @param transform Function applied after decoding succeeds
+   */
+  map<U>(transform: (value: T) => U): Decoder<U> {
+    return new Decoder((value, path) => transform(this.run(value, path)));
+  }
+
+  /**
+   * Also accept undefined (and a missing object key)
+   */
+  optional(): Decoder<T | undefined> {
+    return new Decoder((value, path) => (value === undefined ? undefined : this.run(value, path)));
+  }
+
+  /**
+   * Also accept null
+   */
+  nullable(): Decoder<T | null> {
+    return new Decoder((value, path) => (value === null ? null : this.run(value, path)));
+  }
+}
+
+export type DecodedType<D> = D extends Decoder<infer T> ? T : never;
+
+// MARK: - Built-in Decoders
+export namespace Decoders {
+  export const string = new Decoder<string>((value, path) => {
+    if (typeof value !== 'string') throw new DecodeError(path, 'string', value);
+    return value;
+  });
+
+  export const number = new Decoder<number>((value, path) => {
+    if (typeof value !== 'number' || isNaN(value)) throw new DecodeError(path, 'number', value);
+    return value;
+  });
+
+  export const boolean = new Decoder<boolean>((value, path) => {
+    if (typeof value !== 'boolean') throw new DecodeError(path, 'boolean', value);
+    return value;
+  });
+
+  export const unknown = new Decoder<unknown>(value => value);
+
+  /**
+   * ISO 8601 date string, decoded to a Date
+   */
+  export const isoDate = new Decoder<Date>((value, path) => {
+    const date = typeof value === 'string' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) throw new DecodeError(path, 'ISO date string', value);
+    return date;
+  });
+
+  /**
+   * Exactly the given value
+   */
+  export function literal<T extends string | number | boolean>(expected: T): Decoder<T> {
+    return new Decoder((value, path) => {
+      if (value !== expected) throw new DecodeError(path, JSON.stringify(expected), value);
+      return expected;
+    });
+  }
+
+  /**
+   * Array whose items all match the item decoder
+   */
+  export function array<T>(item: Decoder<T>): Decoder<T[]> {
+    return new Decoder((value, path) => {
+      if (!Array.isArray(value)) throw new DecodeError(path, 'array', value);
+      return value.map((element, index) => item.decodeAt(element, `${path}[${index}]`));
+    });
+  }
+
+  /**
+   * Object with the given fields. Unknown keys are dropped.
+   */
+  export function object<T extends Record<string, unknown>>(
+    fields: { [K in keyof T]: Decoder<T[K]> }
+  ): Decoder<T> {
+    return new Decoder((value, path) => {
+      if (!isPlainObject(value)) throw new DecodeError(path, 'object', value);
+
+      const result = {} as T;
+      for (const key of Object.keys(fields) as (keyof T & string)[]) {
+        const decoded = fields[key].decodeAt(value[key], `${path}.${key}`);
+        if (decoded !== undefined) {
+          result[key] = decoded;
+        }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Object used as a dictionary, with every value matching the value decoder
+   */
+  export function record<T>(valueDecoder: Decoder<T>): Decoder<Record<string, T>> {
+    return new Decoder((value, path) => {
+      if (!isPlainObject(value)) throw new DecodeError(path, 'object', value);
+
+      const result: Record<string, T> = {};
+      for (const [key, element] of Object.entries(value)) {
+        result[key] = valueDecoder.decodeAt(element, `${path}.${key}`);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * First decoder that succeeds
+   */
+  export function oneOf<T extends unknown[]>(
+    ...decoders: { [K in keyof T]: Decoder<T[K]> }
+  ): Decoder<T[number]> {
+    return new Decoder((value, path) => {
+      const expected: string[] = [];
+      for (const decoder of decoders) {
+        try {
+          return decoder.decodeAt(value, path);
+        } catch (error) {
+          if (!(error instanceof DecodeError)) throw error;
+          expected.push(error.expected);
+        }
+      }
+      throw new DecodeError(path, expected.join(' | '), value);
+    });
+  }
+}
+
+// MARK: - Helpers
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 50 ? value.slice(0, 50) + '…' : value}"`;
+  return typeof value;
+}
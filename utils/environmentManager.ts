@@ -0,0 +1,209 @@
+/*
+ * ENVIRONMENT MANAGER REFERENCE GUIDE
+ *
+ * Named environment profiles (development, staging, production) that configure
+ * APIService, SuperwallService, UserManager and NotificationManager together.
+ *
+ * Features:
+ * - Typed profiles with base URL, timeout, Superwall key and debug flags
+ * - One call applies a profile to every service
+ * - Runtime switching in development builds, persisted across launches
+ * - Release builds always use production (a persisted choice is ignored)
+ *
+ * Usage Examples:
+ * // Apply the persisted (or default) profile once at app startup
+ * await EnvironmentManager.shared.initialize();
+ *
+ * // Read the active profile
+ * const { label, apiBaseURL } = EnvironmentManager.shared.current;
+ *
+ * // Switch from developer tools (development builds only)
+ * await EnvironmentManager.shared.switchTo(EnvironmentName.STAGING);
+ *
+ * // React to switches
+ * EnvironmentManager.shared.on('environmentChanged', (profile: EnvironmentProfile) => reloadData());
+ *
+ * Events:
+ * - environmentChanged (profile: EnvironmentProfile)
+ *
+ * Notes:
+ * - Switching signs the user out, since a session belongs to one backend
+ * - Replace the example hosts in `environmentProfiles` with your own.
+ *   Superwall keys come from EXPO_PUBLIC_ variables in .env
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APIService } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+import { NotificationManager } from './notificationManager';
+import { SuperwallService } from './superwallService';
+import { UserManager } from './userManager';
+
+// MARK: - Environment Types
+export enum EnvironmentName {
+  DEVELOPMENT = 'development',
+  STAGING = 'staging',
+  PRODUCTION = 'production',
+}
+
+export interface EnvironmentProfile {
+  name: EnvironmentName;
+  /** Name shown in developer tools */
+  label: string;
+  apiBaseURL: string;
+  /** Request timeout in milliseconds (default: 30000) */
+  apiTimeout?: number;
+  /** Superwall is left unconfigured when missing */
+  superwallAPIKey?: string;
+  /** Debug logging in UserManager and SuperwallService */
+  debugMode: boolean;
+  /** Request/response logging in APIService */
+  apiLogging: boolean;
+  /** Hosts APIService may reach over plain HTTP, e.g. a local mock server (development builds only) */
+  insecureHosts?: string[];
+  /** Multiplier for engagement campaign delays, e.g. 1 / 60 to turn hours into minutes while testing (default: 1) */
+  notificationDelayScale?: number;
+}
+
+const defaultAPITimeout = 30000; // 30 seconds
+
+// MARK: - Profiles
+export const environmentProfiles: Record<EnvironmentName, EnvironmentProfile> = {
+  [EnvironmentName.DEVELOPMENT]: {
+    name: EnvironmentName.DEVELOPMENT,
+    label: 'Development',
+    apiBaseURL: 'https://dev-api.yourapp.com', // Replace with your development API
+    apiTimeout: 60000,
+    superwallAPIKey: process.env.EXPO_PUBLIC_SUPERWALL_API_KEY,
+    debugMode: true,
+    apiLogging: true,
+    insecureHosts: ['localhost', '127.0.0.1', '10.0.2.2'], // 10.0.2.2 is the host machine from the Android emulator
+    notificationDelayScale: 1, // Set to 1 / 60 to run engagement campaigns in minutes while testing
+  },
+  [EnvironmentName.STAGING]: {
+    name: EnvironmentName.STAGING,
+    label: 'Staging',
+    apiBaseURL: 'https://staging-api.yourapp.com', // Replace with your staging API
+    superwallAPIKey: process.env.EXPO_PUBLIC_SUPERWALL_API_KEY,
+    debugMode: true,
+    apiLogging: false,
+  },
+  [EnvironmentName.PRODUCTION]: {
+    name: EnvironmentName.PRODUCTION,
+    label: 'Production',
+    apiBaseURL: 'https://api.yourapp.com', // Replace with your production API
+    superwallAPIKey: process.env.EXPO_PUBLIC_SUPERWALL_API_KEY,
+    debugMode: false,
+    apiLogging: false,
+  },
+};
+
+// MARK: - Environment Manager
+export class EnvironmentManager extends SimpleEventEmitter {
+  public static readonly shared = new EnvironmentManager();
+
+  // MARK: - Properties
+  private currentProfile: EnvironmentProfile = environmentProfiles[EnvironmentManager.defaultEnvironment];
+  private isInitialized = false;
+
+  // Keys for AsyncStorage
+  private readonly environmentKey = 'environment_profile';
+
+  private constructor() {
+    super();
+  }
+
+  // MARK: - Getters
+  get current(): EnvironmentProfile {
+    return this.currentProfile;
+  }
+
+  get profiles(): EnvironmentProfile[] {
+    return Object.values(environmentProfiles);
+  }
+
+  /**
+   * Whether the environment can be changed at runtime (development builds only)
+   */
+  get canSwitch(): boolean {
+    return __DEV__;
+  }
+
+  private static get defaultEnvironment(): EnvironmentName {
+    return __DEV__ ? EnvironmentName.DEVELOPMENT : EnvironmentName.PRODUCTION;
+  }
+
+  // MARK: - Setup
+
+  /**
+   * Load the persisted profile (development builds) and apply it to all services.
+   * Call once at app startup, before other services make requests.
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+    this.isInitialized = true;
+
+    let name = EnvironmentManager.defaultEnvironment;
+    if (this.canSwitch) {
+      try {
+        const stored = await AsyncStorage.getItem(this.environmentKey);
+        if (stored && stored in environmentProfiles) {
+          name = stored as EnvironmentName;
+        }
+      } catch (error) {
+        console.log(`❌ Error loading environment: ${error}`);
+      }
+    }
+
+    this.apply(environmentProfiles[name]);
+  }
+
+  // MARK: - Switching
+
+  /**
+   * Switch to another profile and remember it for the next launch.
+   * Signs the current user out and clears cached responses from the previous backend.
+   * @param name Profile to switch to
+   */
+  async switchTo(name: EnvironmentName): Promise<void> {
+    if (!this.canSwitch) {
+      console.log('⚠️ Environment switching is only available in development builds');
+      return;
+    }
+    if (name === this.currentProfile.name) return;
+
+    if (UserManager.shared.isSignedIn) {
+      await UserManager.shared.signOut();
+    }
+    await APIService.shared.clearResponseCache();
+
+    this.apply(environmentProfiles[name]);
+    await AsyncStorage.setItem(this.environmentKey, name);
+
+    this.emit('environmentChanged', this.currentProfile);
+  }
+
+  // MARK: - Private Methods
+
+  private apply(profile: EnvironmentProfile): void {
+    this.currentProfile = profile;
+
+    APIService.shared.configure(profile.apiBaseURL);
+    APIService.shared.setTimeout(profile.apiTimeout ?? defaultAPITimeout);
+    APIService.shared.enableLogging(profile.apiLogging);
+    APIService.shared.allowInsecureHosts(profile.insecureHosts ?? []);
+
+    if (profile.superwallAPIKey) {
+      SuperwallService.shared.configure(profile.superwallAPIKey, profile.debugMode);
+    } else {
+      console.warn('⚠️ Superwall API key not found in environment variables');
+    }
+
+    UserManager.shared.setDebugMode(profile.debugMode);
+    NotificationManager.shared.setCampaignDelayScale(profile.notificationDelayScale ?? 1);
+
+    if (profile.debugMode) {
+      console.log(`🌍 Environment: ${profile.label} (${profile.apiBaseURL})`);
+    }
+  }
+}
@@ -0,0 +1,524 @@
+/*
+ * GRAPHQL CLIENT REFERENCE GUIDE
+ *
+ * GraphQL on top of APIService. Requests go through APIService.shared (or the
+ * client passed to configure), so they share the base URL, authentication,
+ * interceptors, retries and logging with REST calls.
+ *
+ * Features:
+ * - Queries and mutations with variables and operation names
+ * - `errors` arrays become an APIError (even with HTTP 200), with the
+ *   individual errors in `error.graphQLErrors`
+ * - Automatic persisted queries (SHA-256 hash first, full query on a miss)
+ *   and precomputed persisted-query hashes
+ * - Normalized in-memory cache: objects with `__typename` and `id` are stored
+ *   once per entity, so a mutation result updates every cached query using it
+ * - Optional runtime validation of `data` with decoders
+ *
+ * Usage Examples:
+ * // Configure once (base URL and auth come from APIService)
+ * GraphQLClient.shared.configure({ endpoint: '/graphql', persistedQueries: true });
+ *
+ * // Query
+ * const { viewer } = await GraphQLClient.shared.query<{ viewer: User }>(
+ *   `query Viewer { viewer { __typename id name } }`
+ * );
+ *
+ * // Query with variables, served from the normalized cache when possible
+ * const { post } = await GraphQLClient.shared.query<{ post: Post }, { id: string }>(
+ *   `query Post($id: ID!) { post(id: $id) { __typename id title likes } }`,
+ *   { id },
+ *   { cachePolicy: 'cache-first' }
+ * );
+ *
+ * // Mutation (updates the cached Post entity)
+ * await GraphQLClient.shared.mutate(
+ *   `mutation Like($id: ID!) { likePost(id: $id) { __typename id likes } }`,
+ *   { id }
+ * );
+ *
+ * // Errors
+ * try {
+ *   await GraphQLClient.shared.mutate(CreatePostMutation, { title: '' });
+ * } catch (error) {
+ *   if (error instanceof APIError && error.type === APIErrorType.VALIDATION_FAILED) {
+ *     console.log(error.graphQLErrors); // [{ message, path, extensions: { code: 'BAD_USER_INPUT' } }]
+ *   }
+ * }
+ *
+ * // React to cache changes
+ * GraphQLClient.shared.on('cacheUpdated', (entityKeys: string[]) => refreshVisiblePosts(entityKeys));
+ *
+ * Notes:
+ * - Errors with `extensions.code` UNAUTHENTICATED, FORBIDDEN, BAD_USER_INPUT or NOT_FOUND
+ *   map to the matching APIErrorType; anything else is GRAPHQL_ERROR
+ * - Select `__typename` and `id` in queries so results can be normalized
+ * - Fields with arguments (e.g. `posts(first: 10)`) are cached with the query that
+ *   selected them, not on the shared entity, so queries with different arguments don't mix
+ * - The cache is cleared when the user signs out
+ *
+ * Events:
+ * - cacheUpdated (entityKeys: string[])
+ */
+
+import { APIError, APIService, GraphQLErrorItem, RequestOptions } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+import { sha256Hex } from './hash';
+
+// MARK: - GraphQL Types
+export type GraphQLVariables = Record<string, unknown>;
+
+export interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: GraphQLErrorItem[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * - network-only: always send the request and store the result (default)
+ * - cache-first: return the cached result if every entity is available, otherwise send the request
+ * - cache-only: return the cached result or fail with NO_DATA
+ * - no-cache: send the request without reading or writing the cache
+ */
+export type GraphQLCachePolicy = 'network-only' | 'cache-first' | 'cache-only' | 'no-cache';
+
+export interface GraphQLRequestOptions<T = any> extends Pick<RequestOptions<T>, 'signal' | 'retry' | 'decoder'> {
+  /** Operation name (defaults to the name in the document) */
+  operationName?: string;
+  /** Additional headers for this request */
+  headers?: Record<string, string>;
+  /** How the normalized cache is used */
+  cachePolicy?: GraphQLCachePolicy;
+  /** Precomputed hash for a query registered with the server ahead of time */
+  persistedQueryHash?: string;
+}
+
+export interface GraphQLClientOptions {
+  /** APIService client used to send requests (default: APIService.shared) */
+  client?: APIService;
+  /** Endpoint relative to the client's base URL (default: '/graphql') */
+  endpoint?: string;
+  /** Send SHA-256 hashes instead of full queries (Automatic Persisted Queries) */
+  persistedQueries?: boolean;
+  /** Cache key for an object, or null if it can't be normalized (default: `${__typename}:${id}`) */
+  dataIdFromObject?: (object: Record<string, any>) => string | null;
+}
+
+interface GraphQLRequestBody {
+  query?: string;
+  operationName?: string;
+  variables?: GraphQLVariables;
+  extensions?: Record<string, unknown>;
+}
+
+interface EntityReference {
+  __ref: string;
+  /** Fields of the entity that only this query result sees (see normalize) */
+  __fields?: Record<string, unknown>;
+}
+
+interface NormalizedValue {
+  value: unknown;
+  /** Contains fields that depend on arguments, so it can't be stored on a shared entity */
+  isQueryLocal: boolean;
+}
+
+function defaultDataIdFromObject(object: Record<string, any>): string | null {
+  const id = object.id ?? object._id;
+  return typeof object.__typename === 'string' && id !== undefined && id !== null
+    ? `${object.__typename}:${id}`
+    : null;
+}
+
+// MARK: - GraphQL Client
+export class GraphQLClient extends SimpleEventEmitter {
+  public static readonly shared = new GraphQLClient();
+
+  // MARK: - Properties
+  private client = APIService.shared;
+  private endpoint = '/graphql';
+  private usePersistedQueries = false;
+  private dataIdFromObject = defaultDataIdFromObject;
+  private isDebugMode = false;
+  private queryHashes = new Map<string, string>();
+  private entities = new Map<string, Record<string, unknown>>();
+  private queryResults = new Map<string, unknown>(); // Normalized results by query and variables
+
+  private constructor() {
+    super();
+  }
+
+  // MARK: - Configuration
+
+  /**
+   * Configure the client
+   * @param options Client, endpoint, persisted queries and cache identification
+   */
+  configure(options: GraphQLClientOptions): void {
+    this.client = options.client ?? this.client;
+    this.endpoint = options.endpoint ?? this.endpoint;
+    this.usePersistedQueries = options.persistedQueries ?? this.usePersistedQueries;
+    this.dataIdFromObject = options.dataIdFromObject ?? this.dataIdFromObject;
+  }
+
+  /**
+   * Enable or disable debug logging
+   * @param enabled Whether debug mode is enabled
+   */
+  setDebugMode(enabled: boolean): void {
+    this.isDebugMode = enabled;
+  }
+
+  // MARK: - Operations
+
+  /**
+   * Run a query
+   * @param query GraphQL query document
+   * @param variables Optional variables
+   * @param options Optional request options (cache policy, operation name, signal)
+   * @returns The response's `data`
+   */
+  async query<T, V extends GraphQLVariables = GraphQLVariables>(
+    query: string,
+    variables?: V,
+    options: GraphQLRequestOptions<T> = {}
+  ): Promise<T> {
+    const cachePolicy = options.cachePolicy ?? 'network-only';
+    const cacheKey = this.cacheKey(query, variables);
+
+    if (cachePolicy === 'cache-first' || cachePolicy === 'cache-only') {
+      const cached = this.readQuery(cacheKey);
+      if (cached !== undefined) {
+        return this.decode<T>(cached, options);
+      }
+      if (cachePolicy === 'cache-only') {
+        throw APIError.noData();
+      }
+    }
+
+    const data = await this.send<T>(query, variables, options, false);
+    if (cachePolicy !== 'no-cache') {
+      this.writeResult(data, query, cacheKey);
+    }
+    return this.decode<T>(data, options);
+  }
+
+  /**
+   * Run a mutation. Returned entities are merged into the cache.
+   * @param mutation GraphQL mutation document
+   * @param variables Optional variables
+   * @param options Optional request options (operation name, signal)
+   * @returns The response's `data`
+   */
+  async mutate<T, V extends GraphQLVariables = GraphQLVariables>(
+    mutation: string,
+    variables?: V,
+    options: GraphQLRequestOptions<T> = {}
+  ): Promise<T> {
+    const data = await this.send<T>(mutation, variables, options, true);
+    if (options.cachePolicy !== 'no-cache') {
+      this.writeResult(data, mutation);
+    }
+    return this.decode<T>(data, options);
+  }
+
+  // MARK: - Cache
+
+  /**
+   * Read a cached entity
+   * @param typename GraphQL type name
+   * @param id Entity id
+   * @returns The entity with nested entities resolved, or undefined if it isn't cached
+   */
+  readEntity<T>(typename: string, id: string | number): T | undefined {
+    const key = this.dataIdFromObject({ __typename: typename, id });
+    if (!key || !this.entities.has(key)) return undefined;
+
+    const state = { resolved: new Map<string, Record<string, unknown>>(), isComplete: true };
+    const entity = this.denormalize({ __ref: key }, state);
+    return state.isComplete ? (entity as T) : undefined;
+  }
+
+  /**
+   * Merge fields into a cached entity (e.g. for optimistic updates)
+   * @param typename GraphQL type name
+   * @param id Entity id
+   * @param fields Fields to merge
+   */
+  writeEntity(typename: string, id: string | number, fields: Record<string, unknown>): void {
+    this.writeResult({ ...fields, __typename: typename, id });
+  }
+
+  /**
+   * Remove an entity. Cached queries that reference it are no longer served from the cache.
+   * @param typename GraphQL type name
+   * @param id Entity id
+   */
+  evictEntity(typename: string, id: string | number): void {
+    const key = this.dataIdFromObject({ __typename: typename, id });
+    if (key && this.entities.delete(key)) {
+      this.emit('cacheUpdated', [key]);
+    }
+  }
+
+  /**
+   * Remove all cached entities and query results
+   */
+  clearCache(): void {
+    const keys = [...this.entities.keys()];
+    this.entities.clear();
+    this.queryResults.clear();
+    if (keys.length > 0) {
+      this.emit('cacheUpdated', keys);
+    }
+  }
+
+  // MARK: - Private Methods
+
+  /**
+   * Sends the operation, using a persisted-query hash when enabled
+   */
+  private async send<T>(
+    document: string,
+    variables: GraphQLVariables | undefined,
+    options: GraphQLRequestOptions<T>,
+    isMutation: boolean
+  ): Promise<T> {
+    const operationName = options.operationName ?? extractOperationName(document);
+    const hash = options.persistedQueryHash ?? (this.usePersistedQueries ? this.hashQuery(document) : undefined);
+
+    if (!hash) {
+      return this.post<T>({ query: document, operationName, variables }, options, isMutation);
+    }
+
+    const extensions = { persistedQuery: { version: 1, sha256Hash: hash } };
+    try {
+      return await this.post<T>({ operationName, variables, extensions }, options, isMutation);
+    } catch (error) {
+      if (!isPersistedQueryNotFound(error)) {
+        throw error;
+      }
+      if (this.isDebugMode) {
+        console.log(`📝 Registering persisted query ${operationName ?? hash}`);
+      }
+    }
+
+    // The server doesn't know the hash yet: send the full query so it can store it
+    return this.post<T>({ query: document, operationName, variables, extensions }, options, isMutation);
+  }
+
+  private async post<T>(body: GraphQLRequestBody, options: GraphQLRequestOptions<T>, isMutation: boolean): Promise<T> {
+    let response: GraphQLResponse<T>;
+    try {
+      response = await this.client.post<GraphQLResponse<T>>(this.endpoint, body, options.headers, {
+        signal: options.signal,
+        // Queries are safe to retry even though they are sent with POST
+        retry: isMutation || options.retry === false ? options.retry : { retryNonIdempotent: true, ...options.retry },
+      });
+    } catch (error) {
+      // Some servers report GraphQL errors with a 4xx status
+      const errors = error instanceof APIError ? graphQLErrorsIn(error.responseBody) : undefined;
+      if (errors) {
+        (error as APIError).graphQLErrors = errors;
+      }
+      throw error;
+    }
+
+    if (response.errors && response.errors.length > 0) {
+      const error = APIError.graphQLError(response.errors);
+      error.responseBody = response;
+      throw error;
+    }
+
+    if (response.data === undefined || response.data === null) {
+      throw APIError.noData();
+    }
+
+    return response.data;
+  }
+
+  private decode<T>(data: unknown, options: GraphQLRequestOptions<T>): T {
+    if (!options.decoder) {
+      return data as T;
+    }
+    try {
+      return options.decoder.parse(data);
+    } catch (error) {
+      throw APIError.decodingError(error as Error);
+    }
+  }
+
+  private hashQuery(query: string): string {
+    let hash = this.queryHashes.get(query);
+    if (!hash) {
+      hash = sha256Hex(query);
+      this.queryHashes.set(query, hash);
+    }
+    return hash;
+  }
+
+  private cacheKey(query: string, variables?: GraphQLVariables): string {
+    return `${query}\n${stableStringify(variables ?? {})}`;
+  }
+
+  // MARK: - Normalization
+
+  private writeResult(data: unknown, document?: string, cacheKey?: string): void {
+    const changedKeys = new Set<string>();
+    const { value } = this.normalize(data, changedKeys, document ? argumentFields(document) : new Set());
+    if (cacheKey) {
+      this.queryResults.set(cacheKey, value);
+    }
+    if (changedKeys.size > 0) {
+      this.emit('cacheUpdated', [...changedKeys]);
+    }
+  }
+
+  private readQuery(cacheKey: string): unknown | undefined {
+    if (!this.queryResults.has(cacheKey)) return undefined;
+
+    const state = { resolved: new Map<string, Record<string, unknown>>(), isComplete: true };
+    const data = this.denormalize(this.queryResults.get(cacheKey), state);
+    return state.isComplete ? data : undefined;
+  }
+
+  /**
+   * Replaces identifiable objects with references and merges them into the entity store.
+   * Fields selected with arguments (and fields containing them) stay on the reference in
+   * this query's result: `posts(first: 10)` and `posts(first: 2)` return different data
+   * under the same field name.
+   */
+  private normalize(value: unknown, changedKeys: Set<string>, argumentFields: ReadonlySet<string>): NormalizedValue {
+    if (Array.isArray(value)) {
+      const items = value.map(item => this.normalize(item, changedKeys, argumentFields));
+      return { value: items.map(item => item.value), isQueryLocal: items.some(item => item.isQueryLocal) };
+    }
+    if (!isPlainObject(value)) {
+      return { value, isQueryLocal: false };
+    }
+
+    const fields: Record<string, unknown> = {};
+    const localFields: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value)) {
+      const normalized = this.normalize(fieldValue, changedKeys, argumentFields);
+      if (argumentFields.has(key) || normalized.isQueryLocal) {
+        localFields[key] = normalized.value;
+      } else {
+        fields[key] = normalized.value;
+      }
+    }
+    const isQueryLocal = Object.keys(localFields).length > 0;
+
+    const entityKey = this.dataIdFromObject(value);
+    if (!entityKey) {
+      return { value: { ...fields, ...localFields }, isQueryLocal };
+    }
+
+    const existing = this.entities.get(entityKey);
+    const merged = { ...existing, ...fields };
+    if (!existing || JSON.stringify(existing) !== JSON.stringify(merged)) {
+      this.entities.set(entityKey, merged);
+      changedKeys.add(entityKey);
+    }
+    const reference: EntityReference = isQueryLocal ? { __ref: entityKey, __fields: localFields } : { __ref: entityKey };
+    return { value: reference, isQueryLocal };
+  }
+
+  /**
+   * Resolves references back into objects. Marks the state incomplete if an entity is missing.
+   */
+  private denormalize(
+    value: unknown,
+    state: { resolved: Map<string, Record<string, unknown>>; isComplete: boolean }
+  ): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.denormalize(item, state));
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    if (isReference(value)) {
+      // Reuse resolved entities so cyclic references don't recurse forever
+      // (references with query-local fields only occur in query results, which are trees)
+      const resolved = value.__fields ? undefined : state.resolved.get(value.__ref);
+      if (resolved) return resolved;
+
+      const entity = this.entities.get(value.__ref);
+      if (!entity) {
+        state.isComplete = false;
+        return null;
+      }
+
+      const result: Record<string, unknown> = {};
+      if (!value.__fields) {
+        state.resolved.set(value.__ref, result);
+      }
+      for (const [key, fieldValue] of Object.entries({ ...entity, ...value.__fields })) {
+        result[key] = this.denormalize(fieldValue, state);
+      }
+      return result;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, fieldValue] of Object.entries(value)) {
+      result[key] = this.denormalize(fieldValue, state);
+    }
+    return result;
+  }
+}
+
+// MARK: - Helpers
+
+function extractOperationName(document: string): string | undefined {
+  return /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(document)?.[1];
+}
+
+function graphQLErrorsIn(body: unknown): GraphQLErrorItem[] | undefined {
+  const errors = (body as GraphQLResponse<unknown> | undefined)?.errors;
+  return Array.isArray(errors) && errors.length > 0 ? errors : undefined;
+}
+
+function isPersistedQueryNotFound(error: unknown): boolean {
+  return error instanceof APIError && !!error.graphQLErrors?.some(item =>
+    item.message === 'PersistedQueryNotFound' || item.extensions?.code === 'PERSISTED_QUERY_NOT_FOUND'
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isReference(value: Record<string, any>): value is EntityReference {
+  const keys = Object.keys(value);
+  return typeof value.__ref === 'string' && keys.every(key => key === '__ref' || key === '__fields');
+}
+
+/**
+ * Response keys (alias or field name) of the fields selected with arguments in a document
+ */
+function argumentFields(document: string): Set<string> {
+  const source = document
+    .replace(/"""[\s\S]*?"""|"(?:\\.|[^"\\])*"/g, '""')
+    .replace(/#[^\n]*/g, '');
+  const keys = new Set<string>();
+  const field = /(\b(?:query|mutation|subscription|fragment)\s+|@\s*)?(?:([_A-Za-z]\w*)\s*:\s*)?([_A-Za-z]\w*)\s*\(/g;
+  for (const match of source.matchAll(field)) {
+    // Skip operation names with variable definitions and directives
+    if (!match[1]) {
+      keys.add(match[2] ?? match[3]);
+    }
+  }
+  return keys;
+}
+
+/**
+ * JSON with sorted object keys, so equal variables produce equal cache keys
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, fieldValue) =>
+    isPlainObject(fieldValue)
+      ? Object.fromEntries(Object.keys(fieldValue).sort().map(key => [key, fieldValue[key]]))
+      : fieldValue
+  );
+}
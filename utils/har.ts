@@ -0,0 +1,436 @@
+/*
+ * HAR REFERENCE GUIDE
+ *
+ * Records APIService traffic as a HAR 1.2 archive (the format browser dev tools
+ * and proxies export), and replays an archive deterministically through
+ * MockTransport, so a session captured by QA can be run again offline.
+ *
+ * Features:
+ * - HAR 1.2 export with headers, query strings, bodies and timings
+ * - Binary response bodies stored as base64
+ * - Failed requests (no response) recorded with status 0
+ * - Optional redaction of headers, JSON fields and query parameters
+ * - Replay matching on method, URL (path and query) and body
+ *
+ * Usage Examples:
+ * // Record a session
+ * const recorder = new HarRecorder();
+ * APIService.shared.setHarRecorder(recorder);
+ * // ...reproduce the bug...
+ * APIService.shared.setHarRecorder(undefined);
+ * await Share.share({ message: JSON.stringify(recorder.toHAR()) });
+ *
+ * // Replay it offline (save the file with a .json extension so Metro can bundle it)
+ * const mock = new MockTransport();
+ * mock.replayHAR(require('./bug-1234.har.json'));
+ * APIService.shared.setTransport(mock);
+ *
+ * Notes:
+ * - Identical requests get the recorded responses in order; once they run out,
+ *   the last response is repeated
+ * - Redacted values ('[REDACTED]') in a recording match any value on replay.
+ *   Redaction also masks response fields such as tokens; record with
+ *   { redact: false } when the replay has to include a sign-in flow
+ * - Requests with multipart or binary bodies are matched on method and URL only
+ * - The URL's origin is ignored by default, so a staging recording replays
+ *   under any base URL
+ */
+
+import { APIRequest, ResponseType } from './apiService';
+import { fromBase64, toBase64, utf8Encode } from './hash';
+import { LogRedactionOptions, defaultLogRedaction, redactBody, redactHeaders, redactURL, redactedValue } from './logRedaction';
+
+// MARK: - HAR 1.2 Types
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number; // 0 when no response was received
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: 'base64';
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _error?: string; // Failure message when status is 0
+}
+
+export interface HarEntry {
+  startedDateTime: string; // ISO date
+  time: number; // Milliseconds
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// MARK: - Recording
+export interface HarRecorderOptions {
+  /** Mask sensitive headers, JSON fields and query parameters (default: true) */
+  redact?: boolean;
+  /** What to mask (default: the log redaction defaults, without truncation) */
+  redaction?: Partial<LogRedactionOptions>;
+  /** Creator written to the archive (default: 'APIService') */
+  creator?: { name: string; version: string };
+}
+
+interface PendingEntry {
+  request: HarRequest;
+  startedAt: number;
+}
+
+export class HarRecorder {
+  private readonly redaction?: LogRedactionOptions;
+  private readonly creator: { name: string; version: string };
+  private entries: HarEntry[] = [];
+  private pending = new Map<string, PendingEntry>();
+  private nextId = 1;
+
+  constructor(options: HarRecorderOptions = {}) {
+    this.redaction = options.redact === false
+      ? undefined
+      : { ...defaultLogRedaction, ...options.redaction, maxBodyLength: 0 };
+    this.creator = options.creator ?? { name: 'APIService', version: '1.0' };
+  }
+
+  /**
+   * Number of completed entries
+   */
+  get entryCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Record a request that is about to be sent
+   * @param request Final request (after request interceptors)
+   * @returns Id for completeRequest/failRequest
+   */
+  startRequest(request: APIRequest): string {
+    const id = String(this.nextId++);
+    const url = this.redaction ? redactURL(request.url, this.redaction) : request.url;
+    const headers = this.redaction ? redactHeaders(request.headers, this.redaction) : request.headers;
+    const bodyText = typeof request.body === 'string' ? request.body : undefined;
+
+    const harRequest: HarRequest = {
+      method: request.method,
+      url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(headers),
+      queryString: parseQueryString(url),
+      headersSize: -1,
+      bodySize: bodyText !== undefined ? utf8Encode(bodyText).length : request.body ? -1 : 0,
+    };
+    if (bodyText !== undefined) {
+      harRequest.postData = {
+        mimeType: headerValue(request.headers, 'Content-Type') ?? 'application/json',
+        text: this.redaction ? redactBody(bodyText, this.redaction) : bodyText,
+      };
+    }
+
+    this.pending.set(id, { request: harRequest, startedAt: Date.now() });
+    return id;
+  }
+
+  /**
+   * Record the response of a request
+   * @param id Id from startRequest
+   * @param response Response (its body is read from a clone)
+   * @param responseType Expected body type; binary bodies are stored as base64
+   */
+  async completeRequest(id: string, response: Response, responseType?: ResponseType): Promise<void> {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+
+    const time = Date.now() - pending.startedAt;
+    const headers = Object.fromEntries(response.headers.entries());
+    const mimeType = response.headers.get('Content-Type') ?? '';
+    const content: HarResponse['content'] = { size: 0, mimeType };
+
+    try {
+      if (responseType === 'blob' || responseType === 'arraybuffer') {
+        const bytes = new Uint8Array(await response.clone().arrayBuffer());
+        content.size = bytes.length;
+        content.text = toBase64(bytes);
+        content.encoding = 'base64';
+      } else {
+        const text = await response.clone().text();
+        content.size = utf8Encode(text).length;
+        content.text = this.redaction ? redactBody(text, this.redaction) : text;
+      }
+    } catch {
+      // Body unavailable; keep the status and headers
+    }
+
+    this.entries.push(this.buildEntry(pending, time, {
+      status: response.status,
+      statusText: response.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(this.redaction ? redactHeaders(headers, this.redaction) : headers),
+      content,
+      redirectURL: response.headers.get('Location') ?? '',
+      headersSize: -1,
+      bodySize: content.size,
+    }));
+  }
+
+  /**
+   * Record a request that got no response (network error, timeout or cancellation)
+   * @param id Id from startRequest
+   * @param error The failure
+   */
+  failRequest(id: string, error: unknown): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+
+    this.entries.push(this.buildEntry(pending, Date.now() - pending.startedAt, {
+      status: 0,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: [],
+      content: { size: 0, mimeType: '' },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+      _error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+
+  /**
+   * The recorded session as a HAR 1.2 archive, entries in the order they were sent
+   */
+  toHAR(): HarLog {
+    const entries = [...this.entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+    return { log: { version: '1.2', creator: this.creator, entries } };
+  }
+
+  /**
+   * Remove all recorded entries
+   */
+  clear(): void {
+    this.entries = [];
+    this.pending.clear();
+  }
+
+  private buildEntry(pending: PendingEntry, time: number, response: HarResponse): HarEntry {
+    return {
+      startedDateTime: new Date(pending.startedAt).toISOString(),
+      time,
+      request: pending.request,
+      response,
+      cache: {},
+      timings: { send: 0, wait: time, receive: 0 },
+    };
+  }
+}
+
+// MARK: - Replay
+export interface HarReplayOptions {
+  /** Also require the recorded origin (scheme and host) to match (default: false) */
+  matchOrigin?: boolean;
+  /** Match request bodies (default: true) */
+  matchBody?: boolean;
+  /** Wait for each entry's recorded time before responding (default: false) */
+  useRecordedTimings?: boolean;
+}
+
+/**
+ * Finds recorded responses for requests. Used by MockTransport.replayHAR.
+ */
+export class HarReplay {
+  private readonly entries: HarEntry[];
+  private readonly options: HarReplayOptions;
+  private used = new Set<HarEntry>();
+
+  constructor(har: HarLog | string, options: HarReplayOptions = {}) {
+    const log: HarLog = typeof har === 'string' ? JSON.parse(har) : har;
+    if (!Array.isArray(log?.log?.entries)) {
+      throw new Error('Invalid HAR: missing log.entries');
+    }
+    this.entries = log.log.entries;
+    this.options = options;
+  }
+
+  get usesRecordedTimings(): boolean {
+    return this.options.useRecordedTimings ?? false;
+  }
+
+  /**
+   * The next unused recorded entry matching the request, or the last match once all were used
+   * @param request Request to answer
+   * @returns Matching entry, or undefined if the recording has none
+   */
+  match(request: APIRequest): HarEntry | undefined {
+    const candidates = this.entries.filter(entry => this.matches(entry.request, request));
+    if (candidates.length === 0) return undefined;
+
+    const entry = candidates.find(candidate => !this.used.has(candidate)) ?? candidates[candidates.length - 1];
+    this.used.add(entry);
+    return entry;
+  }
+
+  /**
+   * Start over from the first recorded response of each request
+   */
+  reset(): void {
+    this.used.clear();
+  }
+
+  /**
+   * Build the recorded response, or throw like fetch for entries without one
+   * @param entry Entry returned by match
+   */
+  static toResponse(entry: HarEntry): Response {
+    const { response } = entry;
+    if (response.status === 0) {
+      throw new TypeError(response._error ?? 'Network request failed');
+    }
+
+    const headers = new Headers();
+    response.headers.forEach(({ name, value }) => headers.append(name, value));
+
+    let body: BodyInit | null = null;
+    if (response.content.text !== undefined && response.status !== 204 && response.status !== 304) {
+      body = response.content.encoding === 'base64'
+        ? (fromBase64(response.content.text).buffer as ArrayBuffer)
+        : response.content.text;
+    }
+    return new Response(body, { status: response.status, statusText: response.statusText, headers });
+  }
+
+  private matches(recorded: HarRequest, request: APIRequest): boolean {
+    if (recorded.method.toUpperCase() !== request.method) return false;
+
+    const recordedURL = splitURL(recorded.url);
+    const requestURL = splitURL(request.url);
+    if (this.options.matchOrigin && recordedURL.origin !== requestURL.origin) return false;
+    if (recordedURL.path !== requestURL.path) return false;
+    if (!queriesMatch(recorded.queryString, parseQueryString(request.url))) return false;
+
+    if ((this.options.matchBody ?? true) && typeof request.body === 'string') {
+      return bodiesMatch(recorded.postData?.text, request.body);
+    }
+    return true;
+  }
+}
+
+// MARK: - Matching Helpers
+
+function splitURL(url: string): { origin: string; path: string } {
+  const [, origin = '', path = ''] = /^([a-z]+:\/\/[^/?#]*)?([^?#]*)/i.exec(url) ?? [];
+  return { origin, path: path.replace(/\/$/, '') || '/' };
+}
+
+function queriesMatch(recorded: HarNameValue[], actual: HarNameValue[]): boolean {
+  if (recorded.length !== actual.length) return false;
+  const sort = (values: HarNameValue[]) => [...values].sort((a, b) => a.name.localeCompare(b.name));
+  const expected = sort(recorded);
+  return sort(actual).every(
+    (item, index) =>
+      item.name === expected[index].name &&
+      (expected[index].value === redactedValue || item.value === expected[index].value)
+  );
+}
+
+function bodiesMatch(recorded: string | undefined, actual: string): boolean {
+  if (recorded === undefined) return actual === '';
+  try {
+    return valuesMatch(JSON.parse(recorded), JSON.parse(actual));
+  } catch {
+    return recorded === actual;
+  }
+}
+
+/**
+ * Deep equality where a redacted recorded value matches anything
+ */
+function valuesMatch(recorded: unknown, actual: unknown): boolean {
+  if (recorded === redactedValue) return true;
+  if (Array.isArray(recorded)) {
+    return Array.isArray(actual) && recorded.length === actual.length && recorded.every((item, i) => valuesMatch(item, actual[i]));
+  }
+  if (recorded && typeof recorded === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    const recordedKeys = Object.keys(recorded);
+    if (recordedKeys.length !== Object.keys(actual).length) return false;
+    return recordedKeys.every(key =>
+      valuesMatch((recorded as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key])
+    );
+  }
+  return recorded === actual;
+}
+
+// MARK: - Encoding Helpers
+
+function toNameValues(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function headerValue(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+}
+
+function parseQueryString(url: string): HarNameValue[] {
+  const queryIndex = url.indexOf('?');
+  if (queryIndex === -1) return [];
+
+  return url
+    .slice(queryIndex + 1)
+    .split('#')[0]
+    .split('&')
+    .filter(Boolean)
+    .map(pair => {
+      const separator = pair.indexOf('=');
+      const decode = (text: string) => {
+        try {
+          return decodeURIComponent(text.replace(/\+/g, ' '));
+        } catch {
+          return text;
+        }
+      };
+      return separator === -1
+        ? { name: decode(pair), value: '' }
+        : { name: decode(pair.slice(0, separator)), value: decode(pair.slice(separator + 1)) };
+    });
+}
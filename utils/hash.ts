@@ -0,0 +1,225 @@
+/*
+ * HASH REFERENCE GUIDE
+ *
+ * Pure TypeScript SHA-256 and HMAC-SHA256, for places that need a stable
+ * digest or signature without a native crypto module (Hermes has no crypto.subtle).
+ * Random UUIDs use expo-crypto's secure random bytes.
+ *
+ * Usage Examples:
+ * const digest = sha256Hex('query { me { id } }');
+ * // 'b7f1…' (64 lowercase hex characters)
+ *
+ * const signature = toHex(hmacSha256(secret, canonicalRequest));
+ *
+ * const idempotencyKey = randomUUID();
+ * // '3b241101-e2bb-4255-8caf-4136c566a962'
+ */
+
+import { getRandomBytes } from 'expo-crypto';
+
+// MARK: - SHA-256
+
+const roundConstants = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * SHA-256 digest of a string (UTF-8 encoded) or bytes
+ * @param input Text or bytes to hash
+ * @returns The 32-byte digest
+ */
+export function sha256(input: string | Uint8Array): Uint8Array {
+  const bytes = typeof input === 'string' ? utf8Encode(input) : input;
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the bit length as a 64-bit big-endian integer
+  const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = bytes.length * 8;
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const words = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + roundConstants[i] + words[i]) >>> 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, index) => digestView.setUint32(index * 4, word));
+  return digest;
+}
+
+/**
+ * SHA-256 digest as lowercase hex
+ * @param input Text or bytes to hash
+ * @returns 64 hex characters
+ */
+export function sha256Hex(input: string | Uint8Array): string {
+  return toHex(sha256(input));
+}
+
+// MARK: - HMAC
+
+/**
+ * HMAC-SHA256 (RFC 2104) of a message
+ * @param key Secret key (strings are UTF-8 encoded)
+ * @param message Text or bytes to authenticate
+ * @returns The 32-byte MAC
+ */
+export function hmacSha256(key: string | Uint8Array, message: string | Uint8Array): Uint8Array {
+  const blockSize = 64;
+  let keyBytes = typeof key === 'string' ? utf8Encode(key) : key;
+  if (keyBytes.length > blockSize) {
+    keyBytes = sha256(keyBytes);
+  }
+  const messageBytes = typeof message === 'string' ? utf8Encode(message) : message;
+
+  const inner = new Uint8Array(blockSize + messageBytes.length);
+  const outer = new Uint8Array(blockSize + 32);
+  for (let i = 0; i < blockSize; i++) {
+    const byte = keyBytes[i] ?? 0;
+    inner[i] = byte ^ 0x36;
+    outer[i] = byte ^ 0x5c;
+  }
+  inner.set(messageBytes, blockSize);
+  outer.set(sha256(inner), blockSize);
+  return sha256(outer);
+}
+
+// MARK: - Random IDs
+
+/**
+ * Random RFC 4122 version 4 UUID from a cryptographically secure source, for ids
+ * and idempotency keys that must not collide or be guessable
+ * @returns Lowercase UUID string
+ */
+export function randomUUID(): string {
+  const bytes = getRandomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = toHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// MARK: - Encoding Helpers
+
+const base64Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Lowercase hex representation of bytes
+ */
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Standard (padded) base64 representation of bytes
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += base64Alphabet[(chunk >> 18) & 63] + base64Alphabet[(chunk >> 12) & 63];
+    result += i + 1 < bytes.length ? base64Alphabet[(chunk >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? base64Alphabet[chunk & 63] : '=';
+  }
+  return result;
+}
+
+/**
+ * Bytes of a base64 string (characters outside the alphabet are ignored)
+ */
+export function fromBase64(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const chunk =
+      (base64Alphabet.indexOf(clean[i]) << 18) |
+      (base64Alphabet.indexOf(clean[i + 1]) << 12) |
+      ((base64Alphabet.indexOf(clean[i + 2] ?? 'A') & 63) << 6) |
+      (base64Alphabet.indexOf(clean[i + 3] ?? 'A') & 63);
+    bytes[byteIndex++] = (chunk >> 16) & 255;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = (chunk >> 8) & 255;
+    if (byteIndex < bytes.length) bytes[byteIndex++] = chunk & 255;
+  }
+  return bytes;
+}
+
+/**
+ * UTF-8 bytes of a string (TextEncoder is not available on every React Native runtime)
+ */
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
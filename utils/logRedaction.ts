@@ -0,0 +1,151 @@
+/*
+ * LOG REDACTION REFERENCE GUIDE
+ *
+ * Helpers that make request/response logs safe to share: sensitive headers,
+ * JSON fields and query parameters are masked, and large bodies are truncated.
+ * APIService uses them for its debug logging (see APIService.setLogRedaction).
+ *
+ * Usage Examples:
+ * const options = { ...defaultLogRedaction, redactFields: [...defaultLogRedaction.redactFields, 'ssn'] };
+ * redactHeaders({ Authorization: 'Bearer abc' }, options); // { Authorization: '[REDACTED]' }
+ * redactBody('{"email":"a@b.c","password":"hunter2"}', options); // '{"email":"a@b.c","password":"[REDACTED]"}'
+ * redactURL('https://api.example.com/reset?token=abc', options); // 'https://api.example.com/reset?token=[REDACTED]'
+ *
+ * Notes:
+ * - Header and field names are matched case-insensitively
+ * - Bodies that aren't JSON are only truncated
+ */
+
+// MARK: - Redaction Options
+export interface LogRedactionOptions {
+  /** Header names whose values are masked */
+  redactHeaders: string[];
+  /** JSON field and query parameter names whose values are masked (at any depth) */
+  redactFields: string[];
+  /** Bodies longer than this many characters are truncated (0 = no limit) */
+  maxBodyLength: number;
+}
+
+export const defaultLogRedaction: LogRedactionOptions = {
+  redactHeaders: ['Authorization', 'Proxy-Authorization', 'X-API-Key', 'Cookie', 'Set-Cookie'],
+  redactFields: [
+    'password',
+    'token',
+    'accessToken',
+    'access_token',
+    'refreshToken',
+    'refresh_token',
+    'idToken',
+    'id_token',
+    'secret',
+    'clientSecret',
+    'client_secret',
+    'apiKey',
+    'api_key',
+  ],
+  maxBodyLength: 2000,
+};
+
+export const redactedValue = '[REDACTED]';
+
+// MARK: - Redaction
+
+/**
+ * Copy of the headers with sensitive values masked
+ * @param headers Request or response headers
+ * @param options Redaction options
+ * @returns Headers safe to log
+ */
+export function redactHeaders(headers: Record<string, string>, options: LogRedactionOptions): Record<string, string> {
+  const sensitive = lowercased(options.redactHeaders);
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = sensitive.has(name.toLowerCase()) ? redactedValue : value;
+  }
+  return result;
+}
+
+/**
+ * Body text with sensitive JSON fields masked, truncated to maxBodyLength
+ * @param body Body text (JSON or anything else)
+ * @param options Redaction options
+ * @returns Body safe to log
+ */
+export function redactBody(body: string, options: LogRedactionOptions): string {
+  let text = body;
+  const sensitive = lowercased(options.redactFields);
+
+  if (sensitive.size > 0 && /^\s*[[{]/.test(body)) {
+    try {
+      text = JSON.stringify(redactValue(JSON.parse(body), sensitive));
+    } catch {
+      // Not JSON; log as-is
+    }
+  }
+
+  return truncate(text, options.maxBodyLength);
+}
+
+/**
+ * URL with sensitive query parameters masked
+ * @param url Absolute URL
+ * @param options Redaction options
+ * @returns URL safe to log
+ */
+export function redactURL(url: string, options: LogRedactionOptions): string {
+  const queryIndex = url.indexOf('?');
+  if (queryIndex === -1) return url;
+
+  const sensitive = lowercased(options.redactFields);
+  const query = url
+    .slice(queryIndex + 1)
+    .split('&')
+    .map(pair => {
+      const separator = pair.indexOf('=');
+      const name = decodeURIComponentSafe(separator === -1 ? pair : pair.slice(0, separator));
+      // Strip array suffixes such as 'token[]' before matching
+      return separator !== -1 && sensitive.has(name.replace(/\[.*\]$/, '').toLowerCase())
+        ? `${pair.slice(0, separator)}=${redactedValue}`
+        : pair;
+    })
+    .join('&');
+  return `${url.slice(0, queryIndex)}?${query}`;
+}
+
+/**
+ * Shortens text to maxLength characters, noting how much was cut
+ * @param text Text to shorten
+ * @param maxLength Maximum length (0 = no limit)
+ */
+export function truncate(text: string, maxLength: number): string {
+  if (maxLength <= 0 || text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}… [${text.length - maxLength} more characters]`;
+}
+
+// MARK: - Private Helpers
+
+function redactValue(value: unknown, sensitive: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, sensitive));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = sensitive.has(key.toLowerCase()) ? redactedValue : redactValue(item, sensitive);
+    }
+    return result;
+  }
+  return value;
+}
+
+function lowercased(names: string[]): Set<string> {
+  return new Set(names.map(name => name.toLowerCase()));
+}
+
+function decodeURIComponentSafe(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
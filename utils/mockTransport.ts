@@ -0,0 +1,332 @@
+/*
+ * MOCK TRANSPORT REFERENCE GUIDE
+ *
+ * An in-memory APITransport that lets APIService run without a live server.
+ * Useful for unit tests, UI development and as a "demo mode" backend for
+ * App Store review builds.
+ *
+ * Features:
+ * - Route matching by method and path template (e.g. '/users/:id') or RegExp
+ * - Canned JSON responses or dynamic handlers
+ * - Artificial latency (fixed or random range)
+ * - Failure injection (random failure rate, fail next request)
+ * - Request recording for assertions
+ * - Deterministic replay of a HAR recording (see har.ts)
+ *
+ * Usage Examples:
+ * const mock = new MockTransport();
+ * mock.route(HTTPMethod.GET, '/users/:id', ({ params }) => ({
+ *   body: { id: params.id, name: 'Jane Appleseed' },
+ * }));
+ * mock.route(HTTPMethod.POST, '/orders', { status: 201, body: { id: 'order_1' } });
+ *
+ * APIService.shared.setTransport(mock);
+ * const user = await APIService.shared.get<User>('/users/42');
+ *
+ * // Simulate a slow, flaky connection
+ * mock.setLatency(200, 1500);
+ * mock.setFailureRate(0.1);
+ *
+ * // Fail the next request with a network error, or with a specific response
+ * mock.failNextRequest();
+ * mock.failNextRequest({ status: 503 });
+ *
+ * // Replay a session recorded with HarRecorder (routes added later take precedence)
+ * mock.replayHAR(require('./bug-1234.har.json'));
+ *
+ * // Assert on what was sent
+ * expect(mock.recordedRequests[0].headers['Authorization']).toBe('Bearer token');
+ *
+ * Notes:
+ * - Paths are matched against the end of the URL pathname, so routes work
+ *   regardless of the base URL's path prefix (e.g. '/v1')
+ * - Unmatched requests receive a 404 response
+ * - With a HAR loaded, requests are answered from the recording when it has a
+ *   matching entry, otherwise by the routes
+ */
+
+import { abortError, APIRequest, APITransport, HTTPMethod } from './apiService';
+import { HarLog, HarReplay, HarReplayOptions } from './har';
+
+// MARK: - Mock Types
+export interface MockResponse {
+  status?: number; // Defaults to 200
+  body?: unknown; // Serialized as JSON unless it is already a string
+  headers?: Record<string, string>;
+}
+
+export interface MockRequestContext {
+  request: APIRequest;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body?: unknown; // Parsed JSON body if possible, raw body otherwise
+}
+
+export type MockHandler = (context: MockRequestContext) => MockResponse | Promise<MockResponse>;
+
+export interface MockRouteOptions {
+  /** Extra latency for this route in milliseconds */
+  delay?: number;
+  /** Number of times this route can match before it is removed */
+  times?: number;
+}
+
+interface MockRoute {
+  method: HTTPMethod | '*';
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+  options: MockRouteOptions;
+}
+
+// MARK: - Mock Transport
+export class MockTransport implements APITransport {
+  private routes: MockRoute[] = [];
+  private requests: APIRequest[] = [];
+  private minLatency = 0;
+  private maxLatency = 0;
+  private failureRate = 0;
+  private pendingFailures: (MockResponse | null)[] = [];
+  private harReplay?: HarReplay;
+
+  // MARK: - Configuration
+
+  /**
+   * Register a route. Later routes take precedence over earlier ones.
+   * @param method HTTP method, or '*' for any method
+   * @param path Path template (e.g. '/users/:id') or RegExp tested against the pathname
+   * @param response Canned response or handler function
+   * @param options Optional route options (delay, times)
+   */
+  route(
+    method: HTTPMethod | '*',
+    path: string | RegExp,
+    response: MockResponse | MockHandler,
+    options: MockRouteOptions = {}
+  ): void {
+    const { pattern, paramNames } = this.compilePath(path);
+    const handler = typeof response === 'function' ? response : () => response;
+    this.routes.unshift({ method, pattern, paramNames, handler, options: { ...options } });
+  }
+
+  /**
+   * Answer requests from a HAR recording, matched on method, URL and body
+   * @param har HAR 1.2 archive (object or JSON text)
+   * @param options Matching and timing options
+   */
+  replayHAR(har: HarLog | string, options: HarReplayOptions = {}): void {
+    this.harReplay = new HarReplay(har, options);
+  }
+
+  /**
+   * Stop answering requests from the HAR recording
+   */
+  stopReplayingHAR(): void {
+    this.harReplay = undefined;
+  }
+
+  /**
+   * Set artificial latency applied to every request
+   * @param min Minimum latency in milliseconds
+   * @param max Maximum latency in milliseconds (defaults to min)
+   */
+  setLatency(min: number, max: number = min): void {
+    this.minLatency = min;
+    this.maxLatency = Math.max(min, max);
+  }
+
+  /**
+   * Randomly fail a fraction of requests with a network error
+   * @param rate Value between 0 (never) and 1 (always)
+   */
+  setFailureRate(rate: number): void {
+    this.failureRate = Math.min(1, Math.max(0, rate));
+  }
+
+  /**
+   * Fail the next request
+   * @param response Response to return, or omit to simulate a network error
+   */
+  failNextRequest(response?: MockResponse): void {
+    this.pendingFailures.push(response ?? null);
+  }
+
+  /**
+   * Remove all routes, recorded requests and failure settings
+   */
+  reset(): void {
+    this.routes = [];
+    this.requests = [];
+    this.minLatency = 0;
+    this.maxLatency = 0;
+    this.failureRate = 0;
+    this.pendingFailures = [];
+    this.harReplay = undefined;
+  }
+
+  // MARK: - Recorded Requests
+
+  /**
+   * Requests received so far, oldest first
+   */
+  get recordedRequests(): APIRequest[] {
+    return [...this.requests];
+  }
+
+  /**
+   * Clear the recorded requests
+   */
+  clearRecordedRequests(): void {
+    this.requests = [];
+  }
+
+  // MARK: - APITransport
+
+  async send(request: APIRequest, signal: AbortSignal): Promise<Response> {
+    this.requests.push({ ...request, headers: { ...request.headers } });
+
+    const url = new URL(request.url);
+    const harEntry = this.harReplay?.match(request);
+    const match = harEntry ? null : this.matchRoute(request.method, url.pathname);
+
+    const latency = this.minLatency + Math.random() * (this.maxLatency - this.minLatency);
+    const recordedTime = harEntry && this.harReplay?.usesRecordedTimings ? harEntry.time : 0;
+    await this.sleep(latency + recordedTime + (match?.route.options.delay ?? 0), signal);
+
+    // Failure injection
+    if (this.pendingFailures.length > 0) {
+      const failure = this.pendingFailures.shift();
+      if (failure) {
+        return this.buildResponse(failure);
+      }
+      throw new TypeError('Network request failed');
+    }
+
+    if (Math.random() < this.failureRate) {
+      throw new TypeError('Network request failed');
+    }
+
+    if (harEntry) {
+      return HarReplay.toResponse(harEntry);
+    }
+
+    if (!match) {
+      return this.buildResponse({
+        status: 404,
+        body: { error: `No mock route for ${request.method} ${url.pathname}` },
+      });
+    }
+
+    const { route, params } = match;
+    if (route.options.times !== undefined && --route.options.times <= 0) {
+      this.routes = this.routes.filter(r => r !== route);
+    }
+
+    const mockResponse = await route.handler({
+      request,
+      params,
+      query: Object.fromEntries(url.searchParams.entries()),
+      body: this.parseBody(request.body),
+    });
+
+    return this.buildResponse(mockResponse);
+  }
+
+  // MARK: - Private Methods
+
+  private compilePath(path: string | RegExp): { pattern: RegExp; paramNames: string[] } {
+    if (path instanceof RegExp) {
+      return { pattern: path, paramNames: [] };
+    }
+
+    const paramNames: string[] = [];
+    const source = path
+      .replace(/\/$/, '')
+      .split('/')
+      .map(segment => {
+        if (segment.startsWith(':')) {
+          paramNames.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    return { pattern: new RegExp(`${source}/?$`), paramNames };
+  }
+
+  private matchRoute(
+    method: HTTPMethod,
+    pathname: string
+  ): { route: MockRoute; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== '*' && route.method !== method) {
+        continue;
+      }
+
+      const result = route.pattern.exec(pathname);
+      if (!result) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      route.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(result[index + 1]);
+      });
+      return { route, params };
+    }
+
+    return null;
+  }
+
+  private parseBody(body: APIRequest['body']): unknown {
+    if (typeof body !== 'string') {
+      return body;
+    }
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+
+  private buildResponse(mockResponse: MockResponse): Response {
+    const status = mockResponse.status ?? 200;
+    const headers: Record<string, string> = { ...mockResponse.headers };
+    let body: string | null = null;
+
+    if (mockResponse.body !== undefined && status !== 204) {
+      if (typeof mockResponse.body === 'string') {
+        body = mockResponse.body;
+      } else {
+        body = JSON.stringify(mockResponse.body);
+        headers['Content-Type'] = headers['Content-Type'] ?? 'application/json';
+      }
+    }
+
+    return new Response(body, { status, headers });
+  }
+
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(abortError(signal));
+        return;
+      }
+      if (ms <= 0) {
+        resolve();
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError(signal));
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
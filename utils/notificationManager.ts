@@ -34,6 +34,7 @@
  * Configuration:
  * - Set app badge: NotificationManager.shared.setBadgeCount(5)
  * - Enable/disable campaigns: NotificationManager.shared.setCampaignsEnabled(true)
+ * - Shorten campaign delays for testing: NotificationManager.shared.setCampaignDelayScale(1 / 60) // hours become minutes
  * - Configure campaign schedule: customize campaigns in the campaigns array
  */
 
@@ -108,6 +109,7 @@ export class NotificationManager extends SimpleEventEmitter {
   // MARK: - Properties
   private isInitialized = false;
   private campaignsEnabled = true;
+  private campaignDelayScale = 1;
 
   // Keys for AsyncStorage
   private readonly campaignStartedKey = 'notification_campaign_started';
@@ -409,7 +411,7 @@ export class NotificationManager extends SimpleEventEmitter {
    * @param campaign Campaign notification to schedule
    */
   private async scheduleCampaignNotification(campaign: CampaignNotification): Promise<void> {
-    const delaySeconds = campaign.delayHours * 3600; // Convert hours to seconds
+    const delaySeconds = Math.max(1, Math.round(campaign.delayHours * 3600 * this.campaignDelayScale)); // Convert hours to seconds
 
     const content: Notifications.NotificationContentInput = {
       title: campaign.title,
@@ -486,6 +488,15 @@ export class NotificationManager extends SimpleEventEmitter {
     console.log(`📢 Campaigns ${enabled ? 'enabled' : 'disabled'}`);
   }
 
+  /**
+   * Scale campaign delays, e.g. to run the whole schedule in minutes while testing.
+   * Applies to campaigns started afterwards.
+   * @param scale Multiplier for each campaign's delayHours (default: 1)
+   */
+  setCampaignDelayScale(scale: number): void {
+    this.campaignDelayScale = scale > 0 ? scale : 1;
+  }
+
   // MARK: - Badge Management
 
   /**
@@ -0,0 +1,410 @@
+/*
+ * OFFLINE QUEUE REFERENCE GUIDE
+ *
+ * A durable outbox for mutations (POST/PUT/PATCH/DELETE) made through APIService.
+ * Requests that fail with a network error are persisted to AsyncStorage and
+ * replayed in order once connectivity comes back, including after app restarts.
+ *
+ * Features:
+ * - Opt-in per request (only requests sent through the queue are persisted)
+ * - Strict FIFO replay (new requests wait behind pending ones)
+ * - Idempotency-Key header per request, stable across replays
+ * - Automatic replay on app foreground, on any successful API response
+ *   and on a backoff timer
+ * - Events for "pending sync" UI
+ *
+ * Usage Examples:
+ * // Enable once at app startup (loads persisted requests and starts replaying)
+ * await OfflineQueue.shared.enable();
+ *
+ * // Send a mutation that survives being offline
+ * const result = await OfflineQueue.shared.send<Like>(HTTPMethod.POST, '/likes', { postId }, undefined, { postId });
+ * if (result.status === 'queued') {
+ *   showPendingBadge(result.request.id);
+ * }
+ *
+ * // Listen for queue changes
+ * OfflineQueue.shared.on('queueChanged', (pending: QueuedRequest[]) => setPendingCount(pending.length));
+ * OfflineQueue.shared.on('requestSent', (request: QueuedRequest, data: any) => clearPendingBadge(request.id));
+ *
+ * // Report connectivity if you use a network status library
+ * NetInfo.addEventListener(state => OfflineQueue.shared.setOnline(!!state.isConnected));
+ *
+ * Notes:
+ * - send queues a mutation on any transient error: network errors, 5xx, rate limiting
+ *   and open circuits (CIRCUIT_OPEN). Other errors are thrown to the caller.
+ * - Rate limiting and open circuits are replayed no earlier than the error's retryAfter
+ *
+ * Events:
+ * - queueChanged (pending: QueuedRequest[])
+ * - requestQueued (request: QueuedRequest)
+ * - requestSent (request: QueuedRequest, data: any)
+ * - requestFailed (request: QueuedRequest, error: APIError) - dropped after a permanent error
+ * - syncStarted (pendingCount: number)
+ * - syncCompleted (pendingCount: number)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { APIError, APIErrorType, APIService, HTTPMethod, ResponseInterceptor } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+import { randomUUID } from './hash';
+
+// MARK: - Queue Types
+export interface QueuedRequest {
+  id: string;
+  method: HTTPMethod;
+  endpoint: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  idempotencyKey: string;
+  createdAt: string; // ISO date
+  attempts: number;
+  metadata?: Record<string, any>; // App data for matching UI state to the request
+}
+
+export type OfflineQueueResult<T> =
+  | { status: 'sent'; data: T }
+  | { status: 'queued'; request: QueuedRequest };
+
+// Errors worth replaying later; anything else is permanent and the request is dropped
+const transientErrorTypes: APIErrorType[] = [
+  APIErrorType.NETWORK_ERROR,
+  APIErrorType.SERVER_ERROR,
+  APIErrorType.RATE_LIMITED,
+  APIErrorType.CIRCUIT_OPEN,
+];
+
+const minRetryDelay = 5000; // 5 seconds
+const maxRetryDelay = 5 * 60 * 1000; // 5 minutes
+
+// MARK: - Offline Queue
+export class OfflineQueue extends SimpleEventEmitter {
+  public static readonly shared = new OfflineQueue();
+
+  // MARK: - Properties
+  private queue: QueuedRequest[] = [];
+  private loadPromise?: Promise<void>;
+  private isEnabled = false;
+  private isFlushing = false;
+  private isDebugMode = false;
+  private maxAttempts = 10;
+  private retryDelay = minRetryDelay;
+  private retryNotBefore = 0; // Epoch milliseconds; set from an error's retryAfter
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private appStateSubscription?: NativeEventSubscription;
+
+  // Keys for AsyncStorage
+  private readonly queueKey = 'offline_request_queue';
+
+  private constructor() {
+    super();
+  }
+
+  // MARK: - Getters
+  get pendingRequests(): QueuedRequest[] {
+    return [...this.queue];
+  }
+
+  get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  // MARK: - Configuration
+
+  /**
+   * Load persisted requests and start replaying them automatically
+   */
+  async enable(): Promise<void> {
+    if (this.isEnabled) return;
+    this.isEnabled = true;
+
+    await this.ensureLoaded();
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    APIService.shared.addResponseInterceptor(this.connectivityInterceptor);
+
+    if (this.isDebugMode) {
+      console.log(`📤 Offline queue enabled with ${this.queue.length} pending requests`);
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Stop replaying automatically. Pending requests stay persisted.
+   */
+  disable(): void {
+    if (!this.isEnabled) return;
+    this.isEnabled = false;
+
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = undefined;
+    APIService.shared.removeResponseInterceptor(this.connectivityInterceptor);
+    this.cancelRetryTimer();
+  }
+
+  /**
+   * Set how many times a request is replayed before it is dropped
+   * @param maxAttempts Maximum number of attempts (default: 10)
+   */
+  setMaxAttempts(maxAttempts: number): void {
+    this.maxAttempts = maxAttempts;
+  }
+
+  /**
+   * Enable or disable debug logging
+   * @param enabled Whether debug mode is enabled
+   */
+  setDebugMode(enabled: boolean): void {
+    this.isDebugMode = enabled;
+  }
+
+  /**
+   * Report connectivity changes (e.g. from NetInfo). Going online replays the queue.
+   * @param isOnline Whether the device is online
+   */
+  setOnline(isOnline: boolean): void {
+    if (isOnline) {
+      this.retryDelay = minRetryDelay;
+      this.flush();
+    } else {
+      this.cancelRetryTimer();
+    }
+  }
+
+  // MARK: - Sending
+
+  /**
+   * Send a mutation, persisting it for later replay if the device is offline
+   * @param method HTTP method (POST, PUT, PATCH or DELETE)
+   * @param endpoint API endpoint
+   * @param body Optional request body object
+   * @param headers Optional additional headers
+   * @param metadata Optional app data stored with the queued request
+   * @returns The response if sent, or the queued request
+   */
+  async send<T, U = any>(
+    method: HTTPMethod,
+    endpoint: string,
+    body?: U,
+    headers?: Record<string, string>,
+    metadata?: Record<string, any>
+  ): Promise<OfflineQueueResult<T>> {
+    await this.ensureLoaded();
+
+    const request: QueuedRequest = {
+      id: randomUUID(),
+      method,
+      endpoint,
+      body,
+      headers,
+      idempotencyKey: randomUUID(),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      metadata,
+    };
+
+    // Keep ordering: never overtake requests that are already waiting
+    if (this.queue.length > 0) {
+      await this.enqueue(request);
+      this.flush();
+      return { status: 'queued', request };
+    }
+
+    try {
+      const data = await this.perform<T>(request);
+      return { status: 'sent', data };
+    } catch (error) {
+      // Queue on the same errors flush retries, e.g. while offline or while the host's circuit is open
+      if (error instanceof APIError && transientErrorTypes.includes(error.type)) {
+        this.recordTransientFailure(request, error);
+        await this.enqueue(request);
+        this.scheduleRetry();
+        return { status: 'queued', request };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replay pending requests in order. Stops at the first transient failure.
+   */
+  async flush(): Promise<void> {
+    await this.ensureLoaded();
+    if (this.isFlushing || this.queue.length === 0) return;
+
+    // The server or circuit breaker asked us to wait
+    if (Date.now() < this.retryNotBefore) {
+      this.scheduleRetry();
+      return;
+    }
+
+    this.isFlushing = true;
+    this.cancelRetryTimer();
+    this.emit('syncStarted', this.queue.length);
+
+    try {
+      while (this.queue.length > 0) {
+        const request = this.queue[0];
+
+        try {
+          const data = await this.perform(request);
+          await this.removeFromQueue(request.id);
+          this.retryDelay = minRetryDelay;
+          this.emit('requestSent', request, data);
+        } catch (error) {
+          const apiError = error instanceof APIError ? error : APIError.networkError(error);
+          const isTransient = transientErrorTypes.includes(apiError.type);
+          if (isTransient) {
+            this.recordTransientFailure(request, apiError);
+          } else {
+            request.attempts += 1;
+          }
+
+          if (isTransient && request.attempts < this.maxAttempts) {
+            await this.persist();
+            this.scheduleRetry();
+            break;
+          }
+
+          if (this.isDebugMode) {
+            console.log(`❌ Dropping queued request ${request.method} ${request.endpoint}: ${apiError.message}`);
+          }
+          await this.removeFromQueue(request.id);
+          this.emit('requestFailed', request, apiError);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      this.emit('syncCompleted', this.queue.length);
+    }
+  }
+
+  /**
+   * Remove a pending request without sending it
+   * @param id Queued request id
+   */
+  async remove(id: string): Promise<void> {
+    await this.ensureLoaded();
+    await this.removeFromQueue(id);
+  }
+
+  /**
+   * Remove all pending requests
+   */
+  async clear(): Promise<void> {
+    await this.ensureLoaded();
+    this.queue = [];
+    this.cancelRetryTimer();
+    await this.persist();
+    this.emit('queueChanged', this.pendingRequests);
+  }
+
+  // MARK: - Private Methods
+
+  private perform<T>(request: QueuedRequest): Promise<T> {
+    return APIService.shared.request<T>(
+      request.method,
+      request.endpoint,
+      request.body,
+      { ...request.headers, 'Idempotency-Key': request.idempotencyKey },
+      // Safe to retry: the server deduplicates by idempotency key
+      { retry: { retryNonIdempotent: true } }
+    );
+  }
+
+  /**
+   * Counts a transient failure against the request and honors the error's retryAfter
+   */
+  private recordTransientFailure(request: QueuedRequest, error: APIError): void {
+    // An open circuit fails fast without reaching the server, so it doesn't use up an attempt
+    if (error.type !== APIErrorType.CIRCUIT_OPEN) {
+      request.attempts += 1;
+    }
+    if (error.retryAfter !== undefined) {
+      this.retryNotBefore = Date.now() + error.retryAfter;
+    }
+  }
+
+  private async enqueue(request: QueuedRequest): Promise<void> {
+    this.queue.push(request);
+    await this.persist();
+
+    this.emit('requestQueued', request);
+    this.emit('queueChanged', this.pendingRequests);
+
+    if (this.isDebugMode) {
+      console.log(`📥 Queued ${request.method} ${request.endpoint} (${this.queue.length} pending)`);
+    }
+  }
+
+  private async removeFromQueue(id: string): Promise<void> {
+    this.queue = this.queue.filter(request => request.id !== id);
+    await this.persist();
+    this.emit('queueChanged', this.pendingRequests);
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(this.queueKey);
+      if (data) {
+        // Requests queued before loading finished go after persisted ones
+        this.queue = [...JSON.parse(data), ...this.queue];
+      }
+    } catch (error) {
+      if (this.isDebugMode) {
+        console.log(`❌ Error loading offline queue: ${error}`);
+      }
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.queueKey, JSON.stringify(this.queue));
+    } catch (error) {
+      if (this.isDebugMode) {
+        console.log(`❌ Error saving offline queue: ${error}`);
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (!this.isEnabled || this.retryTimer) return;
+
+    const delay = Math.max(this.retryDelay, this.retryNotBefore - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.flush();
+    }, delay);
+    this.retryDelay = Math.min(maxRetryDelay, this.retryDelay * 2);
+  }
+
+  private cancelRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus): void => {
+    if (state === 'active') {
+      this.flush();
+    }
+  };
+
+  // Any response from the server means we are back online
+  private connectivityInterceptor: ResponseInterceptor = response => {
+    if (this.queue.length > 0 && !this.isFlushing) {
+      setTimeout(() => this.flush(), 0);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,422 @@
+/*
+ * PAGINATOR REFERENCE GUIDE
+ *
+ * Loads a paginated collection through APIService page by page, keeping the
+ * loaded items, the position of the next page and loading state in one place.
+ * Pair it with the usePaginator hook for infinite-scroll lists.
+ *
+ * Features:
+ * - Cursor pagination (`?cursor=…&limit=…`, next cursor read from the response)
+ * - Page/limit pagination (`?page=…&limit=…`)
+ * - Link header pagination (RFC 8288 `rel="next"`, e.g. GitHub-style APIs)
+ * - loadNext, refresh, hasMore and deduplication by id
+ * - Async iteration over every item across all pages
+ *
+ * Usage Examples:
+ * // Cursor pagination: { items: Post[], nextCursor: string | null }
+ * const posts = new Paginator<Post>({
+ *   endpoint: '/posts',
+ *   strategy: { type: 'cursor' },
+ *   params: { tag: 'news' },
+ * });
+ * await posts.loadNext();
+ * console.log(posts.items, posts.hasMore);
+ *
+ * // Page/limit pagination with a custom response shape
+ * const users = new Paginator<User>({
+ *   endpoint: '/users',
+ *   strategy: { type: 'page', getItems: (response) => response.results, getTotal: (response) => response.count },
+ *   pageSize: 50,
+ * });
+ *
+ * // Link header pagination: the body is the array of items
+ * const repos = new Paginator<Repo>({ endpoint: '/user/repos', strategy: { type: 'link' } });
+ *
+ * // Fetch everything (e.g. for an export)
+ * for await (const user of users) {
+ *   rows.push(toCSVRow(user));
+ * }
+ *
+ * // Pull to refresh
+ * await posts.refresh();
+ *
+ * Events:
+ * - change (state: PaginatorState<T>)
+ *
+ * Notes:
+ * - Items are returned from the response body as-is when it is an array,
+ *   otherwise from its `items` or `data` field (override with getItems)
+ * - Items with an id already in the list are skipped, so shifting offsets
+ *   never produce duplicates (override the id with getId)
+ */
+
+import { APIError, APIService, QueryParams, RequestOptions } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+
+// MARK: - Pagination Strategies
+interface BaseStrategy<T> {
+  /** Items of a page (default: the body if it is an array, else `items` or `data`) */
+  getItems?: (response: any) => T[];
+}
+
+export interface CursorStrategy<T> extends BaseStrategy<T> {
+  type: 'cursor';
+  /** Query parameter for the cursor (default: 'cursor') */
+  cursorParam?: string;
+  /** Next cursor, or null on the last page (default: `nextCursor`, `next_cursor` or `pageInfo.endCursor`) */
+  getNextCursor?: (response: any) => string | null | undefined;
+}
+
+export interface PageStrategy<T> extends BaseStrategy<T> {
+  type: 'page';
+  /** Query parameter for the page number (default: 'page') */
+  pageParam?: string;
+  /** Number of the first page (default: 1) */
+  firstPage?: number;
+  /** Total number of items, if the API returns it (otherwise a short page marks the end) */
+  getTotal?: (response: any) => number | undefined;
+}
+
+export interface LinkHeaderStrategy<T> extends BaseStrategy<T> {
+  type: 'link';
+}
+
+export type PaginationStrategy<T> = CursorStrategy<T> | PageStrategy<T> | LinkHeaderStrategy<T>;
+
+// MARK: - Paginator Types
+export interface PaginatorOptions<T> {
+  /** APIService client used to load pages (default: APIService.shared) */
+  client?: APIService;
+  endpoint: string;
+  strategy: PaginationStrategy<T>;
+  /** Items per page (default: 20) */
+  pageSize?: number;
+  /** Query parameter for the page size (default: 'limit') */
+  limitParam?: string;
+  /** Additional query parameters sent with every page */
+  params?: QueryParams;
+  headers?: Record<string, string>;
+  /** Id used for deduplication (default: `item.id`); return undefined to keep every item */
+  getId?: (item: T) => string | number | undefined;
+  /** Other per-request options (e.g. decoder for the page response) */
+  requestOptions?: Omit<RequestOptions, 'params' | 'signal' | 'onResponse'>;
+}
+
+export interface PaginatorState<T> {
+  items: T[];
+  hasMore: boolean;
+  isLoading: boolean;
+  isRefreshing: boolean;
+  error?: APIError;
+}
+
+interface PageResult<T> {
+  items: T[];
+  hasMore: boolean;
+  nextCursor?: string | null;
+  nextPage?: number;
+  nextEndpoint?: string | null;
+}
+
+// MARK: - Paginator
+export class Paginator<T> extends SimpleEventEmitter implements AsyncIterable<T> {
+  private readonly options: PaginatorOptions<T>;
+  private readonly pageSize: number;
+  private snapshot: PaginatorState<T> = { items: [], hasMore: true, isLoading: false, isRefreshing: false };
+  private seenIds = new Set<string | number>();
+  private nextCursor?: string | null;
+  private nextPage: number;
+  private nextEndpoint?: string | null;
+  private pendingLoad?: Promise<T[]>;
+  private controller?: AbortController;
+  private generation = 0; // Incremented on refresh/reset so stale responses are ignored
+
+  constructor(options: PaginatorOptions<T>) {
+    super();
+    this.options = options;
+    this.pageSize = options.pageSize ?? 20;
+    this.nextPage = this.firstPage;
+  }
+
+  // MARK: - Getters
+  get state(): PaginatorState<T> {
+    return this.snapshot;
+  }
+
+  get items(): T[] {
+    return this.snapshot.items;
+  }
+
+  get hasMore(): boolean {
+    return this.snapshot.hasMore;
+  }
+
+  get isLoading(): boolean {
+    return this.snapshot.isLoading;
+  }
+
+  get error(): APIError | undefined {
+    return this.snapshot.error;
+  }
+
+  // MARK: - Loading
+
+  /**
+   * Load the next page. Concurrent calls share the same request.
+   * @returns Items added by this page (after deduplication)
+   */
+  loadNext(): Promise<T[]> {
+    if (this.pendingLoad) {
+      return this.pendingLoad;
+    }
+    if (!this.snapshot.hasMore) {
+      return Promise.resolve([]);
+    }
+
+    return this.track(this.load(false));
+  }
+
+  /**
+   * Reload from the first page. Current items stay visible until the first page arrives.
+   * @returns Items of the first page
+   */
+  refresh(): Promise<T[]> {
+    this.cancel();
+    return this.track(this.load(true));
+  }
+
+  /**
+   * Clear all items and start over without loading
+   */
+  reset(): void {
+    this.cancel();
+    this.seenIds.clear();
+    this.resetPosition();
+    this.update({ items: [], hasMore: true, isLoading: false, isRefreshing: false, error: undefined });
+  }
+
+  /**
+   * Cancel the request in progress (its result is discarded)
+   */
+  cancel(): void {
+    this.generation++;
+    this.controller?.abort();
+    this.controller = undefined;
+    this.pendingLoad = undefined;
+    if (this.snapshot.isLoading) {
+      this.update({ isLoading: false, isRefreshing: false });
+    }
+  }
+
+  /**
+   * Iterate over every item: the items already loaded, then each remaining page
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    let index = 0;
+    while (true) {
+      const items = this.snapshot.items;
+      while (index < items.length) {
+        yield items[index++];
+      }
+      if (!this.snapshot.hasMore) return;
+      await this.loadNext();
+    }
+  }
+
+  // MARK: - Private Methods
+
+  /**
+   * Makes the load the shared pending one until it settles. A superseded load
+   * (e.g. replaced by refresh) must not clear the load that replaced it.
+   */
+  private track(load: Promise<T[]>): Promise<T[]> {
+    const pendingLoad: Promise<T[]> = load.finally(() => {
+      if (this.pendingLoad === pendingLoad) {
+        this.pendingLoad = undefined;
+      }
+    });
+    this.pendingLoad = pendingLoad;
+    return pendingLoad;
+  }
+
+  private async load(isRefresh: boolean): Promise<T[]> {
+    const generation = ++this.generation;
+    const controller = new AbortController();
+    this.controller = controller;
+    this.update({ isLoading: true, isRefreshing: isRefresh, error: undefined });
+
+    try {
+      const page = await this.fetchPage(isRefresh, controller.signal);
+      if (generation !== this.generation) {
+        return [];
+      }
+
+      if (isRefresh) {
+        this.seenIds.clear();
+      }
+      const newItems = page.items.filter(item => this.markSeen(item));
+
+      this.nextCursor = page.nextCursor;
+      this.nextPage = page.nextPage ?? this.nextPage;
+      this.nextEndpoint = page.nextEndpoint;
+
+      this.update({
+        items: isRefresh ? newItems : [...this.snapshot.items, ...newItems],
+        hasMore: page.hasMore,
+        isLoading: false,
+        isRefreshing: false,
+      });
+      return newItems;
+    } catch (error) {
+      const apiError = error instanceof APIError ? error : APIError.networkError(error as Error);
+      if (generation === this.generation) {
+        this.update({ isLoading: false, isRefreshing: false, error: apiError });
+      }
+      throw apiError;
+    } finally {
+      if (this.controller === controller) {
+        this.controller = undefined;
+      }
+    }
+  }
+
+  private async fetchPage(fromStart: boolean, signal: AbortSignal): Promise<PageResult<T>> {
+    const { strategy, limitParam = 'limit' } = this.options;
+    const params: QueryParams = { ...this.options.params };
+    let endpoint = this.options.endpoint;
+
+    switch (strategy.type) {
+      case 'cursor':
+        params[limitParam] = this.pageSize;
+        if (!fromStart && this.nextCursor) {
+          params[strategy.cursorParam ?? 'cursor'] = this.nextCursor;
+        }
+        break;
+      case 'page':
+        params[limitParam] = this.pageSize;
+        params[strategy.pageParam ?? 'page'] = fromStart ? this.firstPage : this.nextPage;
+        break;
+      case 'link':
+        if (!fromStart && this.nextEndpoint) {
+          // The next link already carries every query parameter
+          endpoint = this.nextEndpoint;
+          Object.keys(params).forEach(key => delete params[key]);
+        } else {
+          params[limitParam] = this.pageSize;
+        }
+        break;
+    }
+
+    let linkHeader: string | null = null;
+    const response = await this.client.get<any>(endpoint, this.options.headers, {
+      ...this.options.requestOptions,
+      params,
+      signal,
+      onResponse: httpResponse => {
+        linkHeader = httpResponse.headers.get('Link');
+      },
+    });
+
+    const items = (strategy.getItems ?? defaultGetItems)(response) as T[];
+
+    switch (strategy.type) {
+      case 'cursor': {
+        const nextCursor = (strategy.getNextCursor ?? defaultGetNextCursor)(response) ?? null;
+        return { items, nextCursor, hasMore: nextCursor !== null && items.length > 0 };
+      }
+      case 'page': {
+        const page = fromStart ? this.firstPage : this.nextPage;
+        const total = strategy.getTotal?.(response);
+        const loadedCount = (page - this.firstPage) * this.pageSize + items.length;
+        const hasMore = total !== undefined ? loadedCount < total : items.length >= this.pageSize;
+        return { items, nextPage: page + 1, hasMore };
+      }
+      case 'link': {
+        const nextURL = parseLinkHeader(linkHeader).next;
+        const nextEndpoint = nextURL ? this.endpointFromURL(nextURL) : null;
+        return { items, nextEndpoint, hasMore: nextEndpoint !== null };
+      }
+    }
+  }
+
+  /**
+   * Converts an absolute next link into an endpoint relative to the client's base URL
+   */
+  private endpointFromURL(url: string): string {
+    const baseURL = this.client.getBaseURL();
+    if (url.startsWith('/')) {
+      // Root-relative link: keep the base URL's path prefix only if the link repeats it
+      const basePath = baseURL.replace(/^[a-z]+:\/\/[^/]*/i, '');
+      return basePath && url.startsWith(basePath) ? url.slice(basePath.length) : url;
+    }
+    if (!url.startsWith(baseURL)) {
+      throw APIError.invalidURL();
+    }
+    return url.slice(baseURL.length);
+  }
+
+  private markSeen(item: T): boolean {
+    const id = this.options.getId ? this.options.getId(item) : (item as { id?: string | number })?.id;
+    if (id === undefined) {
+      return true;
+    }
+    if (this.seenIds.has(id)) {
+      return false;
+    }
+    this.seenIds.add(id);
+    return true;
+  }
+
+  private get client(): APIService {
+    return this.options.client ?? APIService.shared;
+  }
+
+  private get firstPage(): number {
+    return this.options.strategy.type === 'page' ? this.options.strategy.firstPage ?? 1 : 1;
+  }
+
+  private resetPosition(): void {
+    this.nextCursor = undefined;
+    this.nextPage = this.firstPage;
+    this.nextEndpoint = undefined;
+  }
+
+  private update(changes: Partial<PaginatorState<T>>): void {
+    // Replace the snapshot so React can compare states by reference
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.emit('change', this.snapshot);
+  }
+}
+
+// MARK: - Helpers
+
+function defaultGetItems(response: any): unknown[] {
+  if (Array.isArray(response)) return response;
+  return response?.items ?? response?.data ?? [];
+}
+
+function defaultGetNextCursor(response: any): string | null | undefined {
+  if (response?.pageInfo) {
+    return response.pageInfo.hasNextPage === false ? null : response.pageInfo.endCursor;
+  }
+  return response?.nextCursor ?? response?.next_cursor;
+}
+
+/**
+ * Parses an RFC 8288 Link header into URLs by relation, e.g. { next: '…', last: '…' }
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = /<([^>]*)>(.*)/.exec(part.trim());
+    if (!match) continue;
+
+    const relation = /;\s*rel="?([^";]+)"?/i.exec(match[2])?.[1];
+    relation?.split(/\s+/).forEach(rel => {
+      links[rel.toLowerCase()] = match[1];
+    });
+  }
+  return links;
+}
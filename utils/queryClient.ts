@@ -0,0 +1,355 @@
+/*
+ * QUERY CLIENT REFERENCE GUIDE
+ *
+ * In-memory store of server data for the useQuery and useMutation hooks.
+ * Each query is identified by a key (an array such as ['posts', { page: 2 }]);
+ * screens using the same key share one request and one copy of the data.
+ *
+ * Features:
+ * - Shared, deduplicated fetches per query key
+ * - Stale time: fresh data is served without refetching
+ * - Invalidation by key prefix ('posts' invalidates ['posts', 1] and ['posts', 2])
+ * - Manual cache reads/writes for optimistic updates
+ * - Unused queries are dropped after a cache time (default: 5 minutes)
+ *
+ * Usage Examples:
+ * // In components, use the hooks (see hooks/useQuery.ts and hooks/useMutation.ts)
+ * const { data, isLoading } = useQuery(['feed'], ({ signal }) => APIService.shared.get<Feed>('/feed', undefined, { signal }));
+ *
+ * // Outside components
+ * const feed = await QueryClient.shared.fetchQuery(['feed'], ({ signal }) => APIService.shared.get<Feed>('/feed', undefined, { signal }));
+ * QueryClient.shared.setQueryData<Post[]>(['posts'], posts => [...(posts ?? []), newPost]);
+ * await QueryClient.shared.invalidateQueries(['posts']);
+ *
+ * // Clear on sign out (UserManager does this automatically)
+ * QueryClient.shared.clear();
+ *
+ * Notes:
+ * - Keys are compared by value; object property order doesn't matter
+ * - Invalidated queries refetch right away if a screen is showing them,
+ *   otherwise the next time they are used
+ */
+
+// MARK: - Query Types
+export type QueryKey = readonly unknown[];
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T> {
+  data?: T;
+  error?: Error;
+  status: QueryStatus;
+  /** A request is in progress (initial load or background refetch) */
+  isFetching: boolean;
+  /** When data was last received or set (epoch milliseconds) */
+  updatedAt?: number;
+  isInvalidated: boolean;
+}
+
+export interface QueryFetcherContext {
+  key: QueryKey;
+  /** Aborted when the query is cancelled; pass it to APIService */
+  signal: AbortSignal;
+}
+
+export type QueryFetcher<T> = (context: QueryFetcherContext) => Promise<T>;
+
+export interface FetchQueryOptions {
+  /** Milliseconds data stays fresh; fresh data is returned without a request (default: 0) */
+  staleTime?: number;
+  /** Fetch even if the data is fresh */
+  force?: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<any>;
+  fetcher?: QueryFetcher<any>;
+  promise?: Promise<any>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+const idleState: QueryState<any> = { status: 'idle', isFetching: false, isInvalidated: false };
+
+// MARK: - Query Client
+export class QueryClient {
+  public static readonly shared = new QueryClient();
+
+  private queries = new Map<string, QueryEntry>();
+  private cacheTime = 5 * 60 * 1000; // 5 minutes
+
+  private constructor() {}
+
+  // MARK: - Configuration
+
+  /**
+   * Set how long queries nobody is using are kept
+   * @param cacheTime Milliseconds (default: 300000)
+   */
+  setCacheTime(cacheTime: number): void {
+    this.cacheTime = cacheTime;
+  }
+
+  // MARK: - Reading and Writing
+
+  /**
+   * Current state of a query
+   * @param key Query key
+   * @returns The state (an idle state if the query doesn't exist); the object changes whenever the state does
+   */
+  getQueryState<T>(key: QueryKey): QueryState<T> {
+    return this.queries.get(hashQueryKey(key))?.state ?? idleState;
+  }
+
+  /**
+   * Cached data of a query
+   * @param key Query key
+   */
+  getQueryData<T>(key: QueryKey): T | undefined {
+    return this.getQueryState<T>(key).data;
+  }
+
+  /**
+   * Replace the cached data of a query, e.g. for an optimistic update
+   * @param key Query key
+   * @param updater New data, or a function of the current data
+   */
+  setQueryData<T>(key: QueryKey, updater: T | ((current: T | undefined) => T)): void {
+    const entry = this.entry(key);
+    const data = typeof updater === 'function'
+      ? (updater as (current: T | undefined) => T)(entry.state.data)
+      : updater;
+    this.update(entry, { data, error: undefined, status: 'success', updatedAt: Date.now(), isInvalidated: false });
+  }
+
+  /**
+   * Whether a query has no data, was invalidated or is older than the stale time
+   * @param key Query key
+   * @param staleTime Milliseconds data stays fresh
+   */
+  isStale(key: QueryKey, staleTime: number = 0): boolean {
+    const { updatedAt, isInvalidated } = this.getQueryState(key);
+    return updatedAt === undefined || isInvalidated || Date.now() - updatedAt >= staleTime;
+  }
+
+  // MARK: - Fetching
+
+  /**
+   * Fetch a query, sharing any request already in flight for the same key
+   * @param key Query key
+   * @param fetcher Loads the data; remembered so invalidation can refetch
+   * @param options Stale time and force
+   * @returns The data
+   */
+  fetchQuery<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: FetchQueryOptions = {}): Promise<T> {
+    const entry = this.entry(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise) {
+      return entry.promise;
+    }
+    if (!options.force && entry.state.status === 'success' && !this.isStale(key, options.staleTime)) {
+      return Promise.resolve(entry.state.data);
+    }
+
+    return this.startFetch(entry);
+  }
+
+  /**
+   * Mark queries as stale and refetch the ones currently on screen
+   * @param prefix Key prefix to match, or omit for every query
+   */
+  async invalidateQueries(prefix?: QueryKey): Promise<void> {
+    const refetches: Promise<unknown>[] = [];
+
+    for (const entry of this.matching(prefix)) {
+      this.update(entry, { isInvalidated: true });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        // Replace a request started before the invalidation, which may return outdated data
+        this.abort(entry);
+        refetches.push(this.startFetch(entry).catch(() => {}));
+      }
+    }
+
+    await Promise.all(refetches);
+  }
+
+  /**
+   * Abort in-flight requests, keeping the data the queries already had
+   * @param prefix Key prefix to match, or omit for every query
+   */
+  cancelQueries(prefix?: QueryKey): void {
+    for (const entry of this.matching(prefix)) {
+      this.abort(entry);
+    }
+  }
+
+  /**
+   * Remove queries and their data
+   * @param prefix Key prefix to match, or omit for every query
+   */
+  removeQueries(prefix?: QueryKey): void {
+    for (const entry of this.matching(prefix)) {
+      this.abort(entry);
+      if (entry.listeners.size > 0) {
+        // Subscribers stay attached to the entry, so reset it instead of deleting it
+        entry.state = idleState;
+        entry.listeners.forEach(listener => listener());
+      } else {
+        clearTimeout(entry.gcTimer);
+        this.queries.delete(hashQueryKey(entry.key));
+      }
+    }
+  }
+
+  /**
+   * Discard the data of one query (exact key), keeping its subscribers
+   * @param key Query key
+   */
+  resetQuery(key: QueryKey): void {
+    const entry = this.queries.get(hashQueryKey(key));
+    if (!entry) return;
+    this.abort(entry);
+    entry.state = idleState;
+    entry.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Remove every query (e.g. when the signed-in user changes)
+   */
+  clear(): void {
+    this.removeQueries();
+  }
+
+  // MARK: - Subscriptions
+
+  /**
+   * Be notified when a query's state changes. A query with subscribers is never dropped.
+   * @param key Query key
+   * @param listener Called after every change
+   * @returns Function that unsubscribes
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    clearTimeout(entry.gcTimer);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.scheduleRemoval(entry);
+      }
+    };
+  }
+
+  // MARK: - Private Methods
+
+  private entry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.queries.get(hash);
+    if (!entry) {
+      entry = { key, state: idleState, listeners: new Set() };
+      this.queries.set(hash, entry);
+      this.scheduleRemoval(entry);
+    }
+    return entry;
+  }
+
+  private matching(prefix?: QueryKey): QueryEntry[] {
+    const prefixHashes = (prefix ?? []).map(part => hashQueryKey([part]));
+    return Array.from(this.queries.values()).filter(entry =>
+      prefixHashes.every((hash, index) => index < entry.key.length && hashQueryKey([entry.key[index]]) === hash)
+    );
+  }
+
+  private startFetch(entry: QueryEntry): Promise<any> {
+    const fetcher = entry.fetcher;
+    if (!fetcher) {
+      return Promise.reject(new Error(`No fetcher for query ${hashQueryKey(entry.key)}`));
+    }
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update(entry, {
+      status: entry.state.status === 'success' ? 'success' : 'loading',
+      isFetching: true,
+    });
+
+    const promise = fetcher({ key: entry.key, signal: controller.signal })
+      .then(data => {
+        if (entry.controller === controller) {
+          this.finishFetch(entry);
+          this.update(entry, {
+            data,
+            error: undefined,
+            status: 'success',
+            isFetching: false,
+            updatedAt: Date.now(),
+            isInvalidated: false,
+          });
+        }
+        return data;
+      })
+      .catch(error => {
+        if (entry.controller === controller) {
+          this.finishFetch(entry);
+          this.update(entry, { error, status: 'error', isFetching: false });
+        }
+        throw error;
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  private finishFetch(entry: QueryEntry): void {
+    entry.controller = undefined;
+    entry.promise = undefined;
+  }
+
+  private abort(entry: QueryEntry): void {
+    const controller = entry.controller;
+    if (!controller) return;
+
+    this.finishFetch(entry);
+    this.update(entry, {
+      status: entry.state.status === 'loading' ? 'idle' : entry.state.status,
+      isFetching: false,
+    });
+    controller.abort();
+  }
+
+  private update(entry: QueryEntry, changes: Partial<QueryState<any>>): void {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private scheduleRemoval(entry: QueryEntry): void {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      const hash = hashQueryKey(entry.key);
+      if (entry.listeners.size === 0 && !entry.promise && this.queries.get(hash) === entry) {
+        this.queries.delete(hash);
+      }
+    }, this.cacheTime);
+  }
+}
+
+// MARK: - Helpers
+
+/**
+ * Stable string form of a query key (object keys sorted, so { a, b } equals { b, a })
+ * @param key Query key
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.keys(value).sort().reduce<Record<string, unknown>>((sorted, name) => {
+          sorted[name] = value[name];
+          return sorted;
+        }, {})
+      : value
+  );
+}
@@ -0,0 +1,180 @@
+/*
+ * RATE LIMITER REFERENCE GUIDE
+ *
+ * Client-side token-bucket rate limiting for APIService, for endpoints with
+ * strict quotas. Each rule has a bucket that holds up to `capacity` tokens and
+ * refills at `refillRate` tokens per second; every matching request takes one.
+ * When the bucket is empty the request either waits for a token or fails
+ * immediately with APIErrorType.RATE_LIMITED.
+ *
+ * Features:
+ * - Rules matched by path template (e.g. '/search', '/users/:id/avatar') or RegExp
+ * - Optional method filter per rule
+ * - Bursts up to the bucket capacity, then a steady rate
+ * - Waiting requests are served in order and can be cancelled
+ *
+ * Usage Examples:
+ * const limiter = new RateLimiter();
+ * // 10 searches per second, bursts of up to 10
+ * limiter.addRule({ match: '/search', capacity: 10, refillRate: 10 });
+ * // 5 uploads per minute; fail instead of queueing
+ * limiter.addRule({ match: '/uploads', methods: [HTTPMethod.POST], capacity: 5, refillRate: 5 / 60, whenLimited: 'reject' });
+ * APIService.shared.setRateLimiter(limiter);
+ *
+ * Events:
+ * - limited (url: string, delay: number, rejected: boolean)
+ *
+ * Notes:
+ * - Path templates are matched against the end of the URL pathname (like MockTransport routes)
+ * - All requests matching a rule share its bucket; a request matching several rules takes a token from each
+ * - Requests rejected by the limiter have no statusCode and are never retried
+ */
+
+import { HTTPMethod } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+
+// MARK: - Rate Limit Types
+export interface RateLimitRule {
+  /** Path template matched against the end of the pathname, or RegExp tested against the full URL */
+  match: string | RegExp;
+  /** Methods the rule applies to (default: all) */
+  methods?: HTTPMethod[];
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added per second */
+  refillRate: number;
+  /** Wait for a token (default) or fail immediately when the bucket is empty */
+  whenLimited?: 'wait' | 'reject';
+  /** Longest a request may wait for a token before failing, in milliseconds (default: 10000) */
+  maxWait?: number;
+}
+
+export type RateLimitReservation =
+  | { allowed: true; delay: number; cancel: () => void }
+  | { allowed: false; retryAfter: number };
+
+interface TokenBucket {
+  rule: RateLimitRule;
+  pattern: RegExp;
+  tokens: number; // Negative while requests are waiting for tokens
+  updatedAt: number;
+}
+
+// MARK: - Rate Limiter
+export class RateLimiter extends SimpleEventEmitter {
+  private buckets: TokenBucket[] = [];
+
+  // MARK: - Rules
+
+  /**
+   * Add a rule with a full bucket
+   * @param rule Rule to add
+   */
+  addRule(rule: RateLimitRule): void {
+    this.buckets.push({
+      rule,
+      pattern: this.compileMatch(rule.match),
+      tokens: rule.capacity,
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Remove a rule
+   * @param rule Rule previously passed to addRule
+   */
+  removeRule(rule: RateLimitRule): void {
+    this.buckets = this.buckets.filter(bucket => bucket.rule !== rule);
+  }
+
+  /**
+   * Remove all rules
+   */
+  clearRules(): void {
+    this.buckets = [];
+  }
+
+  // MARK: - Reservations
+
+  /**
+   * Take a token from every rule matching the request
+   * @param method Request method
+   * @param url Absolute request URL
+   * @returns How long to wait before sending (call cancel() if the request is abandoned while waiting),
+   *          or the time until a token is available if the request must be rejected
+   */
+  reserve(method: HTTPMethod, url: string): RateLimitReservation {
+    const buckets = this.matchingBuckets(method, url);
+    let delay = 0;
+
+    for (const bucket of buckets) {
+      this.refill(bucket);
+      const wait = this.waitForToken(bucket);
+      const maxWait = bucket.rule.whenLimited === 'reject' ? 0 : bucket.rule.maxWait ?? 10000;
+      if (wait > maxWait) {
+        this.emit('limited', url, wait, true);
+        return { allowed: false, retryAfter: wait };
+      }
+      delay = Math.max(delay, wait);
+    }
+
+    // Only take tokens once every bucket has agreed
+    for (const bucket of buckets) {
+      bucket.tokens -= 1;
+    }
+    if (delay > 0) {
+      this.emit('limited', url, delay, false);
+    }
+
+    return {
+      allowed: true,
+      delay,
+      cancel: () => {
+        for (const bucket of buckets) {
+          bucket.tokens = Math.min(bucket.rule.capacity, bucket.tokens + 1);
+        }
+      },
+    };
+  }
+
+  // MARK: - Private Methods
+
+  private matchingBuckets(method: HTTPMethod, url: string): TokenBucket[] {
+    const pathname = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '').replace(/[?#].*$/, '') || '/';
+    return this.buckets.filter(bucket => {
+      if (bucket.rule.methods && !bucket.rule.methods.includes(method)) {
+        return false;
+      }
+      return bucket.pattern.test(bucket.rule.match instanceof RegExp ? url : pathname);
+    });
+  }
+
+  private refill(bucket: TokenBucket): void {
+    const now = Date.now();
+    const refilled = ((now - bucket.updatedAt) / 1000) * bucket.rule.refillRate;
+    bucket.tokens = Math.min(bucket.rule.capacity, bucket.tokens + refilled);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until the bucket has a token for one more request
+   */
+  private waitForToken(bucket: TokenBucket): number {
+    if (bucket.tokens >= 1) return 0;
+    if (bucket.rule.refillRate <= 0) return Infinity;
+    return Math.ceil(((1 - bucket.tokens) / bucket.rule.refillRate) * 1000);
+  }
+
+  private compileMatch(match: string | RegExp): RegExp {
+    if (match instanceof RegExp) {
+      return match;
+    }
+
+    const source = match
+      .replace(/\/$/, '')
+      .split('/')
+      .map(segment => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('/');
+    return new RegExp(`${source}/?$`);
+  }
+}
@@ -0,0 +1,560 @@
+/*
+ * REALTIME SERVICE REFERENCE GUIDE
+ *
+ * Managed WebSocket connection for realtime updates. Authenticates with the
+ * same bearer token as APIService and follows the user's session: it pauses
+ * when the user signs out and resumes when they sign in again.
+ *
+ * Features:
+ * - Bearer token authentication (Authorization header or query parameter)
+ * - Automatic reconnect with exponential backoff and jitter
+ * - Heartbeats that detect dead connections
+ * - Channel subscriptions, restored after every reconnect
+ * - Send queue while disconnected, flushed in order on reconnect
+ * - Pauses on UserManager 'userSignedOut', resumes on 'userSignedIn'
+ *   (or 'sessionRestored' at launch) and reconnects when a connection
+ *   without a valid token gets new session tokens
+ *
+ * Usage Examples:
+ * // Configure and connect once at app startup
+ * RealtimeService.shared.configure({ url: 'wss://realtime.example.com/socket' });
+ * RealtimeService.shared.connect();
+ *
+ * // Subscribe to a channel (returns an unsubscribe function)
+ * useEffect(() => RealtimeService.shared.subscribe(`chat:${roomId}`, (data) => {
+ *   setMessages(messages => [...messages, data]);
+ * }), [roomId]);
+ *
+ * // Send a message (queued while disconnected)
+ * RealtimeService.shared.send({ type: 'typing', channel: `chat:${roomId}` });
+ *
+ * // Show connection status
+ * RealtimeService.shared.on('stateChanged', (state: RealtimeConnectionState) => setStatus(state));
+ *
+ * Wire Format:
+ * Messages are JSON objects shaped like RealtimeMessage. The service sends
+ * { type: 'subscribe' | 'unsubscribe', channel }, { type: 'ping' } for heartbeats
+ * and expects { type: 'pong' } (any incoming message counts as a heartbeat).
+ * Incoming messages with a `channel` are delivered to that channel's listeners.
+ *
+ * Events:
+ * - stateChanged (state: RealtimeConnectionState)
+ * - connected ()
+ * - disconnected (code: number, reason: string)
+ * - message (message: RealtimeMessage)
+ * - error (error: RealtimeError)
+ */
+
+import { APIService } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+import { UserManager } from './userManager';
+
+// MARK: - Realtime Error Types
+export enum RealtimeErrorType {
+  NOT_CONFIGURED = 'NOT_CONFIGURED',
+  INVALID_URL = 'INVALID_URL',
+  CONNECTION_FAILED = 'CONNECTION_FAILED',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  INVALID_MESSAGE = 'INVALID_MESSAGE',
+}
+
+export class RealtimeError extends Error {
+  public type: RealtimeErrorType;
+  public originalError?: Error;
+
+  constructor(type: RealtimeErrorType, message: string, originalError?: Error) {
+    super(message);
+    this.name = 'RealtimeError';
+    this.type = type;
+    this.originalError = originalError;
+  }
+
+  static notConfigured(): RealtimeError {
+    return new RealtimeError(RealtimeErrorType.NOT_CONFIGURED, 'Realtime service not configured. Call configure() first.');
+  }
+
+  static invalidURL(): RealtimeError {
+    return new RealtimeError(RealtimeErrorType.INVALID_URL, 'Invalid WebSocket URL. Only wss:// URLs are allowed.');
+  }
+
+  static connectionFailed(message: string): RealtimeError {
+    return new RealtimeError(RealtimeErrorType.CONNECTION_FAILED, `Connection failed: ${message}`);
+  }
+
+  static unauthorized(): RealtimeError {
+    return new RealtimeError(RealtimeErrorType.UNAUTHORIZED, 'The server rejected the access token');
+  }
+
+  static invalidMessage(error: Error): RealtimeError {
+    return new RealtimeError(RealtimeErrorType.INVALID_MESSAGE, `Invalid message: ${error.message}`, error);
+  }
+}
+
+// MARK: - Connection State
+export enum RealtimeConnectionState {
+  DISCONNECTED = 'disconnected',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  RECONNECTING = 'reconnecting',
+  PAUSED = 'paused', // Signed out; resumes on sign in
+}
+
+// MARK: - Realtime Types
+export interface RealtimeMessage {
+  type: string;
+  channel?: string;
+  data?: any;
+}
+
+export type ChannelListener = (data: any, message: RealtimeMessage) => void;
+
+export interface RealtimeOptions {
+  /** WebSocket URL (must be wss://) */
+  url: string;
+  /** How the bearer token is sent (default: 'header'; use 'query' for servers that can't read handshake headers) */
+  authMethod?: 'header' | 'query';
+  /** Query parameter name when authMethod is 'query' (default: 'access_token') */
+  tokenQueryParam?: string;
+  /** WebSocket subprotocols */
+  protocols?: string[];
+  /** Milliseconds between heartbeats (default: 25000) */
+  heartbeatInterval?: number;
+  /** Milliseconds to wait for any message after a heartbeat before reconnecting (default: 10000) */
+  heartbeatTimeout?: number;
+  /** First reconnect delay in milliseconds, doubled on every attempt (default: 1000) */
+  reconnectBaseDelay?: number;
+  /** Upper bound for the reconnect delay in milliseconds (default: 30000) */
+  reconnectMaxDelay?: number;
+  /** Messages kept while disconnected; the oldest are dropped first (default: 100) */
+  maxQueueSize?: number;
+  /** Close codes meaning the token was rejected; the service waits for a new session (default: [4001, 4401]) */
+  unauthorizedCloseCodes?: number[];
+}
+
+const defaultOptions: Required<Omit<RealtimeOptions, 'url' | 'protocols'>> = {
+  authMethod: 'header',
+  tokenQueryParam: 'access_token',
+  heartbeatInterval: 25000,
+  heartbeatTimeout: 10000,
+  reconnectBaseDelay: 1000,
+  reconnectMaxDelay: 30000,
+  maxQueueSize: 100,
+  unauthorizedCloseCodes: [4001, 4401],
+};
+
+// React Native's WebSocket accepts handshake headers as a third argument
+type ReactNativeWebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[] | null,
+  options?: { headers: Record<string, string> } | null
+) => WebSocket;
+
+// MARK: - Realtime Service
+export class RealtimeService extends SimpleEventEmitter {
+  public static readonly shared = new RealtimeService();
+
+  // MARK: - Properties
+  private options?: RealtimeOptions & typeof defaultOptions;
+  private socket?: WebSocket;
+  private socketToken?: string; // Token the current socket was opened with
+  private state = RealtimeConnectionState.DISCONNECTED;
+  private shouldConnect = false; // connect() was called and disconnect() wasn't
+  private isPaused = false;
+  private isDebugMode = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private heartbeatTimeoutTimer?: ReturnType<typeof setTimeout>;
+  private channels = new Map<string, Set<ChannelListener>>();
+  private sendQueue: RealtimeMessage[] = [];
+
+  private constructor() {
+    super();
+    UserManager.shared.on('userSignedOut', this.handleSignOut);
+    UserManager.shared.on('userSignedIn', this.handleSignIn);
+    UserManager.shared.on('sessionRestored', this.handleSignIn);
+    UserManager.shared.on('sessionTokensUpdated', this.handleSessionTokensUpdated);
+  }
+
+  // MARK: - Getters
+  get connectionState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  get isConnected(): boolean {
+    return this.state === RealtimeConnectionState.CONNECTED;
+  }
+
+  get subscribedChannels(): string[] {
+    return [...this.channels.keys()];
+  }
+
+  get queuedMessageCount(): number {
+    return this.sendQueue.length;
+  }
+
+  // MARK: - Configuration
+
+  /**
+   * Configure the connection. Reconnects if already connected.
+   * @param options Connection options
+   */
+  configure(options: RealtimeOptions): void {
+    if (!this.isValidURL(options.url)) {
+      throw RealtimeError.invalidURL();
+    }
+
+    this.options = { ...defaultOptions, ...options };
+
+    if (this.socket) {
+      this.closeSocket(1000, 'Reconfigured');
+      this.openSocket();
+    }
+  }
+
+  /**
+   * Enable or disable debug logging
+   * @param enabled Whether debug mode is enabled
+   */
+  setDebugMode(enabled: boolean): void {
+    this.isDebugMode = enabled;
+  }
+
+  // MARK: - Connection
+
+  /**
+   * Open the connection and keep it open until disconnect() is called.
+   * Waits for sign in if no user is signed in.
+   */
+  connect(): void {
+    if (!this.options) {
+      throw RealtimeError.notConfigured();
+    }
+
+    this.shouldConnect = true;
+    this.isPaused = !UserManager.shared.isSignedIn;
+
+    if (this.isPaused) {
+      this.setState(RealtimeConnectionState.PAUSED);
+      return;
+    }
+
+    if (!this.socket) {
+      this.openSocket();
+    }
+  }
+
+  /**
+   * Close the connection and stop reconnecting. Subscriptions are kept for the next connect().
+   */
+  disconnect(): void {
+    this.shouldConnect = false;
+    this.sendQueue = [];
+    this.closeSocket(1000, 'Client disconnected');
+    this.setState(RealtimeConnectionState.DISCONNECTED);
+  }
+
+  // MARK: - Channels
+
+  /**
+   * Listen to messages on a channel. The server subscription is sent (and restored after
+   * reconnects) while at least one listener is registered.
+   * @param channel Channel name
+   * @param listener Called with each message's data
+   * @returns Function that removes the listener
+   */
+  subscribe(channel: string, listener: ChannelListener): () => void {
+    let listeners = this.channels.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.channels.set(channel, listeners);
+      if (this.isConnected) {
+        this.transmit({ type: 'subscribe', channel });
+      }
+    }
+    listeners.add(listener);
+
+    return () => this.unsubscribe(channel, listener);
+  }
+
+  /**
+   * Remove a channel listener
+   * @param channel Channel name
+   * @param listener Listener passed to subscribe()
+   */
+  unsubscribe(channel: string, listener: ChannelListener): void {
+    const listeners = this.channels.get(channel);
+    if (!listeners?.delete(listener) || listeners.size > 0) return;
+
+    this.channels.delete(channel);
+    if (this.isConnected) {
+      this.transmit({ type: 'unsubscribe', channel });
+    }
+  }
+
+  // MARK: - Sending
+
+  /**
+   * Send a message now, or queue it until the connection is open
+   * @param message Message to send
+   */
+  send(message: RealtimeMessage): void {
+    if (this.isConnected) {
+      this.transmit(message);
+      return;
+    }
+
+    this.sendQueue.push(message);
+    const maxQueueSize = this.options?.maxQueueSize ?? defaultOptions.maxQueueSize;
+    if (this.sendQueue.length > maxQueueSize) {
+      this.sendQueue.splice(0, this.sendQueue.length - maxQueueSize);
+    }
+  }
+
+  // MARK: - Private Methods
+
+  private openSocket(): void {
+    const options = this.options!;
+    const token = APIService.shared.getBearerToken();
+    this.socketToken = token;
+
+    let url = options.url;
+    const headers: Record<string, string> = {};
+    if (token && options.authMethod === 'query') {
+      url += `${url.includes('?') ? '&' : '?'}${encodeURIComponent(options.tokenQueryParam)}=${encodeURIComponent(token)}`;
+    } else if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    this.setState(this.reconnectAttempt > 0 ? RealtimeConnectionState.RECONNECTING : RealtimeConnectionState.CONNECTING);
+
+    if (this.isDebugMode) {
+      console.log(`🔌 Connecting to ${options.url}`);
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new (WebSocket as unknown as ReactNativeWebSocketConstructor)(url, options.protocols ?? null, { headers });
+    } catch (error) {
+      this.emit('error', RealtimeError.connectionFailed((error as Error).message));
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      this.setState(RealtimeConnectionState.CONNECTED);
+      this.startHeartbeat();
+
+      // Restore subscriptions before anything queued that may depend on them
+      this.channels.forEach((_, channel) => this.transmit({ type: 'subscribe', channel }));
+      const queued = this.sendQueue;
+      this.sendQueue = [];
+      queued.forEach(message => this.transmit(message));
+
+      if (this.isDebugMode) {
+        console.log(`✅ Realtime connected (${this.channels.size} channels, ${queued.length} queued messages sent)`);
+      }
+      this.emit('connected');
+    };
+
+    socket.onmessage = event => {
+      if (this.socket !== socket) return;
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = event => {
+      if (this.socket !== socket) return;
+      const message = (event as Event & { message?: string }).message ?? 'WebSocket error';
+      if (this.isDebugMode) {
+        console.log(`❌ Realtime error: ${message}`);
+      }
+      this.emit('error', RealtimeError.connectionFailed(message));
+    };
+
+    socket.onclose = event => {
+      if (this.socket !== socket) return;
+      this.handleClose(event.code ?? 1006, event.reason ?? '');
+    };
+  }
+
+  private handleMessage(raw: unknown): void {
+    // Any traffic proves the connection is alive, so the next drop starts a fresh backoff
+    this.clearHeartbeatTimeout();
+    this.reconnectAttempt = 0;
+
+    let message: RealtimeMessage;
+    try {
+      message = JSON.parse(String(raw));
+    } catch (error) {
+      this.emit('error', RealtimeError.invalidMessage(error as Error));
+      return;
+    }
+
+    if (message.type === 'pong') return;
+
+    if (message.channel) {
+      this.channels.get(message.channel)?.forEach(listener => {
+        try {
+          listener(message.data, message);
+        } catch (error) {
+          console.error(`Error in realtime listener for ${message.channel}:`, error);
+        }
+      });
+    }
+    this.emit('message', message);
+  }
+
+  private handleClose(code: number, reason: string): void {
+    this.socket = undefined;
+    this.stopHeartbeat();
+
+    if (this.isDebugMode) {
+      console.log(`🔌 Realtime disconnected (${code}${reason ? `: ${reason}` : ''})`);
+    }
+    this.emit('disconnected', code, reason);
+
+    if (this.options!.unauthorizedCloseCodes.includes(code)) {
+      // Reconnecting with the same token would fail again; wait for new session tokens or sign in
+      this.emit('error', RealtimeError.unauthorized());
+      this.setState(RealtimeConnectionState.DISCONNECTED);
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldConnect || this.isPaused || this.reconnectTimer) {
+      return;
+    }
+
+    // Exponential backoff with full jitter
+    const { reconnectBaseDelay, reconnectMaxDelay } = this.options!;
+    const backoff = Math.min(reconnectMaxDelay, reconnectBaseDelay * 2 ** this.reconnectAttempt);
+    const delay = Math.round(Math.random() * backoff);
+    this.reconnectAttempt++;
+    this.setState(RealtimeConnectionState.RECONNECTING);
+
+    if (this.isDebugMode) {
+      console.log(`🔁 Reconnecting realtime in ${delay}ms (attempt ${this.reconnectAttempt})`);
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.shouldConnect && !this.isPaused && !this.socket) {
+        this.openSocket();
+      }
+    }, delay);
+  }
+
+  /**
+   * Closes the socket and cancels any pending reconnect
+   * @param resetBackoff Start the next reconnect from the shortest delay (false when the connection failed)
+   */
+  private closeSocket(code: number, reason: string, resetBackoff: boolean = true): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.stopHeartbeat();
+    if (resetBackoff) {
+      this.reconnectAttempt = 0;
+    }
+
+    const socket = this.socket;
+    this.socket = undefined;
+    socket?.close(code, reason);
+  }
+
+  private transmit(message: RealtimeMessage): void {
+    try {
+      this.socket?.send(JSON.stringify(message));
+    } catch (error) {
+      this.emit('error', RealtimeError.invalidMessage(error as Error));
+    }
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const { heartbeatInterval, heartbeatTimeout } = this.options!;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.transmit({ type: 'ping' });
+      if (!this.heartbeatTimeoutTimer) {
+        this.heartbeatTimeoutTimer = setTimeout(() => {
+          this.heartbeatTimeoutTimer = undefined;
+          if (this.isDebugMode) {
+            console.log('💔 Realtime heartbeat timed out');
+          }
+          // The close event of a dead socket may never arrive, so detach it and reconnect now
+          const socket = this.socket;
+          // Keep backing off: a connection that keeps timing out shouldn't reconnect at full speed
+          this.closeSocket(4000, 'Heartbeat timeout', false);
+          if (socket) {
+            this.handleClose(1006, 'Heartbeat timeout');
+          }
+        }, heartbeatTimeout);
+      }
+    }, heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    this.clearHeartbeatTimeout();
+  }
+
+  private clearHeartbeatTimeout(): void {
+    if (this.heartbeatTimeoutTimer) {
+      clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = undefined;
+    }
+  }
+
+  private setState(state: RealtimeConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('stateChanged', state);
+  }
+
+  private isValidURL(value: string): boolean {
+    try {
+      return new URL(value).protocol === 'wss:';
+    } catch {
+      return false;
+    }
+  }
+
+  // MARK: - Session Handlers
+
+  private handleSignOut = (): void => {
+    if (!this.shouldConnect) return;
+
+    // Nothing from the previous session may be sent with the next user's token
+    this.isPaused = true;
+    this.sendQueue = [];
+    this.closeSocket(1000, 'Signed out');
+    this.setState(RealtimeConnectionState.PAUSED);
+  };
+
+  private handleSignIn = (): void => {
+    if (!this.shouldConnect || !this.isPaused) return;
+
+    this.isPaused = false;
+    this.openSocket();
+  };
+
+  private handleSessionTokensUpdated = (): void => {
+    if (!this.shouldConnect || this.isPaused) return;
+
+    // A socket authenticated at the handshake stays valid; only reopen one that had no usable token
+    if (this.socket && this.socketToken) return;
+
+    this.closeSocket(1000, 'Session tokens updated');
+    this.openSocket();
+  };
+}
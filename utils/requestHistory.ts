@@ -0,0 +1,228 @@
+/*
+ * REQUEST HISTORY REFERENCE GUIDE
+ *
+ * Ring buffer of recent APIService requests for on-device debugging (see the
+ * Network Inspector in developer tools). Headers, bodies and URLs are stored
+ * redacted, using the client's log redaction settings.
+ *
+ * Features:
+ * - Method, URL, status, timing, sizes, headers and bodies of each request
+ * - Pending, completed and failed states (network errors and cancellations)
+ * - Fixed capacity: the oldest entries are dropped first
+ * - Copy a request as a cURL command
+ *
+ * Usage Examples:
+ * // Recording is on by default in development builds
+ * const history = APIService.shared.getRequestHistory();
+ * history?.on('changed', (entries: RequestHistoryEntry[]) => setEntries(entries));
+ *
+ * // Record requests in a release build (e.g. an internal QA build)
+ * APIService.shared.setRequestHistory(new RequestHistory({ capacity: 50 }));
+ *
+ * // Reproduce a request from a terminal
+ * const command = toCurlCommand(history.entries[0]);
+ *
+ * Events:
+ * - changed (entries: RequestHistoryEntry[])
+ *
+ * Notes:
+ * - Redacted values stay redacted in cURL commands, and bodies are truncated to
+ *   the redaction's maxBodyLength
+ * - Each retry or replay after a token refresh is recorded as its own entry
+ */
+
+import { APIRequest, ResponseType } from './apiService';
+import { SimpleEventEmitter } from './eventEmitter';
+import { utf8Encode } from './hash';
+import { LogRedactionOptions, redactBody, redactHeaders, redactURL } from './logRedaction';
+
+// MARK: - History Types
+export type RequestHistoryState = 'pending' | 'completed' | 'failed';
+
+export interface RequestHistoryEntry {
+  id: string;
+  method: string;
+  url: string;
+  state: RequestHistoryState;
+  startedAt: number; // Epoch milliseconds
+  duration?: number; // Milliseconds until the response (or failure)
+  requestHeaders: Record<string, string>;
+  requestBody?: string; // '[Binary or multipart]' for non-text bodies
+  requestSize?: number; // Bytes
+  status?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  responseSize?: number; // Bytes
+  error?: string;
+}
+
+export interface RequestHistoryOptions {
+  /** Maximum number of entries kept (default: 100) */
+  capacity?: number;
+}
+
+// MARK: - Request History
+export class RequestHistory extends SimpleEventEmitter {
+  private readonly capacity: number;
+  private buffer: RequestHistoryEntry[] = []; // Oldest first
+  private nextId = 1;
+
+  constructor(options: RequestHistoryOptions = {}) {
+    super();
+    this.capacity = options.capacity ?? 100;
+  }
+
+  // MARK: - Getters
+
+  /**
+   * Recorded requests, newest first
+   */
+  get entries(): RequestHistoryEntry[] {
+    return [...this.buffer].reverse();
+  }
+
+  /**
+   * Find a recorded request
+   * @param id Entry id
+   * @returns The entry, or undefined if it was dropped
+   */
+  entry(id: string): RequestHistoryEntry | undefined {
+    return this.buffer.find(entry => entry.id === id);
+  }
+
+  // MARK: - Recording
+
+  /**
+   * Record a request that is about to be sent
+   * @param request Final request (after request interceptors)
+   * @param redaction What to mask
+   * @returns Entry id for completeRequest/failRequest
+   */
+  startRequest(request: APIRequest, redaction: LogRedactionOptions): string {
+    const isText = typeof request.body === 'string';
+    const entry: RequestHistoryEntry = {
+      id: String(this.nextId++),
+      method: request.method,
+      url: redactURL(request.url, redaction),
+      state: 'pending',
+      startedAt: Date.now(),
+      requestHeaders: redactHeaders(request.headers, redaction),
+      requestBody: isText ? redactBody(request.body as string, redaction) : request.body ? '[Binary or multipart]' : undefined,
+      requestSize: isText ? utf8Encode(request.body as string).length : undefined,
+    };
+
+    this.buffer.push(entry);
+    if (this.buffer.length > this.capacity) {
+      this.buffer.splice(0, this.buffer.length - this.capacity);
+    }
+    this.notify();
+    return entry.id;
+  }
+
+  /**
+   * Record the response of a request
+   * @param id Entry id from startRequest
+   * @param response Response (its body is read from a clone)
+   * @param responseType Expected body type; binary bodies are not stored
+   * @param redaction What to mask
+   */
+  async completeRequest(
+    id: string,
+    response: Response,
+    responseType: ResponseType | undefined,
+    redaction: LogRedactionOptions
+  ): Promise<void> {
+    const entry = this.entry(id);
+    if (!entry) return;
+
+    const duration = Date.now() - entry.startedAt;
+    const headers = Object.fromEntries(response.headers.entries());
+    let responseBody: string | undefined;
+    let responseSize = Number(response.headers.get('Content-Length') ?? NaN);
+
+    if (responseType === 'blob' || responseType === 'arraybuffer') {
+      responseBody = '[Binary]';
+    } else {
+      try {
+        const text = await response.clone().text();
+        responseBody = redactBody(text, redaction);
+        responseSize = utf8Encode(text).length;
+      } catch {
+        responseBody = '[Unable to read]';
+      }
+    }
+
+    this.update(id, {
+      state: 'completed',
+      duration,
+      status: response.status,
+      responseHeaders: redactHeaders(headers, redaction),
+      responseBody,
+      responseSize: isNaN(responseSize) ? undefined : responseSize,
+    });
+  }
+
+  /**
+   * Record a request that got no response (network error, timeout or cancellation)
+   * @param id Entry id from startRequest
+   * @param error The failure
+   */
+  failRequest(id: string, error: unknown): void {
+    const entry = this.entry(id);
+    if (!entry) return;
+
+    this.update(id, {
+      state: 'failed',
+      duration: Date.now() - entry.startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.buffer = [];
+    this.notify();
+  }
+
+  // MARK: - Private Methods
+
+  private update(id: string, changes: Partial<RequestHistoryEntry>): void {
+    // Replace the entry so UI can compare entries by reference
+    this.buffer = this.buffer.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+    this.notify();
+  }
+
+  private notify(): void {
+    this.emit('changed', this.entries);
+  }
+}
+
+// MARK: - cURL Export
+
+/**
+ * Shell command that repeats a recorded request
+ * @param entry Recorded request
+ * @returns A `curl` command (redacted values stay redacted)
+ */
+export function toCurlCommand(entry: RequestHistoryEntry): string {
+  const parts = ['curl'];
+  if (entry.method !== 'GET') {
+    parts.push(`-X ${entry.method}`);
+  }
+  parts.push(shellQuote(entry.url));
+
+  for (const [name, value] of Object.entries(entry.requestHeaders)) {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (entry.requestBody !== undefined && entry.requestBody !== '[Binary or multipart]') {
+    parts.push(`--data-raw ${shellQuote(entry.requestBody)}`);
+  }
+
+  return parts.join(' \\\n  ');
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
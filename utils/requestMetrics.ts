@@ -0,0 +1,442 @@
+/*
+ * REQUEST METRICS REFERENCE GUIDE
+ *
+ * Per-request timing and size records from APIService, delivered to a
+ * pluggable MetricsSink. MetricsAggregator is a sink that keeps latency
+ * percentiles per endpoint on device and hands a summary to your analytics
+ * backend once per reporting period (daily by default).
+ *
+ * Features:
+ * - Total duration, time to first byte and DNS/connect time (where the platform exposes them)
+ * - Request/response sizes, retry count and cache hits
+ * - Endpoints grouped by path with ids collapsed ('/users/42' → '/users/:id')
+ * - p50/p90/p95/p99 latency per endpoint, persisted across launches
+ *
+ * Usage Examples:
+ * // Daily latency summary
+ * const metrics = new MetricsAggregator({
+ *   onReport: summary => analytics.post('/metrics/api-latency', summary),
+ * });
+ * await metrics.initialize();
+ * APIService.shared.setMetricsSink(metrics);
+ *
+ * // Custom sink
+ * APIService.shared.setMetricsSink({
+ *   record: metrics => { if (metrics.duration > 3000) console.warn('Slow request', metrics.endpoint); },
+ * });
+ *
+ * // Inspect the current period
+ * const { endpoints } = metrics.summary();
+ * console.log(endpoints[0].endpoint, endpoints[0].duration.p95);
+ *
+ * Notes:
+ * - One record per call: retries are counted in the record, identical GETs
+ *   sharing one request produce one record, background revalidations their own
+ * - Fresh cache hits and 304 revalidations are marked fromCache
+ * - URLs are redacted with the client's log redaction settings
+ * - DNS/connect times come from the Resource Timing API, which React Native
+ *   doesn't implement; expect them on web only
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APIErrorType, HTTPMethod } from './apiService';
+
+// MARK: - Metrics Types
+export interface RequestMetrics {
+  /** Name of the APIService client */
+  client: string;
+  method: HTTPMethod;
+  /** Full URL with sensitive query parameters redacted */
+  url: string;
+  /** Path with ids collapsed, used for grouping (e.g. '/users/:id') */
+  endpoint: string;
+  /** Final HTTP status, if a response was received */
+  status?: number;
+  /** Error type if the call failed */
+  errorType?: APIErrorType;
+  startedAt: number; // Epoch milliseconds
+  /** Milliseconds from the call to the parsed result, including retries and backoff */
+  duration: number;
+  /** Milliseconds from sending the last attempt to receiving its response headers */
+  timeToFirstByte?: number;
+  dnsDuration?: number; // Milliseconds
+  connectDuration?: number; // Milliseconds
+  requestSize?: number; // Bytes
+  responseSize?: number; // Bytes
+  retryCount: number;
+  fromCache: boolean;
+}
+
+export interface MetricsSink {
+  record(metrics: RequestMetrics): void;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface EndpointSummary {
+  method: HTTPMethod;
+  endpoint: string;
+  count: number;
+  errorCount: number;
+  cacheHitCount: number;
+  retryCount: number;
+  bytesSent: number;
+  bytesReceived: number;
+  duration: LatencyPercentiles;
+  timeToFirstByte?: LatencyPercentiles;
+}
+
+export interface MetricsSummary {
+  periodStart: number; // Epoch milliseconds
+  periodEnd: number; // Epoch milliseconds
+  count: number;
+  duration?: LatencyPercentiles;
+  endpoints: EndpointSummary[]; // Busiest first
+}
+
+export interface MetricsAggregatorOptions {
+  /** Called with the summary when a reporting period ends; the period resets once it resolves */
+  onReport?: (summary: MetricsSummary) => void | Promise<void>;
+  /** Length of a reporting period in milliseconds (default: 24 hours) */
+  reportInterval?: number;
+  /** Latency samples kept per endpoint; older samples are replaced (default: 200) */
+  maxSamples?: number;
+  /** Persist the current period to AsyncStorage (default: true) */
+  persist?: boolean;
+}
+
+interface EndpointStats {
+  method: HTTPMethod;
+  endpoint: string;
+  count: number;
+  errorCount: number;
+  cacheHitCount: number;
+  retryCount: number;
+  bytesSent: number;
+  bytesReceived: number;
+  durations: number[]; // Reservoir sample
+  timesToFirstByte: number[]; // Reservoir sample
+  timeToFirstByteCount: number; // Calls that reported a time to first byte
+  maxDuration: number; // Over the whole period, not just the sample
+  maxTimeToFirstByte: number;
+}
+
+interface StoredMetrics {
+  periodStart: number;
+  endpoints: EndpointStats[];
+}
+
+// MARK: - Metrics Aggregator
+export class MetricsAggregator implements MetricsSink {
+  private readonly onReport?: (summary: MetricsSummary) => void | Promise<void>;
+  private readonly reportInterval: number;
+  private readonly maxSamples: number;
+  private readonly persist: boolean;
+  private periodStart = Date.now();
+  private stats = new Map<string, EndpointStats>();
+  private isReporting = false;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+
+  // Keys for AsyncStorage
+  private readonly storageKey = 'api_metrics';
+
+  constructor(options: MetricsAggregatorOptions = {}) {
+    this.onReport = options.onReport;
+    this.reportInterval = options.reportInterval ?? 24 * 60 * 60 * 1000;
+    this.maxSamples = options.maxSamples ?? 200;
+    this.persist = options.persist ?? true;
+  }
+
+  // MARK: - Lifecycle
+
+  /**
+   * Load the persisted period and report it if it has ended
+   */
+  async initialize(): Promise<void> {
+    if (this.persist) {
+      try {
+        const data = await AsyncStorage.getItem(this.storageKey);
+        if (data) {
+          const stored: StoredMetrics = JSON.parse(data);
+          // Requests recorded before loading finished are merged into the stored period
+          const current = this.stats;
+          this.periodStart = stored.periodStart;
+          this.stats = new Map(stored.endpoints.map(stats => [this.statsKey(stats.method, stats.endpoint), restoredStats(stats)]));
+          current.forEach(stats => this.merge(stats));
+        }
+      } catch {
+        // Start a fresh period
+      }
+    }
+
+    await this.reportIfDue();
+  }
+
+  /**
+   * Report the current period now, regardless of the reporting interval
+   */
+  async flush(): Promise<void> {
+    await this.report();
+  }
+
+  /**
+   * Discard the current period and start a new one
+   */
+  async reset(): Promise<void> {
+    this.stats.clear();
+    this.periodStart = Date.now();
+    await this.save();
+  }
+
+  // MARK: - MetricsSink
+
+  record(metrics: RequestMetrics): void {
+    const key = this.statsKey(metrics.method, metrics.endpoint);
+    let stats = this.stats.get(key);
+    if (!stats) {
+      stats = {
+        method: metrics.method,
+        endpoint: metrics.endpoint,
+        count: 0,
+        errorCount: 0,
+        cacheHitCount: 0,
+        retryCount: 0,
+        bytesSent: 0,
+        bytesReceived: 0,
+        durations: [],
+        timesToFirstByte: [],
+        timeToFirstByteCount: 0,
+        maxDuration: 0,
+        maxTimeToFirstByte: 0,
+      };
+      this.stats.set(key, stats);
+    }
+
+    stats.count++;
+    stats.errorCount += metrics.errorType ? 1 : 0;
+    stats.cacheHitCount += metrics.fromCache ? 1 : 0;
+    stats.retryCount += metrics.retryCount;
+    stats.bytesSent += metrics.requestSize ?? 0;
+    stats.bytesReceived += metrics.responseSize ?? 0;
+    stats.maxDuration = Math.max(stats.maxDuration, metrics.duration);
+    this.addSample(stats.durations, metrics.duration, stats.count);
+    if (metrics.timeToFirstByte !== undefined) {
+      stats.timeToFirstByteCount++;
+      stats.maxTimeToFirstByte = Math.max(stats.maxTimeToFirstByte, metrics.timeToFirstByte);
+      this.addSample(stats.timesToFirstByte, metrics.timeToFirstByte, stats.timeToFirstByteCount);
+    }
+
+    this.scheduleSave();
+    this.reportIfDue();
+  }
+
+  // MARK: - Summary
+
+  /**
+   * Percentiles and totals for the current period
+   */
+  summary(): MetricsSummary {
+    const allStats = Array.from(this.stats.values());
+    const endpoints = allStats
+      .map(stats => ({
+        method: stats.method,
+        endpoint: stats.endpoint,
+        count: stats.count,
+        errorCount: stats.errorCount,
+        cacheHitCount: stats.cacheHitCount,
+        retryCount: stats.retryCount,
+        bytesSent: stats.bytesSent,
+        bytesReceived: stats.bytesReceived,
+        duration: withMax(latencyPercentiles(stats.durations), stats.maxDuration) ?? { p50: 0, p90: 0, p95: 0, p99: 0, max: 0 },
+        timeToFirstByte: withMax(latencyPercentiles(stats.timesToFirstByte), stats.maxTimeToFirstByte),
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    return {
+      periodStart: this.periodStart,
+      periodEnd: Date.now(),
+      count: endpoints.reduce((total, endpoint) => total + endpoint.count, 0),
+      duration: withMax(
+        latencyPercentiles(allStats.flatMap(stats => stats.durations)),
+        Math.max(0, ...allStats.map(stats => stats.maxDuration))
+      ),
+      endpoints,
+    };
+  }
+
+  // MARK: - Private Methods
+
+  private statsKey(method: HTTPMethod, endpoint: string): string {
+    return `${method} ${endpoint}`;
+  }
+
+  /**
+   * Reservoir sampling: keeps a uniform sample of the period once the buffer is full
+   */
+  private addSample(samples: number[], value: number, seen: number): void {
+    if (samples.length < this.maxSamples) {
+      samples.push(value);
+      return;
+    }
+    const index = Math.floor(Math.random() * seen);
+    if (index < this.maxSamples) {
+      samples[index] = value;
+    }
+  }
+
+  private merge(stats: EndpointStats): void {
+    const key = this.statsKey(stats.method, stats.endpoint);
+    const existing = this.stats.get(key);
+    if (!existing) {
+      this.stats.set(key, stats);
+      return;
+    }
+    existing.count += stats.count;
+    existing.errorCount += stats.errorCount;
+    existing.cacheHitCount += stats.cacheHitCount;
+    existing.retryCount += stats.retryCount;
+    existing.bytesSent += stats.bytesSent;
+    existing.bytesReceived += stats.bytesReceived;
+    existing.timeToFirstByteCount += stats.timeToFirstByteCount;
+    existing.maxDuration = Math.max(existing.maxDuration, stats.maxDuration);
+    existing.maxTimeToFirstByte = Math.max(existing.maxTimeToFirstByte, stats.maxTimeToFirstByte);
+    existing.durations = [...existing.durations, ...stats.durations].slice(-this.maxSamples);
+    existing.timesToFirstByte = [...existing.timesToFirstByte, ...stats.timesToFirstByte].slice(-this.maxSamples);
+  }
+
+  private async reportIfDue(): Promise<void> {
+    if (Date.now() - this.periodStart >= this.reportInterval) {
+      await this.report();
+    }
+  }
+
+  private async report(): Promise<void> {
+    if (!this.onReport || this.isReporting || this.stats.size === 0) return;
+
+    this.isReporting = true;
+    const summary = this.summary();
+    // Requests recorded while the report is being sent belong to the next period
+    const reportedStats = this.stats;
+    this.stats = new Map();
+    this.periodStart = summary.periodEnd;
+    try {
+      await this.onReport(summary);
+      await this.save();
+    } catch {
+      // Put the reported requests back and try again on the next request
+      const newStats = this.stats;
+      this.stats = reportedStats;
+      this.periodStart = summary.periodStart;
+      newStats.forEach(stats => this.merge(stats));
+    } finally {
+      this.isReporting = false;
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.persist || this.saveTimer) return;
+    // Batch writes rather than writing on every request
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, 5000);
+  }
+
+  private async save(): Promise<void> {
+    if (!this.persist) return;
+    try {
+      const stored: StoredMetrics = { periodStart: this.periodStart, endpoints: Array.from(this.stats.values()) };
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch {
+      // Metrics are best effort
+    }
+  }
+}
+
+// MARK: - Helpers
+
+/**
+ * Replaces the sample maximum with the maximum over the whole period
+ */
+function withMax(percentiles: LatencyPercentiles | undefined, max: number): LatencyPercentiles | undefined {
+  return percentiles && { ...percentiles, max: Math.max(percentiles.max, max) };
+}
+
+/**
+ * Fills in fields missing from stats persisted by an earlier version
+ */
+function restoredStats(stats: EndpointStats): EndpointStats {
+  return {
+    ...stats,
+    timeToFirstByteCount: stats.timeToFirstByteCount ?? stats.timesToFirstByte.length,
+    maxDuration: stats.maxDuration ?? Math.max(0, ...stats.durations),
+    maxTimeToFirstByte: stats.maxTimeToFirstByte ?? Math.max(0, ...stats.timesToFirstByte),
+  };
+}
+
+/**
+ * Path of a URL with ids collapsed to ':id' so requests group by endpoint
+ * @param url Absolute URL
+ * @returns Endpoint template, e.g. '/users/:id/posts'
+ */
+export function endpointTemplate(url: string): string {
+  const pathname = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '').replace(/[?#].*$/, '') || '/';
+  return pathname
+    .split('/')
+    .map(segment =>
+      // Numbers, UUIDs and long tokens containing digits
+      /^\d+$/.test(segment) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+      (segment.length >= 16 && /\d/.test(segment))
+        ? ':id'
+        : segment
+    )
+    .join('/');
+}
+
+/**
+ * DNS and connect times of the most recent request to a URL, from the Resource Timing API
+ * @param url Absolute URL
+ * @returns Durations in milliseconds, or undefined where the platform doesn't expose them
+ */
+export function networkTimings(url: string): { dnsDuration?: number; connectDuration?: number } {
+  if (typeof performance === 'undefined' || typeof performance.getEntriesByName !== 'function') {
+    return {};
+  }
+
+  const entries = performance.getEntriesByName(url, 'resource') as PerformanceResourceTiming[];
+  const timing = entries[entries.length - 1];
+  // Cross-origin responses without Timing-Allow-Origin report zeroed phases
+  if (!timing || timing.requestStart === 0) {
+    return {};
+  }
+  return {
+    dnsDuration: Math.round(timing.domainLookupEnd - timing.domainLookupStart),
+    connectDuration: Math.round(timing.connectEnd - timing.connectStart),
+  };
+}
+
+/**
+ * Nearest-rank percentiles of a set of samples
+ * @param samples Values in any order
+ * @returns Percentiles, or undefined if there are no samples
+ */
+export function latencyPercentiles(samples: number[]): LatencyPercentiles | undefined {
+  if (samples.length === 0) return undefined;
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+  return {
+    p50: percentile(50),
+    p90: percentile(90),
+    p95: percentile(95),
+    p99: percentile(99),
+    max: sorted[sorted.length - 1],
+  };
+}
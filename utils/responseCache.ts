@@ -0,0 +1,302 @@
+/*
+ * RESPONSE CACHE REFERENCE GUIDE
+ *
+ * HTTP response cache for APIService GET requests, kept in memory and
+ * persisted to AsyncStorage so cached data is available on cold start.
+ *
+ * Features:
+ * - Cache-Control max-age, no-cache, no-store and stale-while-revalidate
+ * - Revalidation with If-None-Match / If-Modified-Since (304 = cache hit)
+ * - In-memory LRU backed by AsyncStorage
+ * - Per-request cache policies (see APIService RequestOptions.cachePolicy)
+ *
+ * Usage Examples:
+ * // Enable caching at app startup
+ * APIService.shared.setResponseCache(new ResponseCache({ maxEntries: 200 }));
+ *
+ * // Honor HTTP caching headers (default policy)
+ * const feed = await APIService.shared.get<Feed>('/feed');
+ *
+ * // Show cached data instantly, then update when the network responds
+ * const feed = await APIService.shared.get<Feed>('/feed', undefined, {
+ *   cachePolicy: 'cache-and-network',
+ *   onCacheUpdate: (fresh: Feed) => setFeed(fresh),
+ * });
+ *
+ * // Clear on sign out (UserManager does this automatically)
+ * await APIService.shared.clearResponseCache();
+ *
+ * Notes:
+ * - Every successful GET response is stored unless it is marked no-store,
+ *   so 'cache-first' and 'cache-and-network' work without server headers
+ * - Entries are keyed by URL; clear the cache when the signed-in user changes
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// MARK: - Cache Types
+export interface CachedResponse {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  storedAt: number; // Epoch milliseconds
+  maxAge: number; // Milliseconds the entry is fresh for
+  staleWhileRevalidate: number; // Milliseconds a stale entry may still be served
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface ResponseCacheOptions {
+  /** Persist entries to AsyncStorage (default: true) */
+  persist?: boolean;
+  /** Maximum number of entries kept (default: 100) */
+  maxEntries?: number;
+}
+
+interface CacheControl {
+  noStore: boolean;
+  noCache: boolean;
+  maxAge: number;
+  staleWhileRevalidate: number;
+}
+
+// MARK: - Response Cache
+export class ResponseCache {
+  private readonly persist: boolean;
+  private readonly maxEntries: number;
+  private memory = new Map<string, CachedResponse>(); // Insertion order = least recently used first
+  private index: string[] = []; // Persisted URLs, least recently used first
+  private indexPromise?: Promise<void>;
+
+  // Keys for AsyncStorage
+  private readonly entryKeyPrefix = 'response_cache:';
+  private readonly indexKey = 'response_cache_index';
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.persist = options.persist ?? true;
+    this.maxEntries = options.maxEntries ?? 100;
+  }
+
+  // MARK: - Reading
+
+  /**
+   * Get the cached response for a URL
+   * @param url Full request URL
+   * @returns Cached entry, or null if there is none
+   */
+  async get(url: string): Promise<CachedResponse | null> {
+    const cached = this.memory.get(url);
+    if (cached) {
+      this.touchMemory(url, cached);
+      return cached;
+    }
+
+    if (!this.persist) return null;
+
+    try {
+      const data = await AsyncStorage.getItem(this.entryKeyPrefix + url);
+      if (!data) return null;
+
+      const entry: CachedResponse = JSON.parse(data);
+      this.touchMemory(url, entry);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether the entry is still within its max-age
+   */
+  isFresh(entry: CachedResponse): boolean {
+    return Date.now() - entry.storedAt < entry.maxAge;
+  }
+
+  /**
+   * Whether the entry is stale but may still be served while revalidating
+   */
+  isWithinStaleWhileRevalidate(entry: CachedResponse): boolean {
+    return Date.now() - entry.storedAt < entry.maxAge + entry.staleWhileRevalidate;
+  }
+
+  /**
+   * Conditional request headers for revalidating the entry
+   */
+  conditionalHeaders(entry: CachedResponse): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  /**
+   * Build a Response from a cached entry
+   */
+  toResponse(entry: CachedResponse): Response {
+    return new Response(entry.body, { status: entry.status, headers: entry.headers });
+  }
+
+  // MARK: - Writing
+
+  /**
+   * Store a response, or refresh an existing entry when the server answered 304.
+   * @param url Full request URL
+   * @param response Network response
+   * @param entry Entry that was revalidated, if any
+   * @returns The response to continue with (the cached one for a 304)
+   */
+  async handleResponse(url: string, response: Response, entry?: CachedResponse | null): Promise<Response> {
+    const cacheControl = this.parseCacheControl(response.headers.get('Cache-Control'));
+
+    if (response.status === 304 && entry) {
+      const refreshed: CachedResponse = {
+        ...entry,
+        storedAt: Date.now(),
+        maxAge: cacheControl.noCache ? 0 : cacheControl.maxAge,
+        staleWhileRevalidate: cacheControl.staleWhileRevalidate,
+        etag: response.headers.get('ETag') ?? entry.etag,
+        lastModified: response.headers.get('Last-Modified') ?? entry.lastModified,
+      };
+      await this.set(url, refreshed);
+      return this.toResponse(refreshed);
+    }
+
+    if (response.status !== 200) {
+      return response;
+    }
+
+    if (cacheControl.noStore) {
+      await this.remove(url);
+      return response;
+    }
+
+    try {
+      const body = await response.clone().text();
+      await this.set(url, {
+        url,
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+        storedAt: Date.now(),
+        maxAge: cacheControl.noCache ? 0 : cacheControl.maxAge,
+        staleWhileRevalidate: cacheControl.staleWhileRevalidate,
+        etag: response.headers.get('ETag') ?? undefined,
+        lastModified: response.headers.get('Last-Modified') ?? undefined,
+      });
+    } catch {
+      // Caching is best effort
+    }
+
+    return response;
+  }
+
+  /**
+   * Remove the cached response for a URL
+   * @param url Full request URL
+   */
+  async remove(url: string): Promise<void> {
+    this.memory.delete(url);
+    if (!this.persist) return;
+
+    await this.loadIndex();
+    this.index = this.index.filter(u => u !== url);
+    try {
+      await AsyncStorage.removeItem(this.entryKeyPrefix + url);
+      await AsyncStorage.setItem(this.indexKey, JSON.stringify(this.index));
+    } catch {
+      // Caching is best effort
+    }
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    if (!this.persist) return;
+
+    await this.loadIndex();
+    try {
+      await AsyncStorage.multiRemove([...this.index.map(url => this.entryKeyPrefix + url), this.indexKey]);
+    } catch {
+      // Caching is best effort
+    }
+    this.index = [];
+  }
+
+  // MARK: - Private Methods
+
+  private async set(url: string, entry: CachedResponse): Promise<void> {
+    this.touchMemory(url, entry);
+    if (!this.persist) return;
+
+    await this.loadIndex();
+    this.index = [...this.index.filter(u => u !== url), url];
+    const evicted = this.index.splice(0, Math.max(0, this.index.length - this.maxEntries));
+
+    try {
+      await AsyncStorage.setItem(this.entryKeyPrefix + url, JSON.stringify(entry));
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(evicted.map(u => this.entryKeyPrefix + u));
+      }
+      await AsyncStorage.setItem(this.indexKey, JSON.stringify(this.index));
+    } catch {
+      // Caching is best effort
+    }
+  }
+
+  private touchMemory(url: string, entry: CachedResponse): void {
+    this.memory.delete(url);
+    this.memory.set(url, entry);
+
+    while (this.memory.size > this.maxEntries) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+    }
+  }
+
+  private loadIndex(): Promise<void> {
+    if (!this.indexPromise) {
+      this.indexPromise = AsyncStorage.getItem(this.indexKey)
+        .then(data => {
+          this.index = data ? JSON.parse(data) : [];
+        })
+        .catch(() => {
+          this.index = [];
+        });
+    }
+    return this.indexPromise;
+  }
+
+  private parseCacheControl(value: string | null): CacheControl {
+    const cacheControl: CacheControl = { noStore: false, noCache: false, maxAge: 0, staleWhileRevalidate: 0 };
+    if (!value) return cacheControl;
+
+    for (const directive of value.toLowerCase().split(',')) {
+      const [name, rawValue] = directive.trim().split('=');
+      const seconds = Number(rawValue);
+
+      switch (name) {
+        case 'no-store':
+          cacheControl.noStore = true;
+          break;
+        case 'no-cache':
+          cacheControl.noCache = true;
+          break;
+        case 'max-age':
+          cacheControl.maxAge = isNaN(seconds) ? 0 : seconds * 1000;
+          break;
+        case 'stale-while-revalidate':
+          cacheControl.staleWhileRevalidate = isNaN(seconds) ? 0 : seconds * 1000;
+          break;
+      }
+    }
+
+    return cacheControl;
+  }
+}
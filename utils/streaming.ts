@@ -0,0 +1,350 @@
+/*
+ * STREAMING REFERENCE GUIDE
+ *
+ * Building blocks for APIService's streaming API (APIService.events / APIService.ndjson).
+ * Most apps use those methods directly; this module holds the parsers and the
+ * low-level stream readers used by the default transport.
+ *
+ * Features:
+ * - Server-Sent Events parser (event, data, id, retry, comments)
+ * - Newline-delimited JSON parser
+ * - Incremental body reading with fetch streams (web) or XMLHttpRequest
+ *   progress events (React Native, where fetch buffers the whole body)
+ *
+ * Notes:
+ * - The XMLHttpRequest reader keeps the whole response text in memory, so very
+ *   long-lived streams should be reconnected periodically
+ *
+ * Usage Examples:
+ * // Parse SSE text manually
+ * const parser = new ServerSentEventParser();
+ * for (const event of parser.push('data: hello\n\n')) {
+ *   console.log(event.event, event.data); // 'message', 'hello'
+ * }
+ *
+ * // Parse NDJSON text manually
+ * const lines = new NDJSONParser();
+ * const values = [...lines.push('{"a":1}\n{"a":'), ...lines.push('2}\n')];
+ */
+
+import { abortError, APIRequest } from './apiService';
+
+// MARK: - Stream Types
+export interface ServerSentEvent {
+  event: string; // Defaults to 'message'
+  data: string;
+  id?: string; // Last event ID seen on this stream
+}
+
+/**
+ * A response whose body is delivered incrementally
+ */
+export interface StreamingResponse {
+  status: number;
+  headers: Headers;
+  chunks: AsyncIterable<string>;
+}
+
+// MARK: - Server-Sent Event Parser
+export class ServerSentEventParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private eventId?: string;
+  private retryTime?: number;
+
+  /**
+   * Reconnection time in milliseconds requested by the server with a `retry:` field
+   */
+  get retry(): number | undefined {
+    return this.retryTime;
+  }
+
+  /**
+   * Feed a chunk of text
+   * @param chunk Text received from the stream
+   * @returns Events completed by this chunk
+   */
+  push(chunk: string): ServerSentEvent[] {
+    this.buffer += chunk;
+    const events: ServerSentEvent[] = [];
+
+    // A trailing '\r' might be the first half of '\r\n', so keep it for the next chunk
+    const lines = this.buffer.split(/\r\n|\r(?!$)|\n/);
+    this.buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    // Blank line dispatches the event
+    if (line === '') {
+      if (this.dataLines.length === 0) {
+        this.eventType = '';
+        return null;
+      }
+
+      const event: ServerSentEvent = {
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        id: this.eventId,
+      };
+      this.eventType = '';
+      this.dataLines = [];
+      return event;
+    }
+
+    // Comment
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.eventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retryTime = Number(value);
+        }
+        break;
+    }
+
+    return null;
+  }
+}
+
+// MARK: - NDJSON Parser
+export class NDJSONParser {
+  private buffer = '';
+
+  /**
+   * Feed a chunk of text
+   * @param chunk Text received from the stream
+   * @returns Values from the lines completed by this chunk
+   * @throws SyntaxError if a line is not valid JSON
+   */
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return this.parseLines(lines);
+  }
+
+  /**
+   * Parse the final line if the stream did not end with a newline
+   */
+  flush(): unknown[] {
+    const lines = [this.buffer];
+    this.buffer = '';
+    return this.parseLines(lines);
+  }
+
+  private parseLines(lines: string[]): unknown[] {
+    return lines.filter(line => line.trim() !== '').map(line => JSON.parse(line));
+  }
+}
+
+// MARK: - Stream Readers
+
+/**
+ * Wrap a buffered Response so it can be consumed as a stream (one chunk with the whole body).
+ * Used for transports without streaming support, such as MockTransport.
+ */
+export function streamFromResponse(response: Response): StreamingResponse {
+  async function* chunks(): AsyncGenerator<string> {
+    const text = await response.text();
+    if (text) yield text;
+  }
+
+  return { status: response.status, headers: response.headers, chunks: chunks() };
+}
+
+/**
+ * Whether fetch exposes the response body as a ReadableStream (web),
+ * as opposed to React Native where the body is buffered
+ */
+export function supportsFetchStreaming(): boolean {
+  return typeof Response !== 'undefined' &&
+    'body' in Response.prototype &&
+    typeof TextDecoder !== 'undefined';
+}
+
+/**
+ * Open a stream with fetch and read the body incrementally
+ */
+export async function openFetchStream(request: APIRequest, signal: AbortSignal): Promise<StreamingResponse> {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal,
+  });
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  async function* chunks(): AsyncGenerator<string> {
+    if (!reader) return;
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decoder.decode(value, { stream: true });
+      }
+      const rest = decoder.decode();
+      if (rest) yield rest;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return { status: response.status, headers: response.headers, chunks: chunks() };
+}
+
+/**
+ * Open a stream with XMLHttpRequest, reading the body from progress events
+ */
+export function openXHRStream(request: APIRequest, signal: AbortSignal): Promise<StreamingResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const queue = new ChunkQueue();
+    let receivedLength = 0;
+    let isOpen = false;
+
+    xhr.open(request.method, request.url);
+    xhr.responseType = 'text';
+    Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    const flushText = () => {
+      const text = xhr.responseText;
+      if (text.length > receivedLength) {
+        queue.push(text.slice(receivedLength));
+        receivedLength = text.length;
+      }
+    };
+
+    const open = () => {
+      if (isOpen) return;
+      isOpen = true;
+      resolve({ status: xhr.status, headers: parseHeaders(xhr.getAllResponseHeaders()), chunks: queue });
+    };
+
+    const onAbort = () => {
+      xhr.abort();
+      if (isOpen) {
+        queue.end(abortError(signal));
+      } else {
+        reject(abortError(signal));
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState >= XMLHttpRequest.HEADERS_RECEIVED) {
+        open();
+      }
+    };
+    // React Native only delivers incremental text when onprogress is set
+    xhr.onprogress = flushText;
+    xhr.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      open();
+      flushText();
+      queue.end();
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      const error = new TypeError('Network request failed');
+      if (isOpen) {
+        queue.end(error);
+      } else {
+        reject(error);
+      }
+    };
+
+    xhr.send((request.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
+
+// MARK: - Private Helpers
+
+/**
+ * Async iterable fed by callbacks
+ */
+class ChunkQueue implements AsyncIterable<string> {
+  private chunks: string[] = [];
+  private isDone = false;
+  private error?: unknown;
+  private waiting?: () => void;
+
+  push(chunk: string): void {
+    this.chunks.push(chunk);
+    this.wake();
+  }
+
+  end(error?: unknown): void {
+    this.isDone = true;
+    this.error = error;
+    this.wake();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<string> {
+    while (true) {
+      if (this.chunks.length > 0) {
+        yield this.chunks.shift()!;
+      } else if (this.isDone) {
+        if (this.error) throw this.error;
+        return;
+      } else {
+        await new Promise<void>(resolve => {
+          this.waiting = resolve;
+        });
+      }
+    }
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.();
+  }
+}
+
+/**
+ * Parses XMLHttpRequest.getAllResponseHeaders() into a Headers object
+ * @param rawHeaders CRLF-separated `Name: value` lines
+ * @returns The response headers
+ */
+export function parseHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+  rawHeaders.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
@@ -8,6 +8,7 @@
  * - Flexible storage backends (AsyncStorage, SecureStore, etc.)
  * - Integration with existing utilities (Superwall, Notifications, API)
  * - Session management and persistence
+ * - Automatic access-token refresh (emits 'sessionExpired' when the server rejects the refresh token)
  * - User preferences and settings
  * - Easy logout and data cleanup
  * 
@@ -28,6 +29,13 @@
  * // Sign out
  * await UserManager.shared.signOut();
  * 
+ * // Store tokens and refresh them automatically when the API returns 401
+ * await UserManager.shared.setSessionTokens({ accessToken, refreshToken });
+ * UserManager.shared.setSessionRefresher(async (refreshToken) =>
+ *   APIService.shared.post<AuthTokens>('/auth/refresh', { refreshToken }, undefined, { skipAuthRefresh: true })
+ * );
+ * UserManager.shared.on('sessionExpired', () => router.replace('/(onboarding)/welcomeView'));
+ * 
  * Configuration:
  * - Set storage backend: UserManager.shared.setStorageBackend(new SecureStorageBackend())
  * - Configure auto-sync: UserManager.shared.setAutoSyncEnabled(true)
@@ -35,7 +43,7 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { APIService } from './apiService';
+import { APIError, APIErrorType, APIService } from './apiService';
 import { SimpleEventEmitter } from './eventEmitter';
 
 // MARK: - User Manager Error Types
@@ -101,6 +109,17 @@ export interface User {
   customData: Record<string, any>;
 }
 
+// MARK: - Session Tokens
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+/**
+ * Exchanges a refresh token for a new token pair (typically a call to your auth endpoint)
+ */
+export type SessionRefresher = (refreshToken: string) => Promise<AuthTokens>;
+
 // MARK: - Storage Backend Protocol
 export interface UserStorageBackend {
   saveUser(user: User): Promise<void>;
@@ -205,10 +224,12 @@ export class UserManager extends SimpleEventEmitter {
   private storageBackend: UserStorageBackend;
   private isDebugMode = false;
   private autoSyncEnabled = true;
+  private sessionRefresher?: SessionRefresher;
 
   // Storage keys for local state
   private readonly lastSyncKey = 'last_sync_date';
   private readonly sessionTokenKey = 'session_token';
+  private readonly refreshTokenKey = 'refresh_token';
 
   private constructor() {
     super();
@@ -329,6 +350,7 @@ export class UserManager extends SimpleEventEmitter {
       
       // Clean up session
       await AsyncStorage.removeItem(this.sessionTokenKey);
+      await AsyncStorage.removeItem(this.refreshTokenKey);
       
       this._currentUser = null;
       this._isSignedIn = false;
@@ -534,12 +556,96 @@ export class UserManager extends SimpleEventEmitter {
     }
   }
 
+  /**
+   * Save an access/refresh token pair and apply the access token to the API service
+   * @param tokens Access token and optional refresh token
+   */
+  async setSessionTokens(tokens: AuthTokens): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.sessionTokenKey, tokens.accessToken);
+      if (tokens.refreshToken) {
+        await AsyncStorage.setItem(this.refreshTokenKey, tokens.refreshToken);
+      }
+      
+      APIService.shared.setBearerToken(tokens.accessToken);
+      
+      // Emit event
+      this.emit('sessionTokensUpdated');
+      
+      if (this.isDebugMode) {
+        console.log('🔑 Session tokens updated');
+      }
+    } catch (error) {
+      throw UserManagerError.storageError(error as Error);
+    }
+  }
+
+  /**
+   * Get current refresh token
+   * @returns Refresh token if available
+   */
+  async getRefreshToken(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(this.refreshTokenKey);
+    } catch (error) {
+      throw UserManagerError.storageError(error as Error);
+    }
+  }
+
+  /**
+   * Set the function used to refresh the session when the API returns 401.
+   * Registers itself as the API service's token refresh handler.
+   * @param refresher Function exchanging a refresh token for a new token pair, or undefined to disable
+   */
+  setSessionRefresher(refresher?: SessionRefresher): void {
+    this.sessionRefresher = refresher;
+    APIService.shared.setTokenRefreshHandler(refresher ? () => this.refreshSession() : undefined);
+  }
+
+  /**
+   * Refresh the session using the stored refresh token.
+   * If the server rejects the refresh (or there is no refresh token), emits 'sessionExpired'
+   * and signs the user out. Transient failures (network errors, timeouts, 5xx) are rethrown
+   * and the session is kept, so the next request can try again.
+   * @returns The new access token
+   */
+  async refreshSession(): Promise<string> {
+    const refreshToken = await this.getRefreshToken();
+    if (!this.sessionRefresher || !refreshToken) {
+      await this.expireSession('no refresh token');
+      throw UserManagerError.authenticationFailed();
+    }
+
+    let tokens: AuthTokens;
+    try {
+      tokens = await this.sessionRefresher(refreshToken);
+    } catch (error) {
+      if (!isRefreshRejection(error)) {
+        if (this.isDebugMode) {
+          console.log(`⚠️ Session refresh failed, keeping the session: ${error}`);
+        }
+        throw error;
+      }
+
+      await this.expireSession(String(error));
+      throw UserManagerError.authenticationFailed();
+    }
+
+    await this.setSessionTokens(tokens);
+
+    // Emit event
+    this.emit('sessionRefreshed');
+
+    return tokens.accessToken;
+  }
+
   /**
    * Clear session token
    */
   async clearSessionToken(): Promise<void> {
     try {
       await AsyncStorage.removeItem(this.sessionTokenKey);
+      await AsyncStorage.removeItem(this.refreshTokenKey);
       
       if (this.isDebugMode) {
         console.log('🗑️ Session token cleared');
@@ -608,6 +714,7 @@ export class UserManager extends SimpleEventEmitter {
       await this.storageBackend.saveUserData({});
       
       await AsyncStorage.removeItem(this.sessionTokenKey);
+      await AsyncStorage.removeItem(this.refreshTokenKey);
       await AsyncStorage.removeItem(this.lastSyncKey);
       
       this._currentUser = null;
@@ -632,6 +739,16 @@ export class UserManager extends SimpleEventEmitter {
 
   // MARK: - Private Methods
 
+  private async expireSession(reason: string): Promise<void> {
+    if (this.isDebugMode) {
+      console.log(`❌ Session refresh rejected: ${reason}`);
+    }
+
+    // Emit event before signing out so listeners can still read the user
+    this.emit('sessionExpired');
+    await this.signOut();
+  }
+
   private async loadInitialState(): Promise<void> {
     try {
       const user = await this.storageBackend.loadUser();
@@ -645,6 +762,9 @@ export class UserManager extends SimpleEventEmitter {
       
       if (user) {
         await this.setupUserServices(user);
+        
+        // Emit event once the stored session is usable
+        this.emit('sessionRestored', user);
       }
       
       if (this.isDebugMode) {
@@ -685,8 +805,25 @@ export class UserManager extends SimpleEventEmitter {
       // Superwall service might not be available
     }
     
-    // Clear API authentication
+    // Clear API authentication and cached responses
     APIService.shared.setBearerToken(undefined);
+    await APIService.shared.clearResponseCache();
+    
+    // Clear normalized GraphQL data
+    try {
+      const { GraphQLClient } = await import('./graphQLClient');
+      GraphQLClient.shared.clearCache();
+    } catch {
+      // GraphQL client might not be available
+    }
+
+    // Clear query data shown by useQuery
+    try {
+      const { QueryClient } = await import('./queryClient');
+      QueryClient.shared.clear();
+    } catch {
+      // Query client might not be available
+    }
     
     // Stop notification campaigns
     try {
@@ -733,6 +870,19 @@ export class UserManager extends SimpleEventEmitter {
   }
 }
 
+// MARK: - Session Refresh Helpers
+
+// Responses meaning the refresh token itself is no longer valid
+const refreshRejectionTypes: APIErrorType[] = [
+  APIErrorType.UNAUTHORIZED,
+  APIErrorType.FORBIDDEN,
+  APIErrorType.BAD_REQUEST,
+];
+
+function isRefreshRejection(error: unknown): boolean {
+  return error instanceof APIError && refreshRejectionTypes.includes(error.type);
+}
+
 // MARK: - Convenience Extensions
 export namespace UserManager {
   /**